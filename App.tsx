@@ -1,45 +1,166 @@
-import React, { useState, useEffect } from 'react';
-import { generateLesson, extractTopicsFromFile, getKhanAcademyTopics, generateMoreExamples } from './services/geminiService';
-import type { Lesson, ActiveTab, Subject, LessonRecord, Mistake, UserProgress, ProgressStats, TopicSource } from './types';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { generateLesson, extractCurriculum, getKhanAcademyTopics, generateMoreExamples, generateRemedialLesson, askTutor } from './services/geminiService';
+import type { LessonSection } from './services/geminiService';
+import { GenerationValidationError, formatValidationIssue } from './services/validation';
+import { AiRequestError, AuthError, BudgetExceededError, QuotaError, ServerError, NetworkError, TimeoutError, SafetyBlockedError } from './services/errors';
+import type { Lesson, LabNotebook, ActiveTab, Subject, GradeLevel, DifficultyTier, LessonRecord, Mistake, UserProgress, ProgressStats, TopicSource, SavedLesson, ReviewDeck, ReviewGrade, ProfilesState, RemediationRecord, TutorMessage, Curriculum, CurriculumTopic, TimerSettings } from './types';
 import Quiz from './components/Quiz';
 import PracticeProblems from './components/PracticeProblems';
 import LoadingSpinner from './components/LoadingSpinner';
 import Dashboard from './components/Dashboard';
-import { loadUserProgress, addLessonRecord, calculateProgressStats, saveApiKey, loadApiKey } from './utils/progress';
+import LessonLibrary from './components/LessonLibrary';
+import ReviewSession from './components/ReviewSession';
+import ProfileManager from './components/ProfileManager';
+import RichText from './components/RichText';
+import Visual from './components/Visual';
+import VirtualLab from './components/VirtualLab';
+import UsagePanel from './components/UsagePanel';
+import NextLessonSuggestions from './components/NextLessonSuggestions';
+import RemedialSession from './components/RemedialSession';
+import TutorChat from './components/TutorChat';
+import CurriculumOutline from './components/CurriculumOutline';
+import { loadUserProgress, addLessonRecord, calculateProgressStats, saveApiKey, loadApiKey, saveProviderSettings, loadProviderSettings } from './utils/progress';
+import { isProviderConfigured, getGenerationSettings, DEFAULT_OPENAI_BASE_URL } from './services/providers';
+import { syncReviewDeck, recordReview, getDueItems } from './utils/review';
+import { loadProfilesState, getActiveProfile, updateProfilePreferences } from './utils/profiles';
+import { listSavedLessons, findCachedLesson, saveLesson, duplicateSavedLesson, deleteSavedLesson, saveTutorChat } from './utils/lessonLibrary';
+import { buildSkillOutcomes } from './utils/mastery';
+import { createEmptyNotebook } from './utils/labs';
+import {
+    listSubjectPacks, getSubjectPack, gradesForPack, clampGrade, labSimulationsFor, parseSubjectPack, addCustomSubjectPack, removeCustomSubjectPack,
+} from './utils/subjectPacks';
+import { recommendNextTopics } from './utils/recommendations';
+import {
+    loadRemediations, saveRemediations, addRemediation, completeRemediation, remediationsForRecord,
+    type RemediationResult,
+} from './utils/remediation';
+import {
+    loadCurricula, saveCurricula, curriculumTopics, findCurriculumTopic, getNextCurriculumTopic, markCurriculumTopicComplete,
+    deleteCurriculum,
+} from './utils/curriculum';
+import { timingForRecord } from './utils/timer';
+import { DIFFICULTY_TIERS, DEFAULT_DIFFICULTY, formatGrade, formatDifficulty, recommendDifficulty } from './utils/difficulty';
+import type { ProviderId } from './services/providers';
+
+const PROVIDER_OPTIONS: { id: ProviderId; label: string }[] = [
+    { id: 'gemini', label: 'Google Gemini' },
+    { id: 'openai-compatible', label: 'Self-hosted' },
+    { id: 'mock', label: 'Offline Demo' },
+];
 
 const ApiKeySetup: React.FC<{ onApiKeySet: () => void }> = ({ onApiKeySet }) => {
+    const initialSettings = loadProviderSettings();
+    const [provider, setProvider] = useState<ProviderId>(initialSettings.provider);
+    const [baseUrl, setBaseUrl] = useState(initialSettings.baseUrl || DEFAULT_OPENAI_BASE_URL);
+    const [model, setModel] = useState(initialSettings.model || '');
     const [apiKey, setApiKey] = useState('');
+    const [serverApiKey, setServerApiKey] = useState(initialSettings.apiKey || '');
     const [error, setError] = useState('');
 
     const handleSubmit = () => {
-        if (!apiKey.trim()) {
+        if (provider === 'gemini' && !apiKey.trim()) {
             setError('Please enter your API key.');
             return;
         }
-        saveApiKey(apiKey);
+        if (provider === 'openai-compatible' && (!baseUrl.trim() || !model.trim())) {
+            setError('Please enter the server URL and model name.');
+            return;
+        }
+        if (provider === 'gemini') {
+            saveApiKey(apiKey);
+        }
+        saveProviderSettings(provider === 'openai-compatible'
+            ? { provider, baseUrl: baseUrl.trim(), model: model.trim(), ...(serverApiKey.trim() && { apiKey: serverApiKey.trim() }) }
+            : { provider });
         onApiKeySet();
     };
 
+    const inputClassName = "w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:ring-brand-500 focus:border-brand-500";
+
     return (
         <div className="flex items-center justify-center min-h-screen bg-gray-900 text-white p-4">
             <div className="w-full max-w-md text-center">
                 <h1 className="text-5xl font-bold text-brand-400 mb-2">Welcome to Alge-Bro!</h1>
                 <p className="text-xl text-gray-300 mb-8">Your friendly Math & Science buddy.</p>
                 <div className="bg-gray-800 p-8 rounded-lg shadow-2xl">
-                    <h2 className="text-2xl font-bold mb-2">Connect Your API Key</h2>
-                    <p className="text-gray-400 mb-4">
-                        To start generating lessons, you'll need to provide your Google AI API key. This is a one-time setup and your key will be saved securely in your browser.
-                    </p>
-                    <input
-                        type="password"
-                        value={apiKey}
-                        onChange={(e) => {
-                            setApiKey(e.target.value);
-                            setError('');
-                        }}
-                        placeholder="Enter your Google AI API key"
-                        className="w-full px-4 py-2 bg-gray-700 border border-gray-600 rounded-md text-white placeholder-gray-400 focus:ring-brand-500 focus:border-brand-500"
-                    />
+                    <div className="flex gap-2 rounded-md bg-gray-700 p-1 mb-6">
+                        {PROVIDER_OPTIONS.map(option => (
+                            <button
+                                key={option.id}
+                                onClick={() => {
+                                    setProvider(option.id);
+                                    setError('');
+                                }}
+                                className={`px-3 py-1.5 text-sm font-medium rounded-md flex-1 transition-colors ${provider === option.id ? 'bg-gray-800 text-brand-400 shadow-sm' : 'text-gray-400 hover:bg-gray-600'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+
+                    {provider === 'gemini' && (
+                        <>
+                            <h2 className="text-2xl font-bold mb-2">Connect Your API Key</h2>
+                            <p className="text-gray-400 mb-4">
+                                To start generating lessons, you'll need to provide your Google AI API key. This is a one-time setup and your key will be saved securely in your browser.
+                            </p>
+                            <input
+                                type="password"
+                                value={apiKey}
+                                onChange={(e) => {
+                                    setApiKey(e.target.value);
+                                    setError('');
+                                }}
+                                placeholder="Enter your Google AI API key"
+                                className={inputClassName}
+                            />
+                        </>
+                    )}
+                    {provider === 'openai-compatible' && (
+                        <>
+                            <h2 className="text-2xl font-bold mb-2">Connect Your Server</h2>
+                            <p className="text-gray-400 mb-4">
+                                Use any OpenAI-compatible server, such as Ollama or llama.cpp, running on your own machine.
+                            </p>
+                            <div className="space-y-3">
+                                <input
+                                    type="text"
+                                    value={baseUrl}
+                                    onChange={(e) => {
+                                        setBaseUrl(e.target.value);
+                                        setError('');
+                                    }}
+                                    placeholder="Server URL, e.g. http://localhost:11434/v1"
+                                    className={inputClassName}
+                                />
+                                <input
+                                    type="text"
+                                    value={model}
+                                    onChange={(e) => {
+                                        setModel(e.target.value);
+                                        setError('');
+                                    }}
+                                    placeholder="Model name, e.g. llama3.1"
+                                    className={inputClassName}
+                                />
+                                <input
+                                    type="password"
+                                    value={serverApiKey}
+                                    onChange={(e) => setServerApiKey(e.target.value)}
+                                    placeholder="Server API key (optional)"
+                                    className={inputClassName}
+                                />
+                            </div>
+                        </>
+                    )}
+                    {provider === 'mock' && (
+                        <>
+                            <h2 className="text-2xl font-bold mb-2">Try It Offline</h2>
+                            <p className="text-gray-400 mb-4">
+                                Demo mode uses built-in sample lessons. No API key or internet connection needed.
+                            </p>
+                        </>
+                    )}
                     {error && <p className="text-red-400 text-sm mt-2">{error}</p>}
                     <button
                         onClick={handleSubmit}
@@ -47,9 +168,11 @@ const ApiKeySetup: React.FC<{ onApiKeySet: () => void }> = ({ onApiKeySet }) =>
                     >
                         Save & Start Learning
                     </button>
-                    <p className="text-xs text-gray-500 mt-4">
-                        You can get your key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="underline hover:text-brand-400">Google AI Studio</a>.
-                    </p>
+                    {provider === 'gemini' && (
+                        <p className="text-xs text-gray-500 mt-4">
+                            You can get your key from <a href="https://aistudio.google.com/app/apikey" target="_blank" rel="noopener noreferrer" className="underline hover:text-brand-400">Google AI Studio</a>.
+                        </p>
+                    )}
                 </div>
             </div>
         </div>
@@ -57,11 +180,44 @@ const ApiKeySetup: React.FC<{ onApiKeySet: () => void }> = ({ onApiKeySet }) =>
 };
 
 
+// What to tell the student when a request fails, based on the kind of failure.
+const describeError = (err: unknown): string => {
+    if (err instanceof AuthError) {
+        return "Your API key wasn't accepted. Check that it's correct and allowed to use the model, then update it below.";
+    }
+    if (err instanceof BudgetExceededError) {
+        return `Today's AI budget of $${err.budgetUsd.toFixed(2)} has been used up. A parent or teacher can raise it under Usage, or try again tomorrow.`;
+    }
+    if (err instanceof QuotaError) {
+        const wait = err.retryAfterMs ? ` in about ${Math.ceil(err.retryAfterMs / 1000)} seconds` : ' in a minute';
+        return `The AI service is getting too many requests, or your usage quota has run out. Please try again${wait}.`;
+    }
+    if (err instanceof SafetyBlockedError) {
+        return "The AI declined to write about this. Try rephrasing the topic or choosing a different one.";
+    }
+    if (err instanceof NetworkError) {
+        return "Couldn't reach the AI service. Check your internet connection (or that your self-hosted server is running) and try again.";
+    }
+    if (err instanceof TimeoutError) {
+        return "The AI service took too long to answer. Please try again, or pick a narrower topic.";
+    }
+    if (err instanceof ServerError) {
+        return `The AI service is having trouble right now (error ${err.status}). Please try again in a few minutes.`;
+    }
+    if (err instanceof AiRequestError && !(err instanceof GenerationValidationError)) {
+        return `The AI service couldn't handle this request. ${err.message}`;
+    }
+    return err instanceof Error && err.message ? err.message : 'An unexpected error occurred.';
+};
+
+const mostRecentCurriculumId = (curricula: Curriculum[]): string | null =>
+    [...curricula].sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))[0]?.id ?? null;
+
 const App: React.FC = () => {
     const [apiKeySet, setApiKeySet] = useState<boolean>(false);
     
     useEffect(() => {
-        if (loadApiKey()) {
+        if (isProviderConfigured(loadProviderSettings(), loadApiKey())) {
             setApiKeySet(true);
         }
     }, []);
@@ -69,44 +225,130 @@ const App: React.FC = () => {
     const [lesson, setLesson] = useState<Lesson | null>(null);
     const [isLoading, setIsLoading] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
+    const [errorDetails, setErrorDetails] = useState<string[]>([]);
+    const [isAuthError, setIsAuthError] = useState<boolean>(false);
     const [activeTab, setActiveTab] = useState<ActiveTab>('lesson');
+    // Sections of the lesson that have fully arrived while it is still streaming; null otherwise.
+    const [streamingSections, setStreamingSections] = useState<LessonSection[] | null>(null);
+    // Each generation gets an id so a slower, older request can never replace a newer lesson.
+    const generationIdRef = useRef(0);
+    const abortControllerRef = useRef<AbortController | null>(null);
+
+    const [profilesState, setProfilesState] = useState<ProfilesState>(loadProfilesState);
+    // A PIN-protected profile has to be unlocked again each time the app is opened.
+    const [isProfileLocked, setIsProfileLocked] = useState<boolean>(() => !!getActiveProfile().pinHash);
+    const [isProfileManagerOpen, setIsProfileManagerOpen] = useState<boolean>(false);
 
     const [topic, setTopic] = useState<string>('');
-    const [subject, setSubject] = useState<Subject>('Math');
+    const [subject, setSubject] = useState<Subject>(() => getActiveProfile().preferences.defaultSubject);
+    const [subjectPacks, setSubjectPacks] = useState(listSubjectPacks);
+    const subjectPackInputRef = useRef<HTMLInputElement>(null);
+    const [gradeLevel, setGradeLevel] = useState<GradeLevel>(() => getActiveProfile().preferences.gradeLevel);
+    // 'auto' picks the tier from the student's earlier results on the topic.
+    const [tierChoice, setTierChoice] = useState<DifficultyTier | 'auto'>('auto');
 
     const [topicSource, setTopicSource] = useState<TopicSource>('manual');
     const [parsedTopics, setParsedTopics] = useState<string[]>([]);
     const [isParsingTopics, setIsParsingTopics] = useState<boolean>(false);
     const [isGeneratingExamples, setIsGeneratingExamples] = useState<boolean>(false);
+    const examplesAbortRef = useRef<AbortController | null>(null);
+
+    const [curricula, setCurricula] = useState<Curriculum[]>(loadCurricula);
+    const [activeCurriculumId, setActiveCurriculumId] = useState<string | null>(() => mostRecentCurriculumId(loadCurricula()));
+    const [syllabusProgress, setSyllabusProgress] = useState<{ read: number; total: number } | null>(null);
+    // The subject the open lesson was made in. Changing the Subject picker doesn't move the open
+    // lesson to another subject: it keeps being graded, tutored and recorded under this one.
+    const [lessonSubject, setLessonSubject] = useState<Subject | null>(null);
+    // The curriculum topic the open lesson covers; it's marked complete when the lesson is.
+    const [lessonCurriculumTopic, setLessonCurriculumTopic] = useState<{ curriculumId: string; topicId: string } | null>(null);
+    const activeCurriculum = curricula.find(curriculum => curriculum.id === activeCurriculumId);
 
+    // What the student has recorded in the open lesson's virtual lab; null until they record something.
+    const [labNotebook, setLabNotebook] = useState<LabNotebook | null>(null);
     const [quizResult, setQuizResult] = useState<{ score: number; total: number; time: number; mistakes: Mistake[] } | null>(null);
-    const [problemsResult, setProblemsResult] = useState<{ score: number; total: number; time: number; mistakes: Mistake[] } | null>(null);
+    const [problemsResult, setProblemsResult] = useState<{ score: number; total: number; time: number; mistakes: Mistake[]; hintsUsed: number } | null>(null);
+    // Set once both parts of the open lesson are done and its record has been saved.
+    const [completedRecord, setCompletedRecord] = useState<LessonRecord | null>(null);
     
     const [userProgress, setUserProgress] = useState<UserProgress>(loadUserProgress());
     const [progressStats, setProgressStats] = useState<ProgressStats>(calculateProgressStats(userProgress));
     const [isDashboardOpen, setIsDashboardOpen] = useState<boolean>(false);
+    const [reviewDeck, setReviewDeck] = useState<ReviewDeck>(() => syncReviewDeck(userProgress));
+    const [isReviewOpen, setIsReviewOpen] = useState<boolean>(false);
+    const [isUsageOpen, setIsUsageOpen] = useState<boolean>(false);
+
+    const [remediations, setRemediations] = useState<RemediationRecord[]>(loadRemediations);
+    // The lesson record whose mistakes are being fixed, and the remedial lesson made for it.
+    const [remediationTarget, setRemediationTarget] = useState<LessonRecord | null>(null);
+    const [activeRemediationId, setActiveRemediationId] = useState<string | null>(null);
+    const [isRemediationLoading, setIsRemediationLoading] = useState<boolean>(false);
+    const [remediationError, setRemediationError] = useState<string | null>(null);
+    const remediationAbortRef = useRef<AbortController | null>(null);
+
+    const [savedLessons, setSavedLessons] = useState<SavedLesson[]>([]);
+    // Set when the open lesson came from the library rather than a fresh generation.
+    const [libraryTopic, setLibraryTopic] = useState<string | null>(null);
+    // The library entry for the open lesson, which the tutor conversation is saved with.
+    const [savedLessonId, setSavedLessonId] = useState<string | null>(null);
+
+    const [isTutorOpen, setIsTutorOpen] = useState<boolean>(false);
+    const [tutorMessages, setTutorMessages] = useState<TutorMessage[]>([]);
+    const [tutorPendingReply, setTutorPendingReply] = useState<string | null>(null);
+    const [isTutorSending, setIsTutorSending] = useState<boolean>(false);
+    const [tutorError, setTutorError] = useState<string | null>(null);
+    // The quiz is in progress from when it's opened until it's handed in, even while the student
+    // is on another tab, so the tutor keeps holding back answers the whole time. Once the lesson's
+    // record is saved quizResult is cleared again, but the quiz stays finished.
+    const [isQuizStarted, setIsQuizStarted] = useState<boolean>(false);
+    const isQuizInProgress = isQuizStarted && !quizResult && !completedRecord;
+    // The timer settings the open lesson's quiz and problems run under, taken from the profile when
+    // the first of them is opened, so changing them mid-lesson can't change a running clock or
+    // record a different timing than the lesson had.
+    const [lessonTimer, setLessonTimer] = useState<TimerSettings | null>(null);
+    const tutorAbortRef = useRef<AbortController | null>(null);
+
+    const refreshSavedLessons = async () => {
+        setSavedLessons(await listSavedLessons());
+    };
+
+    useEffect(() => {
+        refreshSavedLessons();
+    }, []);
 
     useEffect(() => {
-        if (quizResult && problemsResult && lesson) {
+        if (quizResult && problemsResult && lesson && lessonSubject && lessonTimer) {
+            const mistakes = [...quizResult.mistakes, ...problemsResult.mistakes];
             const newRecord: LessonRecord = {
                 date: new Date().toISOString(),
                 topic: lesson.topic,
+                subject: lessonSubject,
                 quizScore: quizResult.score,
                 quizTotal: quizResult.total,
                 quizTimeTaken: quizResult.time,
                 problemsScore: problemsResult.score,
                 problemsTotal: problemsResult.total,
                 problemsTimeTaken: problemsResult.time,
-                mistakes: [...quizResult.mistakes, ...problemsResult.mistakes],
+                problemsHintsUsed: problemsResult.hintsUsed,
+                ...timingForRecord(lessonTimer),
+                difficulty: lesson.difficulty ?? DEFAULT_DIFFICULTY,
+                mistakes,
+                skillOutcomes: buildSkillOutcomes(lesson, mistakes, lessonSubject),
             };
             const updatedProgress = addLessonRecord(newRecord);
             setUserProgress(updatedProgress);
             setProgressStats(calculateProgressStats(updatedProgress));
+            setReviewDeck(syncReviewDeck(updatedProgress));
+            if (lessonCurriculumTopic) {
+                const updatedCurricula = markCurriculumTopicComplete(loadCurricula(), lessonCurriculumTopic.curriculumId, lessonCurriculumTopic.topicId);
+                saveCurricula(updatedCurricula);
+                setCurricula(updatedCurricula);
+            }
             
             setQuizResult(null);
             setProblemsResult(null);
+            setCompletedRecord(newRecord);
         }
-    }, [quizResult, problemsResult, lesson]);
+    }, [quizResult, problemsResult, lesson, lessonSubject, lessonTimer, lessonCurriculumTopic]);
 
     useEffect(() => {
         setParsedTopics([]);
@@ -114,37 +356,217 @@ const App: React.FC = () => {
         if (topicSource !== 'manual') {
             setTopicSource('manual');
         }
+        updateProfilePreferences(profilesState.activeProfileId, { defaultSubject: subject });
+        // Not every subject is offered for every grade.
+        const grade = clampGrade(getSubjectPack(subject), gradeLevel);
+        if (grade !== gradeLevel) {
+            handleGradeLevelChange(grade);
+        }
     // eslint-disable-next-line react-hooks/exhaustive-deps
     }, [subject]);
 
+    const handleProfilesChange = (newState: ProfilesState, needsUnlock: boolean = false) => {
+        const isSwitching = newState.activeProfileId !== profilesState.activeProfileId || isProfileLocked;
+        setProfilesState(newState);
+        if (!isSwitching) return;
 
-    const handleGenerateLesson = async () => {
-        if (!topic.trim()) {
-            setError('Please enter a topic.');
-            return;
+        // Everything below is per-profile, so reload it for the newly active profile.
+        const progress = loadUserProgress();
+        resetLessonState();
+        setUserProgress(progress);
+        setProgressStats(calculateProgressStats(progress));
+        setReviewDeck(syncReviewDeck(progress));
+        handleCloseRemediation();
+        setRemediations(loadRemediations());
+        const profileCurricula = loadCurricula();
+        setCurricula(profileCurricula);
+        setActiveCurriculumId(mostRecentCurriculumId(profileCurricula));
+        setSubject(getActiveProfile().preferences.defaultSubject);
+        setGradeLevel(getActiveProfile().preferences.gradeLevel);
+        refreshSavedLessons();
+        setIsProfileLocked(needsUnlock);
+        setIsProfileManagerOpen(false);
+    };
+
+    const handleGradeLevelChange = (grade: GradeLevel) => {
+        setGradeLevel(grade);
+        // Topic lists are grade-specific, so load them again for the new grade.
+        setParsedTopics([]);
+        updateProfilePreferences(profilesState.activeProfileId, { gradeLevel: grade });
+    };
+
+    const handleSubjectPackFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        event.target.value = '';
+        if (!file) return;
+        try {
+            const pack = parseSubjectPack(await file.text());
+            addCustomSubjectPack(pack);
+            setSubjectPacks(listSubjectPacks());
+            setSubject(pack.name);
+            setError(null);
+        } catch (err: any) {
+            showError(err);
         }
-        setIsLoading(true);
+    };
+
+    const handleRemoveSubjectPack = () => {
+        if (!window.confirm(`Remove the "${subject}" subject? Lessons you saved in it are kept.`)) return;
+        removeCustomSubjectPack(subject);
+        setSubjectPacks(listSubjectPacks());
+        setSubject('Math');
+    };
+
+    const handleProgressImported = (progress: UserProgress) => {
+        setUserProgress(progress);
+        setProgressStats(calculateProgressStats(progress));
+        setReviewDeck(syncReviewDeck(progress));
+    };
+
+    const showError = (err: unknown) => {
+        setError(describeError(err));
+        setErrorDetails(err instanceof GenerationValidationError ? err.issues.map(formatValidationIssue) : []);
+        setIsAuthError(err instanceof AuthError);
+    };
+
+    const resetLessonState = () => {
+        abortControllerRef.current?.abort();
+        abortControllerRef.current = null;
+        generationIdRef.current++;
+        examplesAbortRef.current?.abort();
+        examplesAbortRef.current = null;
+        setIsGeneratingExamples(false);
+        setIsLoading(false);
+        setStreamingSections(null);
         setError(null);
         setLesson(null);
+        setLibraryTopic(null);
+        setSavedLessonId(null);
+        setLessonSubject(null);
+        setLessonCurriculumTopic(null);
+        tutorAbortRef.current?.abort();
+        tutorAbortRef.current = null;
+        setIsTutorOpen(false);
+        setTutorMessages([]);
+        setTutorPendingReply(null);
+        setIsTutorSending(false);
+        setTutorError(null);
         setActiveTab('lesson');
+        setLabNotebook(null);
+        setIsQuizStarted(false);
+        setLessonTimer(null);
         setQuizResult(null);
         setProblemsResult(null);
-        
+        setCompletedRecord(null);
+    };
+
+    const handleGenerateLesson = async (requestedTopic: string = topic, skipCache: boolean = false) => {
+        if (!requestedTopic.trim()) {
+            setError('Please enter a topic.');
+            setErrorDetails([]);
+            setIsAuthError(false);
+            return;
+        }
+        resetLessonState();
+        setLessonSubject(subject);
+        setIsLoading(true);
+        const curriculumTopic = topicSource === 'upload' && activeCurriculum ? findCurriculumTopic(activeCurriculum, requestedTopic) : undefined;
+        if (activeCurriculum && curriculumTopic) {
+            setLessonCurriculumTopic({ curriculumId: activeCurriculum.id, topicId: curriculumTopic.id });
+        }
+        const generationId = generationIdRef.current;
+        const isCurrentGeneration = () => generationIdRef.current === generationId;
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
         try {
-            const generatedLesson = await generateLesson(topic, subject);
+            const settings = getGenerationSettings();
+            const difficulty = tierChoice === 'auto'
+                ? recommendDifficulty(userProgress.records, requestedTopic, gradeLevel)
+                : { grade: gradeLevel, tier: tierChoice };
+            const cached = skipCache ? null : await findCachedLesson(requestedTopic, subject, difficulty, settings);
+            if (!isCurrentGeneration()) return;
+            if (cached) {
+                setLesson(cached.lesson);
+                setLibraryTopic(requestedTopic);
+                setSavedLessonId(cached.id);
+                setTutorMessages(cached.tutorChat ?? []);
+                return;
+            }
+            setStreamingSections([]);
+            const generatedLesson = await generateLesson(requestedTopic, subject, difficulty, {
+                signal: controller.signal,
+                onDraft: draft => {
+                    if (!isCurrentGeneration()) return;
+                    setLesson(draft.lesson);
+                    setStreamingSections(draft.completeSections);
+                    // Swap the spinner for the lesson as soon as there is something to read.
+                    if (draft.lesson.introduction) setIsLoading(false);
+                },
+            });
+            if (!isCurrentGeneration()) return;
             setLesson(generatedLesson);
+            setStreamingSections(null);
+            const saved = await saveLesson(requestedTopic, subject, settings, generatedLesson);
+            if (isCurrentGeneration()) setSavedLessonId(saved?.id ?? null);
+            refreshSavedLessons();
         } catch (err: any) {
-            setError(err.message || 'An unexpected error occurred.');
+            if (isCurrentGeneration()) showError(err);
         } finally {
-            setIsLoading(false);
+            if (isCurrentGeneration()) {
+                setIsLoading(false);
+                setStreamingSections(null);
+                abortControllerRef.current = null;
+            }
         }
     };
 
+    const isStreaming = streamingSections !== null;
+
+    const isTabReady = (tab: ActiveTab): boolean => {
+        if (!streamingSections || tab === 'lesson') return true;
+        return streamingSections.includes(tab === 'lab' ? 'lab' : tab === 'quiz' ? 'quiz' : 'practiceProblems');
+    };
+
+    // The lab tab is shown while the lab of a lesson in a subject with labs may still be on its way.
+    const hasLabTab = !!lesson?.lab || (isStreaming && labSimulationsFor(lessonSubject ?? subject).length > 0);
+    const subjectPack = getSubjectPack(subject);
+    const lessonPack = getSubjectPack(lessonSubject ?? subject);
+    const currentLabNotebook = lesson?.lab ? labNotebook ?? createEmptyNotebook(lesson.lab) : undefined;
+
+    const handleOpenSavedLesson = (saved: SavedLesson) => {
+        resetLessonState();
+        setSubject(saved.subject);
+        setLessonSubject(saved.subject);
+        setLesson(saved.lesson);
+        setLibraryTopic(saved.title);
+        setSavedLessonId(saved.id);
+        setTutorMessages(saved.tutorChat ?? []);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const handleDuplicateSavedLesson = async (saved: SavedLesson) => {
+        await duplicateSavedLesson(saved);
+        refreshSavedLessons();
+    };
+
+    const handleDeleteSavedLesson = async (saved: SavedLesson) => {
+        await deleteSavedLesson(saved.id);
+        refreshSavedLessons();
+    };
+
+    // Fills the topic list from a curriculum, starting at the student's next topic.
+    const showCurriculumTopics = (curriculum: Curriculum | undefined) => {
+        setParsedTopics(curriculum ? curriculumTopics(curriculum).map(curriculumTopic => curriculumTopic.title) : []);
+        setTopic(curriculum ? (getNextCurriculumTopic(curriculum) ?? curriculumTopics(curriculum)[0])?.title ?? '' : '');
+    };
+
     const handleTopicSourceChange = (source: TopicSource) => {
         setTopicSource(source);
         setParsedTopics([]);
         setTopic('');
         setError(null);
+        if (source === 'upload') showCurriculumTopics(activeCurriculum);
     };
 
     const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -152,22 +574,47 @@ const App: React.FC = () => {
         if (!file) return;
 
         setIsParsingTopics(true);
+        setSyllabusProgress(null);
         setError(null);
-        setParsedTopics([]);
 
         try {
-            const topics = await extractTopicsFromFile(file);
-            setParsedTopics(topics);
-            if (topics.length > 0) {
-                setTopic(topics[0]);
-            }
+            const curriculum = await extractCurriculum(file, subject, gradeLevel, {
+                onProgress: (read, total) => setSyllabusProgress({ read, total }),
+            });
+            const updated = [...loadCurricula(), curriculum];
+            saveCurricula(updated);
+            setCurricula(updated);
+            setActiveCurriculumId(curriculum.id);
+            showCurriculumTopics(curriculum);
         } catch (err: any) {
-            setError(err.message);
+            showError(err);
         } finally {
             setIsParsingTopics(false);
+            setSyllabusProgress(null);
             event.target.value = '';
         }
     };
+
+    const handleSelectCurriculum = (curriculumId: string) => {
+        setActiveCurriculumId(curriculumId);
+        showCurriculumTopics(curricula.find(curriculum => curriculum.id === curriculumId));
+    };
+
+    const handleDeleteCurriculum = (curriculum: Curriculum) => {
+        if (!window.confirm(`Remove "${curriculum.title}" and your progress through it? Your lesson history is kept.`)) return;
+        const updated = deleteCurriculum(loadCurricula(), curriculum.id);
+        saveCurricula(updated);
+        setCurricula(updated);
+        const nextId = mostRecentCurriculumId(updated);
+        setActiveCurriculumId(nextId);
+        showCurriculumTopics(updated.find(candidate => candidate.id === nextId));
+    };
+
+    const handleStartCurriculumTopic = (curriculumTopic: CurriculumTopic) => {
+        setTopic(curriculumTopic.title);
+        handleGenerateLesson(curriculumTopic.title);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
     
     const handleKhanClick = async () => {
         setIsParsingTopics(true);
@@ -175,23 +622,29 @@ const App: React.FC = () => {
         setParsedTopics([]);
 
         try {
-            const topics = await getKhanAcademyTopics(subject);
+            const topics = await getKhanAcademyTopics(subject, gradeLevel);
             setParsedTopics(topics);
             if (topics.length > 0) {
                 setTopic(topics[0]);
             }
         } catch (err: any) {
-            setError(err.message);
+            showError(err);
         } finally {
             setIsParsingTopics(false);
         }
     };
     
     const handleGenerateMoreExamples = async () => {
-        if (!lesson) return;
+        if (!lesson || !lessonSubject) return;
+        // Examples that arrive after another lesson was opened belong to the old one and are dropped.
+        const generationId = generationIdRef.current;
+        const isSameLesson = () => generationIdRef.current === generationId;
+        const controller = new AbortController();
+        examplesAbortRef.current = controller;
         setIsGeneratingExamples(true);
         try {
-            const newExamples = await generateMoreExamples(lesson.topic, subject, lesson.coreConcept.realWorldExamples);
+            const newExamples = await generateMoreExamples(lesson.topic, lessonSubject, lesson.difficulty ?? DEFAULT_DIFFICULTY, lesson.coreConcept.realWorldExamples, { signal: controller.signal });
+            if (!isSameLesson()) return;
             setLesson(prevLesson => {
                 if (!prevLesson) return null;
                 return {
@@ -203,18 +656,142 @@ const App: React.FC = () => {
                 };
             });
         } catch (err: any) {
-            console.error(err);
+            if (isSameLesson() && !controller.signal.aborted) console.error(err);
         } finally {
-            setIsGeneratingExamples(false);
+            if (isSameLesson()) {
+                setIsGeneratingExamples(false);
+                examplesAbortRef.current = null;
+            }
         }
     };
 
+    const handleReviewGrade = (itemId: string, grade: ReviewGrade) => {
+        setReviewDeck(recordReview(itemId, grade));
+    };
+
+    const generateRemediation = async (record: LessonRecord) => {
+        remediationAbortRef.current?.abort();
+        const controller = new AbortController();
+        remediationAbortRef.current = controller;
+        setIsRemediationLoading(true);
+        setRemediationError(null);
+        try {
+            const remedialLesson = await generateRemedialLesson(
+                record.topic,
+                record.subject,
+                record.difficulty,
+                record.mistakes,
+                { signal: controller.signal }
+            );
+            const { remediations: updated, remediation } = addRemediation(loadRemediations(), record, remedialLesson);
+            saveRemediations(updated);
+            setRemediations(updated);
+            setActiveRemediationId(remediation.id);
+        } catch (err: any) {
+            if (controller.signal.aborted) return;
+            setRemediationError(describeError(err));
+        } finally {
+            if (remediationAbortRef.current === controller) {
+                remediationAbortRef.current = null;
+                setIsRemediationLoading(false);
+            }
+        }
+    };
+
+    // Picks up an unfinished remedial lesson for the record if there is one, rather than
+    // paying for a new one.
+    const handleFixMistakes = (record: LessonRecord) => {
+        setRemediationTarget(record);
+        setRemediationError(null);
+        const unfinished = remediationsForRecord(remediations, record).filter(remediation => !remediation.completedAt).pop();
+        if (unfinished) {
+            setActiveRemediationId(unfinished.id);
+        } else {
+            setActiveRemediationId(null);
+            generateRemediation(record);
+        }
+    };
+
+    const handleRemediationComplete = (result: RemediationResult) => {
+        if (!activeRemediationId) return;
+        const updated = completeRemediation(loadRemediations(), activeRemediationId, result);
+        saveRemediations(updated);
+        setRemediations(updated);
+    };
+
+    const handleCloseRemediation = () => {
+        remediationAbortRef.current?.abort();
+        remediationAbortRef.current = null;
+        setIsRemediationLoading(false);
+        setRemediationTarget(null);
+        setActiveRemediationId(null);
+    };
+
+    const handleAskTutor = async (question: string) => {
+        if (!lesson || !lessonSubject) return;
+        const generationId = generationIdRef.current;
+        const isSameLesson = () => generationIdRef.current === generationId;
+        const controller = new AbortController();
+        tutorAbortRef.current = controller;
+
+        const history = tutorMessages;
+        const withQuestion: TutorMessage[] = [...history, { role: 'student', text: question, createdAt: new Date().toISOString() }];
+        setTutorMessages(withQuestion);
+        setIsTutorSending(true);
+        setTutorPendingReply(null);
+        setTutorError(null);
+
+        const finishedQuiz = quizResult ?? (completedRecord && { score: completedRecord.quizScore, total: completedRecord.quizTotal });
+        const finishedProblems = problemsResult ?? (completedRecord && { score: completedRecord.problemsScore, total: completedRecord.problemsTotal });
+        try {
+            const { reply, offTopic } = await askTutor(lesson, lessonSubject, {
+                isQuizInProgress,
+                quizResult: finishedQuiz ? { score: finishedQuiz.score, total: finishedQuiz.total } : undefined,
+                problemsResult: finishedProblems ? { score: finishedProblems.score, total: finishedProblems.total } : undefined,
+                mistakes: completedRecord?.mistakes ?? [...(quizResult?.mistakes ?? []), ...(problemsResult?.mistakes ?? [])],
+                labNotebook: currentLabNotebook,
+            }, history, question, {
+                signal: controller.signal,
+                onPartialReply: text => {
+                    if (isSameLesson()) setTutorPendingReply(text);
+                },
+            });
+            if (!isSameLesson()) return;
+            const withReply: TutorMessage[] = [...withQuestion, { role: 'tutor', text: reply, createdAt: new Date().toISOString(), offTopic }];
+            setTutorMessages(withReply);
+            if (savedLessonId) saveTutorChat(savedLessonId, withReply);
+        } catch (err: any) {
+            if (isSameLesson() && !controller.signal.aborted) setTutorError(describeError(err));
+        } finally {
+            if (isSameLesson()) {
+                setIsTutorSending(false);
+                setTutorPendingReply(null);
+                tutorAbortRef.current = null;
+            }
+        }
+    };
+
+    const handleClearTutorChat = () => {
+        setTutorMessages([]);
+        setTutorError(null);
+        if (savedLessonId) saveTutorChat(savedLessonId, []);
+    };
+
+    const pinLessonTimer = useCallback(() => {
+        setLessonTimer(current => current ?? getActiveProfile().preferences.timer);
+    }, []);
+
+    const handleQuizStart = useCallback(() => {
+        setIsQuizStarted(true);
+        pinLessonTimer();
+    }, [pinLessonTimer]);
+
     const handleQuizComplete = (score: number, total: number, timeTaken: number, mistakes: Mistake[]) => {
         setQuizResult({ score, total, time: timeTaken, mistakes });
     };
 
-    const handleProblemsComplete = (score: number, total: number, timeTaken: number, mistakes: Mistake[]) => {
-        setProblemsResult({ score, total, time: timeTaken, mistakes });
+    const handleProblemsComplete = (score: number, total: number, timeTaken: number, mistakes: Mistake[], hintsUsed: number) => {
+        setProblemsResult({ score, total, time: timeTaken, mistakes, hintsUsed });
     };
 
     const renderContent = () => {
@@ -225,26 +802,31 @@ const App: React.FC = () => {
                 return (
                     <div className="space-y-8 animate-fade-in">
                         <div>
-                            <h2 className="text-3xl font-bold text-gray-800 dark:text-white mb-4">{lesson.introduction}</h2>
+                            <h2 className="text-3xl font-bold text-gray-800 dark:text-white mb-4"><RichText text={lesson.introduction} inline /></h2>
                         </div>
                         <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
-                            <h3 className="text-2xl font-semibold text-brand-600 dark:text-brand-400 mb-3">{lesson.coreConcept.title}</h3>
-                            <p className="font-sans text-gray-600 dark:text-gray-300 whitespace-pre-wrap leading-relaxed">{lesson.coreConcept.explanation}</p>
+                            <h3 className="text-2xl font-semibold text-brand-600 dark:text-brand-400 mb-3"><RichText text={lesson.coreConcept.title} inline /></h3>
+                            <RichText text={lesson.coreConcept.explanation} className="font-sans text-gray-600 dark:text-gray-300 leading-relaxed" />
+                            {lesson.coreConcept.visuals && lesson.coreConcept.visuals.length > 0 && (
+                                <div className="mt-6 space-y-6">
+                                    {lesson.coreConcept.visuals.map((visual, index) => <Visual key={index} spec={visual} />)}
+                                </div>
+                            )}
                         </div>
                          <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
                             <h3 className="text-2xl font-semibold text-brand-600 dark:text-brand-400 mb-4">Real-World Examples</h3>
                             <div className="space-y-4">
                                 {lesson.coreConcept.realWorldExamples.map((ex, index) => (
                                     <div key={index} className="p-4 border-l-4 border-brand-500 bg-gray-50 dark:bg-gray-900/50 rounded-r-lg">
-                                        <p className="font-semibold text-gray-700 dark:text-gray-200">{ex.example}</p>
-                                        <p className="text-gray-600 dark:text-gray-400 mt-1">{ex.explanation}</p>
+                                        <p className="font-semibold text-gray-700 dark:text-gray-200"><RichText text={ex.example} inline /></p>
+                                        <RichText text={ex.explanation} className="text-gray-600 dark:text-gray-400 mt-1" />
                                     </div>
                                 ))}
                             </div>
                             <div className="mt-6">
                                 <button
                                     onClick={handleGenerateMoreExamples}
-                                    disabled={isGeneratingExamples}
+                                    disabled={isGeneratingExamples || isStreaming}
                                     className="px-5 py-2 text-sm font-semibold text-white bg-brand-500 rounded-md hover:bg-brand-600 disabled:bg-brand-300 disabled:cursor-wait transition-colors"
                                 >
                                     {isGeneratingExamples ? 'Thinking...' : '🤔 I need another example'}
@@ -253,16 +835,73 @@ const App: React.FC = () => {
                         </div>
                     </div>
                 );
+            case 'lab':
+                return lesson.lab && currentLabNotebook
+                    ? <VirtualLab lab={lesson.lab} notebook={currentLabNotebook} onNotebookChange={setLabNotebook} />
+                    : null;
             case 'quiz':
-                return <Quiz quizData={lesson.quiz} onComplete={handleQuizComplete} />;
+                return (
+                    <Quiz
+                        quizData={lesson.quiz}
+                        lab={lesson.lab}
+                        labNotebook={currentLabNotebook}
+                        answerChecking={lessonPack.answerChecking}
+                        timerSettings={lessonTimer ?? activeProfile?.preferences.timer}
+                        onComplete={handleQuizComplete}
+                        onStart={handleQuizStart}
+                    />
+                );
             case 'problems':
-                return <PracticeProblems problemsData={lesson.practiceProblems} onComplete={handleProblemsComplete} />;
+                return (
+                    <PracticeProblems
+                        problemsData={lesson.practiceProblems}
+                        hintsCostPoints={activeProfile?.preferences.hintsCostPoints ?? false}
+                        answerChecking={lessonPack.answerChecking}
+                        timerSettings={lessonTimer ?? activeProfile?.preferences.timer}
+                        onComplete={handleProblemsComplete}
+                        onStart={pinLessonTimer}
+                    />
+                );
             default:
                 return null;
         }
     };
 
-    const isLessonComplete = quizResult && problemsResult;
+    // Topics already completed in the curriculum aren't suggested again as new ones.
+    const candidateTopics = topicSource === 'upload' && activeCurriculum
+        ? curriculumTopics(activeCurriculum).filter(curriculumTopic => !activeCurriculum.completedTopicIds.includes(curriculumTopic.id)).map(curriculumTopic => curriculumTopic.title)
+        : topicSource === 'manual' ? [] : parsedTopics;
+    const recommendations = recommendNextTopics({
+        records: userProgress.records,
+        candidateTopics,
+        candidateSource: topicSource === 'upload' ? 'syllabus' : 'Khan Academy list',
+        subject,
+        excludeTopic: lesson?.topic,
+    });
+
+    const handleStartRecommendation = (recommendedTopic: string) => {
+        setTopic(recommendedTopic);
+        handleGenerateLesson(recommendedTopic);
+        window.scrollTo({ top: 0, behavior: 'smooth' });
+    };
+
+    const handleLoadSuggestionTopics = () => {
+        handleTopicSourceChange('khan');
+        handleKhanClick();
+    };
+
+    const renderSuggestions = (title: string) => (
+        <NextLessonSuggestions
+            title={title}
+            recommendations={recommendations}
+            onStart={handleStartRecommendation}
+            onLoadTopics={parsedTopics.length === 0 ? handleLoadSuggestionTopics : undefined}
+            isLoadingTopics={isParsingTopics}
+            disabled={isLoading}
+        />
+    );
+    const dueReviewCount = getDueItems(reviewDeck).length;
+    const activeProfile = profilesState.profiles.find(p => p.id === profilesState.activeProfileId);
     
     if (!apiKeySet) {
         return <ApiKeySetup onApiKeySet={() => setApiKeySet(true)} />;
@@ -276,9 +915,20 @@ const App: React.FC = () => {
                 <h1 className="text-2xl sm:text-3xl font-bold text-brand-600 dark:text-brand-400">
                     🧑‍🏫 Alge-Bro
                 </h1>
-                <button onClick={() => setIsDashboardOpen(true)} className="px-4 py-2 text-sm font-semibold bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">
-                    Dashboard ({progressStats.lessonsCompleted})
-                </button>
+                <div className="flex gap-2">
+                    <button onClick={() => setIsProfileManagerOpen(true)} className="px-3 py-2 text-sm font-semibold bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors" title="Switch profile">
+                        {activeProfile?.avatar} <span className="hidden sm:inline">{activeProfile?.name}</span>
+                    </button>
+                    <button onClick={() => setIsReviewOpen(true)} className={`px-4 py-2 text-sm font-semibold rounded-md transition-colors ${dueReviewCount > 0 ? 'bg-orange-100 text-orange-800 hover:bg-orange-200 dark:bg-orange-900/50 dark:text-orange-200 dark:hover:bg-orange-900' : 'bg-gray-200 dark:bg-gray-700 hover:bg-gray-300 dark:hover:bg-gray-600'}`}>
+                        Review ({dueReviewCount} due)
+                    </button>
+                    <button onClick={() => setIsDashboardOpen(true)} className="px-4 py-2 text-sm font-semibold bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">
+                        Dashboard ({progressStats.lessonsCompleted})
+                    </button>
+                    <button onClick={() => setIsUsageOpen(true)} className="px-3 py-2 text-sm font-semibold bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors" title="AI usage and budget">
+                        📊 <span className="hidden sm:inline">Usage</span>
+                    </button>
+                </div>
             </div>
         </div>
       </header>
@@ -319,18 +969,23 @@ const App: React.FC = () => {
                                 type="file"
                                 id="syllabus-upload"
                                 onChange={handleFileChange}
-                                accept=".txt,.pdf,.doc,.docx"
+                                accept=".txt,.md,.pdf,.doc,.docx"
                                 className="w-full text-sm text-gray-500 file:mr-4 file:py-2 file:px-4 file:rounded-full file:border-0 file:text-sm file:font-semibold file:bg-brand-50 file:text-brand-700 hover:file:bg-brand-100 dark:file:bg-brand-900/50 dark:file:text-brand-300 dark:hover:file:bg-brand-900"
                                 disabled={isParsingTopics}
                             />
                         )}
                         {topicSource === 'khan' && (
                              <button onClick={handleKhanClick} disabled={isParsingTopics} className="w-full px-3 py-2 border border-transparent text-sm font-medium rounded-md shadow-sm text-white bg-brand-600 hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 disabled:bg-brand-400">
-                                {isParsingTopics ? 'Loading...' : `Load 7th Grade ${subject} Topics`}
+                                {isParsingTopics ? 'Loading...' : `Load ${formatGrade(gradeLevel)} ${subject} Topics`}
                             </button>
                         )}
                         
                         {isParsingTopics && <div className="mt-2"><LoadingSpinner /></div>}
+                        {isParsingTopics && syllabusProgress && syllabusProgress.total > 1 && (
+                            <p className="text-sm text-center text-gray-500 dark:text-gray-400">
+                                Reading part {Math.min(syllabusProgress.read + 1, syllabusProgress.total)} of {syllabusProgress.total}...
+                            </p>
+                        )}
                         
                         {parsedTopics.length > 0 && !isParsingTopics && (
                             <select
@@ -349,35 +1004,135 @@ const App: React.FC = () => {
                             id="subject"
                             value={subject}
                             onChange={(e) => setSubject(e.target.value as Subject)}
+                            title={subjectPack.description}
                             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600"
                         >
-                            <option>Math</option>
-                            <option>Science</option>
+                            {subjectPacks.map(pack => <option key={pack.name} value={pack.name}>{pack.name}</option>)}
+                            {/* e.g. a saved lesson whose custom subject has since been removed */}
+                            {!subjectPacks.some(pack => pack.name === subject) && <option value={subject}>{subject}</option>}
                         </select>
+                        <div className="mt-1 flex gap-3 text-xs">
+                            <button onClick={() => subjectPackInputRef.current?.click()} className="font-semibold text-brand-600 dark:text-brand-400 hover:underline">
+                                + Add subject from file
+                            </button>
+                            {subjectPack.custom && (
+                                <button onClick={handleRemoveSubjectPack} className="font-semibold text-gray-500 hover:text-red-500 hover:underline">
+                                    Remove {subject}
+                                </button>
+                            )}
+                        </div>
+                        <input ref={subjectPackInputRef} type="file" accept=".json,application/json" onChange={handleSubjectPackFile} className="hidden" />
+                    </div>
+                    <div className="sm:col-start-3">
+                        <div className="grid grid-cols-2 gap-2">
+                            <div>
+                                <label htmlFor="grade-level" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Grade</label>
+                                <select
+                                    id="grade-level"
+                                    value={gradeLevel}
+                                    onChange={(e) => handleGradeLevelChange(Number(e.target.value) as GradeLevel)}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600"
+                                >
+                                    {gradesForPack(subjectPack).map(grade => <option key={grade} value={grade}>{grade}</option>)}
+                                </select>
+                            </div>
+                            <div>
+                                <label htmlFor="difficulty-tier" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">Level</label>
+                                <select
+                                    id="difficulty-tier"
+                                    value={tierChoice}
+                                    onChange={(e) => setTierChoice(e.target.value as DifficultyTier | 'auto')}
+                                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600 capitalize"
+                                    title="Auto adjusts to your recent scores on the topic"
+                                >
+                                    <option value="auto">Auto</option>
+                                    {DIFFICULTY_TIERS.map(tier => <option key={tier} value={tier}>{tier}</option>)}
+                                </select>
+                            </div>
+                        </div>
                     </div>
                 </div>
                 <button
-                    onClick={handleGenerateLesson}
+                    onClick={() => handleGenerateLesson()}
                     disabled={isLoading || isParsingTopics}
                     className="mt-4 w-full sm:w-auto inline-flex items-center justify-center px-6 py-2 border border-transparent text-base font-medium rounded-md shadow-sm text-white bg-brand-600 hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 disabled:bg-brand-400 disabled:cursor-not-allowed transition-colors"
                 >
                     {isLoading ? 'Generating...' : 'Create Lesson'}
                 </button>
+                {topicSource === 'upload' && activeCurriculum && !isParsingTopics && (
+                    <CurriculumOutline
+                        curricula={curricula}
+                        curriculum={activeCurriculum}
+                        onSelect={handleSelectCurriculum}
+                        onStartTopic={handleStartCurriculumTopic}
+                        onDelete={handleDeleteCurriculum}
+                        disabled={isLoading}
+                    />
+                )}
             </div>
 
-            {isLoading && <LoadingSpinner />}
-            {error && <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 rounded-md dark:bg-red-900/50 dark:text-red-300" role="alert"><p>{error}</p></div>}
+            {isLoading && (
+                <div className="text-center">
+                    <LoadingSpinner />
+                    {isStreaming && (
+                        <button onClick={resetLessonState} className="-mt-4 text-sm font-semibold text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:underline">
+                            Cancel
+                        </button>
+                    )}
+                </div>
+            )}
+            {error && (
+                <div className="bg-red-100 border-l-4 border-red-500 text-red-700 p-4 rounded-md dark:bg-red-900/50 dark:text-red-300" role="alert">
+                    <p>{error}</p>
+                    {isAuthError && (
+                        <button onClick={() => setApiKeySet(false)} className="mt-2 text-sm font-semibold underline hover:no-underline">
+                            Update API key
+                        </button>
+                    )}
+                    {errorDetails.length > 0 && (
+                        <details className="mt-2 text-sm">
+                            <summary className="cursor-pointer font-medium">What was wrong with the response?</summary>
+                            <ul className="mt-1 list-disc list-inside font-mono text-xs space-y-0.5">
+                                {errorDetails.map((detail, index) => <li key={index}>{detail}</li>)}
+                            </ul>
+                        </details>
+                    )}
+                </div>
+            )}
             
             {lesson && !isLoading && (
                 <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg animate-fade-in">
-                    <h2 className="text-3xl font-bold text-gray-800 dark:text-white border-b pb-4 mb-6">{lesson.topic}</h2>
+                    <div className="border-b pb-4 mb-6">
+                        <h2 className="text-3xl font-bold text-gray-800 dark:text-white">{lesson.topic}</h2>
+                        {lesson.difficulty && (
+                            <p className="mt-1 text-sm font-medium text-gray-500 dark:text-gray-400 capitalize">{formatDifficulty(lesson.difficulty)}</p>
+                        )}
+                    </div>
+                    {isStreaming && (
+                        <div className="flex items-center justify-between gap-2 mb-6 p-3 text-sm bg-brand-50 dark:bg-brand-900/30 text-brand-800 dark:text-brand-200 rounded-md" role="status">
+                            <p className="animate-pulse">✍️ Writing the rest of the lesson...</p>
+                            <button onClick={resetLessonState} className="font-semibold hover:underline">
+                                Cancel
+                            </button>
+                        </div>
+                    )}
+                    {libraryTopic && (
+                        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 mb-6 p-3 text-sm bg-brand-50 dark:bg-brand-900/30 text-brand-800 dark:text-brand-200 rounded-md">
+                            <p>📚 Opened from your lesson library.</p>
+                            <button onClick={() => handleGenerateLesson(libraryTopic, true)} className="font-semibold hover:underline text-left">
+                                Generate a fresh version
+                            </button>
+                        </div>
+                    )}
                     <div className="mb-6">
                         <nav className="flex space-x-2 sm:space-x-4 border-b border-gray-200 dark:border-gray-700">
-                            {['lesson', 'quiz', 'problems'].map((tab) => (
+                            {(hasLabTab ? ['lesson', 'lab', 'quiz', 'problems'] : ['lesson', 'quiz', 'problems']).map((tab) => (
                                 <button
                                     key={tab}
                                     onClick={() => setActiveTab(tab as ActiveTab)}
-                                    className={`px-3 sm:px-4 py-2 font-semibold text-sm sm:text-base capitalize transition-colors border-b-2 ${
+                                    disabled={!isTabReady(tab as ActiveTab)}
+                                    title={isTabReady(tab as ActiveTab) ? undefined : 'Still being written...'}
+                                    className={`px-3 sm:px-4 py-2 font-semibold text-sm sm:text-base capitalize transition-colors border-b-2 disabled:opacity-50 disabled:cursor-not-allowed ${
                                         activeTab === tab 
                                         ? 'border-brand-500 text-brand-600 dark:text-brand-400' 
                                         : 'border-transparent text-gray-500 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300 dark:hover:border-gray-500'
@@ -388,21 +1143,96 @@ const App: React.FC = () => {
                                     {tab === 'problems' && problemsResult && ' ✅'}
                                 </button>
                             ))}
+                            <button
+                                onClick={() => setIsTutorOpen(true)}
+                                disabled={isStreaming}
+                                className="ml-auto px-3 py-2 text-sm font-semibold text-brand-600 dark:text-brand-400 hover:underline disabled:opacity-50 disabled:cursor-not-allowed"
+                            >
+                                💬 <span className="hidden sm:inline">Ask the tutor</span>
+                            </button>
                         </nav>
                     </div>
                     {renderContent()}
-                    {isLessonComplete && (
+                    {completedRecord && (
                         <div className="mt-8 p-4 bg-green-100 dark:bg-green-900/50 border-l-4 border-green-500 rounded-md text-green-800 dark:text-green-200">
                             <h3 className="font-bold text-lg">Lesson Complete!</h3>
                             <p>Great job! Your progress has been saved. You can see your stats in the dashboard.</p>
+                            {completedRecord.mistakes.length > 0 && (
+                                <button
+                                    onClick={() => handleFixMistakes(completedRecord)}
+                                    className="mt-3 px-4 py-2 text-sm font-semibold text-white bg-green-600 rounded-md hover:bg-green-700 transition-colors"
+                                >
+                                    🛠 Fix my mistakes ({completedRecord.mistakes.length})
+                                </button>
+                            )}
                         </div>
                     )}
+                    {completedRecord && <div className="mt-6">{renderSuggestions('What to learn next')}</div>}
                 </div>
             )}
+
+            {!lesson && !isLoading && userProgress.records.length > 0 && (
+                <div className="mb-8">{renderSuggestions('Suggested for you')}</div>
+            )}
+
+            {!isLoading && (
+                <LessonLibrary
+                    lessons={savedLessons}
+                    onOpen={handleOpenSavedLesson}
+                    onDuplicate={handleDuplicateSavedLesson}
+                    onDelete={handleDeleteSavedLesson}
+                />
+            )}
         </div>
       </main>
       
-      {isDashboardOpen && <Dashboard progress={userProgress} stats={progressStats} onClose={() => setIsDashboardOpen(false)} />}
+      {isDashboardOpen && (
+        <Dashboard
+            progress={userProgress}
+            stats={progressStats}
+            remediations={remediations}
+            onProgressImported={handleProgressImported}
+            onFixMistakes={handleFixMistakes}
+            onClose={() => setIsDashboardOpen(false)}
+        />
+      )}
+      {(isProfileLocked || isProfileManagerOpen) && (
+        <ProfileManager
+            state={profilesState}
+            isLocked={isProfileLocked}
+            onProfilesChange={handleProfilesChange}
+            onClose={() => setIsProfileManagerOpen(false)}
+        />
+      )}
+      {isUsageOpen && <UsagePanel onClose={() => setIsUsageOpen(false)} />}
+      {isReviewOpen && <ReviewSession deck={reviewDeck} onGrade={handleReviewGrade} onClose={() => setIsReviewOpen(false)} />}
+      {lesson && isTutorOpen && (
+        <TutorChat
+            topic={lesson.topic}
+            messages={tutorMessages}
+            pendingReply={tutorPendingReply}
+            isSending={isTutorSending}
+            error={tutorError}
+            isQuizInProgress={isQuizInProgress}
+            onSend={handleAskTutor}
+            onClear={handleClearTutorChat}
+            onClose={() => setIsTutorOpen(false)}
+        />
+      )}
+      {remediationTarget && (
+        <RemedialSession
+            record={remediationTarget}
+            remediation={remediations.find(remediation => remediation.id === activeRemediationId) ?? null}
+            isLoading={isRemediationLoading}
+            error={remediationError}
+            hintsCostPoints={activeProfile?.preferences.hintsCostPoints ?? false}
+            answerChecking={getSubjectPack(remediationTarget.subject).answerChecking}
+            timerSettings={activeProfile?.preferences.timer}
+            onGenerate={() => generateRemediation(remediationTarget)}
+            onComplete={handleRemediationComplete}
+            onClose={handleCloseRemediation}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,109 @@
+import React from 'react';
+import type { Curriculum, CurriculumTopic } from '../types';
+import { getCurriculumProgress, getNextCurriculumTopic, getMissingPrerequisites } from '../utils/curriculum';
+import { formatGrade } from '../utils/difficulty';
+
+interface CurriculumOutlineProps {
+    curricula: Curriculum[];
+    curriculum: Curriculum;
+    onSelect: (curriculumId: string) => void;
+    onStartTopic: (topic: CurriculumTopic) => void;
+    onDelete: (curriculum: Curriculum) => void;
+    disabled?: boolean;
+}
+
+// The units and topics of a saved curriculum, with the student's progress through it.
+const CurriculumOutline: React.FC<CurriculumOutlineProps> = ({ curricula, curriculum, onSelect, onStartTopic, onDelete, disabled = false }) => {
+    const progress = getCurriculumProgress(curriculum);
+    const nextTopic = getNextCurriculumTopic(curriculum);
+
+    return (
+        <div className="mt-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-4">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                {curricula.length > 1 ? (
+                    <select
+                        value={curriculum.id}
+                        onChange={(e) => onSelect(e.target.value)}
+                        aria-label="Curriculum"
+                        className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600 font-semibold"
+                    >
+                        {curricula.map(option => <option key={option.id} value={option.id}>{option.title}</option>)}
+                    </select>
+                ) : (
+                    <h3 className="text-lg font-semibold text-gray-800 dark:text-gray-100">{curriculum.title}</h3>
+                )}
+                <button onClick={() => onDelete(curriculum)} className="text-sm text-red-600 dark:text-red-400 hover:underline text-left">
+                    Remove curriculum
+                </button>
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+                {curriculum.subject} · {formatGrade(curriculum.grade)} · from {curriculum.sourceFileName}
+            </p>
+
+            <div>
+                <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                    <div className="h-full bg-green-500" style={{ width: `${progress.percent}%` }} />
+                </div>
+                <p className="mt-1 text-sm text-gray-600 dark:text-gray-300">
+                    {progress.completed} of {progress.total} topics complete ({progress.percent}%)
+                </p>
+            </div>
+
+            {nextTopic ? (
+                <button
+                    onClick={() => onStartTopic(nextTopic)}
+                    disabled={disabled}
+                    className="w-full sm:w-auto px-4 py-2 text-sm font-semibold text-white bg-brand-600 rounded-md hover:bg-brand-700 disabled:bg-brand-400 transition-colors"
+                >
+                    {progress.completed === 0 ? 'Start' : 'Continue'}: {nextTopic.title} →
+                </button>
+            ) : (
+                <p className="text-sm font-semibold text-green-700 dark:text-green-300">🎉 You've completed every topic in this curriculum!</p>
+            )}
+
+            <div className="space-y-4 max-h-96 overflow-y-auto pr-1">
+                {curriculum.units.map(unit => (
+                    <section key={unit.id}>
+                        <h4 className="font-semibold text-gray-700 dark:text-gray-200">{unit.title}</h4>
+                        <ul className="mt-2 space-y-2">
+                            {unit.topics.map(topic => {
+                                const isComplete = curriculum.completedTopicIds.includes(topic.id);
+                                const missing = isComplete ? [] : getMissingPrerequisites(curriculum, topic);
+                                return (
+                                    <li key={topic.id} className="flex items-start gap-3 p-2 rounded-md bg-gray-50 dark:bg-gray-900/50">
+                                        <span className="mt-0.5" aria-label={isComplete ? 'Complete' : 'Not started'}>{isComplete ? '✅' : '⬜'}</span>
+                                        <div className="flex-1 min-w-0">
+                                            <p className="font-medium text-gray-800 dark:text-gray-100">
+                                                {topic.title}
+                                                {topic.week && <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">Week {topic.week}</span>}
+                                            </p>
+                                            {topic.objectives.length > 0 && (
+                                                <ul className="mt-1 text-xs text-gray-600 dark:text-gray-400 list-disc pl-4">
+                                                    {topic.objectives.map((objective, index) => <li key={index}>{objective}</li>)}
+                                                </ul>
+                                            )}
+                                            {missing.length > 0 && (
+                                                <p className="mt-1 text-xs text-orange-600 dark:text-orange-400">
+                                                    Builds on: {missing.map(prerequisite => prerequisite.title).join(', ')}
+                                                </p>
+                                            )}
+                                        </div>
+                                        <button
+                                            onClick={() => onStartTopic(topic)}
+                                            disabled={disabled}
+                                            className="text-sm font-semibold text-brand-600 dark:text-brand-400 hover:underline disabled:opacity-50"
+                                        >
+                                            {isComplete ? 'Redo' : 'Start'}
+                                        </button>
+                                    </li>
+                                );
+                            })}
+                        </ul>
+                    </section>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+export default CurriculumOutline;
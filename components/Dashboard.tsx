@@ -1,12 +1,33 @@
-import React, { useState } from 'react';
-import type { UserProgress, ProgressStats, LessonRecord } from '../types';
+import React, { useRef, useState } from 'react';
+import type { UserProgress, ProgressStats, LessonRecord, RemediationRecord } from '../types';
+import {
+    exportProgressJson, exportProgressCsv, parseProgressImport, importProgress, type ImportMode, type ProgressImport,
+} from '../utils/progressTransfer';
+import { formatDifficulty } from '../utils/difficulty';
+import { describeTiming } from '../utils/timer';
+import { calculateMastery, getWeakSkills, type MasteryStatus, type SkillMastery } from '../utils/mastery';
+import { renderRichText, escapeHtml } from '../utils/richText';
+import { remediationsForRecord } from '../utils/remediation';
+import RichText from './RichText';
 
 interface DashboardProps {
     progress: UserProgress;
     stats: ProgressStats;
+    remediations: RemediationRecord[];
+    onProgressImported: (progress: UserProgress) => void;
+    onFixMistakes: (record: LessonRecord) => void;
     onClose: () => void;
 }
 
+const downloadFile = (contents: string, fileName: string, type: string) => {
+    const url = URL.createObjectURL(new Blob([contents], { type }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
 const StatCard: React.FC<{ label: string; value: string | number; icon: string }> = ({ label, value, icon }) => (
     <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg flex items-center">
         <div className="text-3xl mr-4">{icon}</div>
@@ -17,9 +38,38 @@ const StatCard: React.FC<{ label: string; value: string | number; icon: string }
     </div>
 );
 
-const LessonRecordItem: React.FC<{ record: LessonRecord }> = ({ record }) => {
+const MASTERY_STATUS_STYLES: Record<MasteryStatus, { label: string; badge: string; bar: string }> = {
+    weak: { label: 'Needs work', badge: 'bg-red-100 text-red-700 dark:bg-red-900/50 dark:text-red-300', bar: 'bg-red-500' },
+    learning: { label: 'Learning', badge: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-200', bar: 'bg-yellow-500' },
+    mastered: { label: 'Mastered', badge: 'bg-green-100 text-green-700 dark:bg-green-900/50 dark:text-green-300', bar: 'bg-green-500' },
+};
+
+const SkillMasteryRow: React.FC<{ mastery: SkillMastery }> = ({ mastery }) => {
+    const style = MASTERY_STATUS_STYLES[mastery.status];
+    const percent = Math.round(mastery.probability * 100);
+    return (
+        <div className="p-3 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+            <div className="flex justify-between items-center gap-2 mb-1">
+                <div>
+                    <span className="font-semibold text-gray-800 dark:text-gray-100">{mastery.skill.name}</span>
+                    <span className="ml-2 text-xs text-gray-500 dark:text-gray-400">{mastery.skill.subject}</span>
+                </div>
+                <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${style.badge}`}>{style.label}</span>
+            </div>
+            <div className="h-2 bg-gray-200 dark:bg-gray-600 rounded-full overflow-hidden" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100} aria-label={`${mastery.skill.name} mastery`}>
+                <div className={`h-full ${style.bar}`} style={{ width: `${percent}%` }} />
+            </div>
+            <div className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {percent}% mastery · {mastery.correct}/{mastery.observations} correct · last practised {new Date(mastery.lastPracticed).toLocaleDateString()}
+            </div>
+        </div>
+    );
+};
+
+const LessonRecordItem: React.FC<{ record: LessonRecord; remediations: RemediationRecord[]; onFixMistakes: () => void }> = ({ record, remediations, onFixMistakes }) => {
     const [isMistakesOpen, setIsMistakesOpen] = useState(false);
-    
+    const completedRemediations = remediations.filter(remediation => remediation.completedAt);
+
     const formatTime = (seconds: number) => {
         const minutes = Math.floor(seconds / 60);
         const remainingSeconds = seconds % 60;
@@ -31,7 +81,10 @@ const LessonRecordItem: React.FC<{ record: LessonRecord }> = ({ record }) => {
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center">
                 <div>
                     <p className="font-bold text-gray-800 dark:text-white">{record.topic}</p>
-                    <p className="text-sm text-gray-500 dark:text-gray-400">{new Date(record.date).toLocaleDateString()}</p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                        {new Date(record.date).toLocaleDateString()} · <span className="capitalize">{formatDifficulty(record.difficulty)}</span>
+                        {describeTiming(record) && ` · ${describeTiming(record)}`}
+                    </p>
                 </div>
                 <div className="flex space-x-4 mt-2 sm:mt-0 text-sm text-center">
                     <div>
@@ -51,20 +104,36 @@ const LessonRecordItem: React.FC<{ record: LessonRecord }> = ({ record }) => {
                         <div className="font-semibold">{formatTime(record.problemsTimeTaken)}</div>
                         <div className="text-xs text-gray-500">Time</div>
                     </div>
+                    {record.problemsHintsUsed > 0 && (
+                        <div>
+                            <div className="font-semibold">{record.problemsHintsUsed}</div>
+                            <div className="text-xs text-gray-500">Hints</div>
+                        </div>
+                    )}
                 </div>
             </div>
-            {record.mistakes && record.mistakes.length > 0 && (
+            {record.mistakes.length > 0 && (
                 <div className="mt-2 pt-2 border-t border-gray-200 dark:border-gray-700">
-                    <button onClick={() => setIsMistakesOpen(!isMistakesOpen)} className="text-sm font-medium text-brand-600 dark:text-brand-400 hover:underline">
-                        {isMistakesOpen ? 'Hide' : 'Review'} {record.mistakes.length} Mistake(s)
-                    </button>
+                    <div className="flex flex-wrap items-center gap-x-4 gap-y-1">
+                        <button onClick={() => setIsMistakesOpen(!isMistakesOpen)} className="text-sm font-medium text-brand-600 dark:text-brand-400 hover:underline">
+                            {isMistakesOpen ? 'Hide' : 'Review'} {record.mistakes.length} Mistake(s)
+                        </button>
+                        <button onClick={onFixMistakes} className="text-sm font-medium text-brand-600 dark:text-brand-400 hover:underline">
+                            🛠 Fix my mistakes
+                        </button>
+                        {completedRemediations.length > 0 && (
+                            <span className="text-xs text-gray-500 dark:text-gray-400">
+                                Fixed {completedRemediations.length}× · last score {completedRemediations[completedRemediations.length - 1].problemsScore}/{completedRemediations[completedRemediations.length - 1].problemsTotal}
+                            </span>
+                        )}
+                    </div>
                     {isMistakesOpen && (
                         <div className="mt-2 space-y-2 text-sm">
                             {record.mistakes.map((mistake, index) => (
                                 <div key={index} className="p-2 bg-red-50 dark:bg-red-900/30 rounded-md">
-                                    <p className="font-semibold text-gray-700 dark:text-gray-200">{mistake.questionText}</p>
-                                    <p>Your Answer: <span className="font-mono text-red-700 dark:text-red-300">{mistake.userAnswer}</span></p>
-                                    <p>Correct Answer: <span className="font-mono text-green-700 dark:text-green-300">{mistake.correctAnswer}</span></p>
+                                    <RichText text={mistake.questionText} className="font-semibold text-gray-700 dark:text-gray-200" />
+                                    <p>Your Answer: <RichText text={mistake.userAnswer} inline className="font-mono text-red-700 dark:text-red-300" /></p>
+                                    <p>Correct Answer: <RichText text={mistake.correctAnswer} inline className="font-mono text-green-700 dark:text-green-300" /></p>
                                 </div>
                             ))}
                         </div>
@@ -75,7 +144,34 @@ const LessonRecordItem: React.FC<{ record: LessonRecord }> = ({ record }) => {
     );
 };
 
-const Dashboard: React.FC<DashboardProps> = ({ progress, stats, onClose }) => {
+const Dashboard: React.FC<DashboardProps> = ({ progress, stats, remediations, onProgressImported, onFixMistakes, onClose }) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const [pendingImport, setPendingImport] = useState<ProgressImport | null>(null);
+    const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(null);
+
+    const exportFileName = (extension: string) => `algebro-progress-${new Date().toISOString().slice(0, 10)}.${extension}`;
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        setPendingImport(null);
+        try {
+            setPendingImport(parseProgressImport(await file.text()));
+            setImportMessage(null);
+        } catch (err: any) {
+            setImportMessage({ text: err.message, isError: true });
+        }
+    };
+
+    const handleConfirmImport = (mode: ImportMode) => {
+        if (!pendingImport) return;
+        if (mode === 'replace' && !window.confirm('Replace all of your current progress with this backup?')) return;
+        const updatedProgress = importProgress(pendingImport, mode);
+        onProgressImported(updatedProgress);
+        setPendingImport(null);
+        setImportMessage({ text: `Imported! You now have ${updatedProgress.records.length} lesson(s) on record.`, isError: false });
+    };
 
     const formatTime = (seconds: number) => {
         const minutes = Math.floor(seconds / 60);
@@ -83,6 +179,10 @@ const Dashboard: React.FC<DashboardProps> = ({ progress, stats, onClose }) => {
         return `${minutes}m ${remainingSeconds}s`;
     };
 
+    const mastery = calculateMastery(progress.records);
+    const weakSkills = getWeakSkills(mastery);
+    const masteredCount = mastery.filter(entry => entry.status === 'mastered').length;
+
     const handleGenerateReport = () => {
         const reportHTML = `
             <!DOCTYPE html>
@@ -92,6 +192,7 @@ const Dashboard: React.FC<DashboardProps> = ({ progress, stats, onClose }) => {
                 <meta name="viewport" content="width=device-width, initial-scale=1.0">
                 <title>Alge-Bro Progress Report</title>
                 <script src="https://cdn.tailwindcss.com"></script>
+                <link rel="stylesheet" href="https://cdn.jsdelivr.net/npm/katex@0.16.11/dist/katex.min.css">
                 <style>
                     @media print {
                         body { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
@@ -130,6 +231,25 @@ const Dashboard: React.FC<DashboardProps> = ({ progress, stats, onClose }) => {
                         </div>
                     </div>
 
+                    ${mastery.length > 0 ? `
+                        <div class="bg-white p-6 rounded-xl shadow mb-8">
+                            <h2 class="text-2xl font-semibold text-gray-800 mb-4">Mastery by Skill</h2>
+                            <div class="space-y-3">
+                                ${mastery.map(entry => `
+                                    <div>
+                                        <div class="flex justify-between text-sm">
+                                            <span class="font-semibold text-gray-800">${escapeHtml(entry.skill.name)}</span>
+                                            <span class="text-gray-600">${Math.round(entry.probability * 100)}% · ${MASTERY_STATUS_STYLES[entry.status].label}</span>
+                                        </div>
+                                        <div class="h-2 bg-gray-200 rounded-full overflow-hidden mt-1">
+                                            <div class="h-full ${MASTERY_STATUS_STYLES[entry.status].bar}" style="width: ${Math.round(entry.probability * 100)}%"></div>
+                                        </div>
+                                    </div>
+                                `).join('')}
+                            </div>
+                        </div>
+                    ` : ''}
+
                     <div class="bg-white p-6 rounded-xl shadow">
                         <h2 class="text-2xl font-semibold text-gray-800 mb-4">Recent Activity</h2>
                         <div class="space-y-4">
@@ -137,8 +257,8 @@ const Dashboard: React.FC<DashboardProps> = ({ progress, stats, onClose }) => {
                                 <div class="p-4 border rounded-lg bg-gray-50">
                                     <div class="flex flex-col sm:flex-row justify-between items-start sm:items-center">
                                         <div>
-                                            <p class="font-bold text-lg text-gray-800">${record.topic}</p>
-                                            <p class="text-sm text-gray-500">${new Date(record.date).toLocaleDateString()}</p>
+                                            <p class="font-bold text-lg text-gray-800">${escapeHtml(record.topic)}</p>
+                                            <p class="text-sm text-gray-500">${new Date(record.date).toLocaleDateString()} · <span class="capitalize">${formatDifficulty(record.difficulty)}</span>${describeTiming(record) ? ` · ${describeTiming(record)}` : ''}</p>
                                         </div>
                                         <div class="flex space-x-4 mt-2 sm:mt-0 text-sm text-center w-full sm:w-auto justify-around">
                                             <div><div class="font-semibold">${record.quizScore}/${record.quizTotal}</div><div class="text-xs text-gray-500">Quiz</div></div>
@@ -148,15 +268,15 @@ const Dashboard: React.FC<DashboardProps> = ({ progress, stats, onClose }) => {
                                             <div><div class="font-semibold">${formatTime(record.problemsTimeTaken)}</div><div class="text-xs text-gray-500">Time</div></div>
                                         </div>
                                     </div>
-                                    ${record.mistakes && record.mistakes.length > 0 ? `
+                                    ${record.mistakes.length > 0 ? `
                                         <div class="mt-3 pt-3 border-t border-gray-200">
                                             <h4 class="font-semibold text-sm text-gray-600 mb-2">Mistakes to Review:</h4>
                                             <div class="space-y-2 text-sm">
                                                 ${record.mistakes.map(mistake => `
                                                     <div class="p-2 bg-red-50 rounded-md">
-                                                        <p class="font-semibold text-gray-700">${mistake.questionText}</p>
-                                                        <p>Your Answer: <code class="text-red-700 bg-red-100 p-1 rounded text-xs">${mistake.userAnswer}</code></p>
-                                                        <p>Correct Answer: <code class="text-green-700 bg-green-100 p-1 rounded text-xs">${mistake.correctAnswer}</code></p>
+                                                        <div class="font-semibold text-gray-700">${renderRichText(mistake.questionText)}</div>
+                                                        <p>Your Answer: <code class="text-red-700 bg-red-100 p-1 rounded text-xs">${renderRichText(mistake.userAnswer, { inline: true })}</code></p>
+                                                        <p>Correct Answer: <code class="text-green-700 bg-green-100 p-1 rounded text-xs">${renderRichText(mistake.correctAnswer, { inline: true })}</code></p>
                                                     </div>
                                                 `).join('')}
                                             </div>
@@ -199,14 +319,33 @@ const Dashboard: React.FC<DashboardProps> = ({ progress, stats, onClose }) => {
                         <StatCard label="Winning Streak" value={`${stats.currentStreak} days`} icon="🔥" />
                         <StatCard label="Longest Streak" value={`${stats.longestStreak} days`} icon="🏆" />
                         <StatCard label="Lessons Done" value={stats.lessonsCompleted} icon="📚" />
-                        <StatCard label="Average Score" value={`${stats.averageScore}%`} icon="🎯" />
+                        <StatCard label="Skills Mastered" value={`${masteredCount}/${mastery.length}`} icon="🎯" />
                     </div>
 
+                    {mastery.length > 0 && (
+                        <section className="mb-8">
+                            <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-200 mb-4">Mastery by Skill</h3>
+                            {weakSkills.length > 0 && (
+                                <div className="mb-4 p-3 bg-red-50 dark:bg-red-900/30 border-l-4 border-red-500 rounded-md text-sm text-red-800 dark:text-red-200">
+                                    <span className="font-semibold">⚠️ Skills to work on:</span> {weakSkills.map(entry => entry.skill.name).join(', ')}
+                                </div>
+                            )}
+                            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                                {mastery.map(entry => <SkillMasteryRow key={entry.skill.id} mastery={entry} />)}
+                            </div>
+                        </section>
+                    )}
+
                     <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-200 mb-4">Recent Activity</h3>
                     {progress.records.length > 0 ? (
                         <div className="space-y-3">
                             {progress.records.slice().reverse().map((record, index) => (
-                               <LessonRecordItem key={index} record={record} />
+                               <LessonRecordItem
+                                   key={index}
+                                   record={record}
+                                   remediations={remediationsForRecord(remediations, record)}
+                                   onFixMistakes={() => onFixMistakes(record)}
+                               />
                             ))}
                         </div>
                     ) : (
@@ -216,13 +355,48 @@ const Dashboard: React.FC<DashboardProps> = ({ progress, stats, onClose }) => {
                     )}
                 </main>
 
-                <footer className="p-4 border-t border-gray-200 dark:border-gray-700 mt-auto">
-                     <button
-                        onClick={handleGenerateReport}
-                        className="w-full sm:w-auto px-6 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors"
-                    >
-                        Generate Sharable Report
-                    </button>
+                <footer className="p-4 border-t border-gray-200 dark:border-gray-700 mt-auto space-y-3">
+                    {pendingImport && (
+                        <div className="p-3 bg-brand-50 dark:bg-brand-900/30 rounded-lg text-sm flex flex-col sm:flex-row sm:items-center gap-2">
+                            <p className="flex-1 text-gray-700 dark:text-gray-200">
+                                Found {pendingImport.records.length} lesson(s) in this backup
+                                {pendingImport.skipped > 0 && ` (${pendingImport.skipped} couldn't be read and will be skipped)`}.
+                            </p>
+                            <button onClick={() => handleConfirmImport('merge')} className="px-3 py-1 font-semibold text-white bg-brand-600 rounded-md hover:bg-brand-700">Merge</button>
+                            <button onClick={() => handleConfirmImport('replace')} className="px-3 py-1 font-semibold text-white bg-red-600 rounded-md hover:bg-red-700">Replace</button>
+                            <button onClick={() => setPendingImport(null)} className="px-3 py-1 font-medium bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">Cancel</button>
+                        </div>
+                    )}
+                    {importMessage && (
+                        <p className={`text-sm ${importMessage.isError ? 'text-red-500' : 'text-green-600 dark:text-green-400'}`}>{importMessage.text}</p>
+                    )}
+                    <div className="flex flex-col sm:flex-row flex-wrap gap-2">
+                        <button
+                            onClick={handleGenerateReport}
+                            className="w-full sm:w-auto px-6 py-2 bg-green-600 text-white font-semibold rounded-lg hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 transition-colors"
+                        >
+                            Generate Sharable Report
+                        </button>
+                        <button
+                            onClick={() => downloadFile(exportProgressJson(progress), exportFileName('json'), 'application/json')}
+                            className="px-4 py-2 text-sm font-semibold bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                        >
+                            Back Up (JSON)
+                        </button>
+                        <button
+                            onClick={() => downloadFile(exportProgressCsv(progress), exportFileName('csv'), 'text/csv')}
+                            className="px-4 py-2 text-sm font-semibold bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                        >
+                            Export CSV
+                        </button>
+                        <button
+                            onClick={() => fileInputRef.current?.click()}
+                            className="px-4 py-2 text-sm font-semibold bg-gray-200 dark:bg-gray-700 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+                        >
+                            Import Backup
+                        </button>
+                        <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleImportFile} className="hidden" />
+                    </div>
                 </footer>
             </div>
         </div>
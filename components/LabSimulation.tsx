@@ -0,0 +1,443 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { CircuitLabSettings, DensityLabSettings, FoodWebLabSettings, FoodWebRole, LabSettings, PhasesLabSettings, ProjectileLabSettings } from '../types';
+import {
+    analyzeCircuit, buildHeatingCurve, describeBuoyancy, simulateFoodWebChange, simulateProjectile, stateAtHeat,
+    type PhaseState, type PopulationChange,
+} from '../utils/labs';
+import { formatNumber } from '../utils/visuals';
+
+// The simulations behind the virtual lab, drawn as SVG. Each one reports what it currently
+// shows as a one-line reading, which the lab saves to the notebook when the student records it.
+
+interface LabSimulationProps {
+    settings: LabSettings;
+    onReadingChange: (reading: string) => void;
+}
+
+const LABEL_CLASS = 'fill-gray-700 dark:fill-gray-200';
+const MUTED_LABEL_CLASS = 'fill-gray-500 dark:fill-gray-400';
+const READOUT_CLASS = 'grid grid-cols-2 sm:grid-cols-3 gap-2 text-sm';
+
+const Slider: React.FC<{ label: string; value: number; min: number; max: number; step: number; onChange: (value: number) => void }> = ({ label, value, min, max, step, onChange }) => (
+    <label className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+        <span className="w-40">{label}</span>
+        <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={value}
+            onChange={(e) => onChange(Number(e.target.value))}
+            className="flex-1 accent-brand-600"
+        />
+    </label>
+);
+
+const Readout: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="p-2 rounded-md bg-gray-50 dark:bg-gray-900/50">
+        <p className="text-xs text-gray-500 dark:text-gray-400">{label}</p>
+        <p className="font-mono font-semibold text-gray-800 dark:text-gray-100">{value}</p>
+    </div>
+);
+
+// Reports the reading whenever it changes.
+const useReading = (reading: string, onReadingChange: (reading: string) => void) => {
+    useEffect(() => onReadingChange(reading), [reading, onReadingChange]);
+};
+
+// --- Projectile motion ---
+const PROJECTILE_WIDTH = 400;
+const PROJECTILE_HEIGHT = 220;
+const PROJECTILE_PADDING = 24;
+
+const ProjectileLab: React.FC<{ settings: ProjectileLabSettings; onReadingChange: (reading: string) => void }> = ({ settings, onReadingChange }) => {
+    const [speed, setSpeed] = useState(settings.speed);
+    const [angle, setAngle] = useState(settings.angle);
+    const maxSpeed = Math.min(100, Math.max(10, Math.ceil(settings.speed * 2)));
+    const result = simulateProjectile(speed, angle, settings.gravity, settings.launchHeight);
+    // One scale for both axes, wide enough for the longest throw at the fastest speed.
+    const worldWidth = simulateProjectile(maxSpeed, 45, settings.gravity, settings.launchHeight).range * 1.05 || 1;
+    const scale = (PROJECTILE_WIDTH - 2 * PROJECTILE_PADDING) / worldWidth;
+    const groundY = PROJECTILE_HEIGHT - PROJECTILE_PADDING;
+    const toScreen = (x: number, y: number) => ({ x: PROJECTILE_PADDING + x * scale, y: groundY - y * scale });
+    const path = result.path.map((point, index) => {
+        const screen = toScreen(point.x, point.y);
+        return `${index === 0 ? 'M' : 'L'}${screen.x.toFixed(1)},${screen.y.toFixed(1)}`;
+    }).join('');
+    const landing = toScreen(result.range, 0);
+    const launch = toScreen(0, settings.launchHeight);
+
+    useReading(
+        `Launched at ${formatNumber(speed)} m/s and ${formatNumber(angle)}°: range ${formatNumber(result.range)} m, flight time ${formatNumber(result.flightTime)} s, highest point ${formatNumber(result.maxHeight)} m`,
+        onReadingChange
+    );
+
+    return (
+        <div className="space-y-4">
+            <svg viewBox={`0 0 ${PROJECTILE_WIDTH} ${PROJECTILE_HEIGHT}`} className="w-full max-w-lg mx-auto" role="img" aria-label={`A ball launched at ${speed} m/s and ${angle} degrees lands ${formatNumber(result.range)} m away`}>
+                <line x1={0} x2={PROJECTILE_WIDTH} y1={groundY} y2={groundY} className="stroke-green-600" strokeWidth={3} />
+                {settings.launchHeight > 0 && (
+                    <rect x={PROJECTILE_PADDING - 10} y={launch.y} width={10} height={groundY - launch.y} className="fill-gray-300 dark:fill-gray-600" />
+                )}
+                <path d={path} fill="none" className="stroke-brand-600 dark:stroke-brand-400" strokeWidth={2} strokeDasharray="4 3" />
+                <circle cx={launch.x} cy={launch.y} r={4} className="fill-gray-500" />
+                <circle cx={landing.x} cy={landing.y - 5} r={5} className="fill-red-500" />
+                <text x={Math.min(landing.x, PROJECTILE_WIDTH - 40)} y={groundY + 16} fontSize={11} textAnchor="middle" className={LABEL_CLASS}>{formatNumber(result.range)} m</text>
+                <text x={PROJECTILE_WIDTH - 4} y={14} fontSize={10} textAnchor="end" className={MUTED_LABEL_CLASS}>g = {settings.gravity} m/s²</text>
+            </svg>
+            <div className="space-y-2 max-w-md mx-auto">
+                <Slider label={`Speed: ${formatNumber(speed)} m/s`} value={speed} min={1} max={maxSpeed} step={1} onChange={setSpeed} />
+                <Slider label={`Angle: ${formatNumber(angle)}°`} value={angle} min={0} max={90} step={5} onChange={setAngle} />
+            </div>
+            <div className={READOUT_CLASS}>
+                <Readout label="Range" value={`${formatNumber(result.range)} m`} />
+                <Readout label="Flight time" value={`${formatNumber(result.flightTime)} s`} />
+                <Readout label="Highest point" value={`${formatNumber(result.maxHeight)} m`} />
+            </div>
+        </div>
+    );
+};
+
+// --- Density and buoyancy ---
+const TANK_WIDTH = 240;
+const TANK_HEIGHT = 200;
+const SURFACE_Y = 50;
+const BLOCK_SIZE = 50;
+
+const DensityLab: React.FC<{ settings: DensityLabSettings; onReadingChange: (reading: string) => void }> = ({ settings, onReadingChange }) => {
+    const [objectIndex, setObjectIndex] = useState(0);
+    const [liquidIndex, setLiquidIndex] = useState(0);
+    const object = settings.objects[objectIndex];
+    const liquid = settings.liquids[liquidIndex];
+    const objectDensity = object.mass / object.volume;
+    const { outcome, submergedFraction } = describeBuoyancy(objectDensity, liquid.density);
+    const blockX = (TANK_WIDTH - BLOCK_SIZE) / 2;
+    const blockY = outcome === 'sinks'
+        ? TANK_HEIGHT - BLOCK_SIZE - 4
+        : outcome === 'suspended'
+            ? (SURFACE_Y + TANK_HEIGHT - BLOCK_SIZE) / 2
+            : SURFACE_Y - BLOCK_SIZE * (1 - submergedFraction);
+    const underSurface = outcome === 'floats' ? ` with ${Math.round(submergedFraction * 100)}% under the surface` : '';
+
+    useReading(
+        `${object.name} (${formatNumber(objectDensity)} g/cm³) in ${liquid.name} (${formatNumber(liquid.density)} g/cm³): ${outcome}${underSurface}`,
+        onReadingChange
+    );
+
+    const selectClass = 'px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600';
+    return (
+        <div className="space-y-4">
+            <div className="flex flex-col sm:flex-row gap-3 justify-center">
+                <label className="flex flex-col text-sm text-gray-700 dark:text-gray-300">
+                    Object
+                    <select value={objectIndex} onChange={(e) => setObjectIndex(Number(e.target.value))} className={selectClass}>
+                        {settings.objects.map((item, index) => <option key={item.name} value={index}>{item.name}</option>)}
+                    </select>
+                </label>
+                <label className="flex flex-col text-sm text-gray-700 dark:text-gray-300">
+                    Liquid
+                    <select value={liquidIndex} onChange={(e) => setLiquidIndex(Number(e.target.value))} className={selectClass}>
+                        {settings.liquids.map((item, index) => <option key={item.name} value={index}>{item.name}</option>)}
+                    </select>
+                </label>
+            </div>
+            <svg viewBox={`0 0 ${TANK_WIDTH} ${TANK_HEIGHT}`} className="w-full max-w-xs mx-auto" role="img" aria-label={`${object.name} ${outcome} in ${liquid.name}`}>
+                <rect x={0} y={SURFACE_Y} width={TANK_WIDTH} height={TANK_HEIGHT - SURFACE_Y} className="fill-sky-200 dark:fill-sky-900" />
+                <rect x={blockX} y={blockY} width={BLOCK_SIZE} height={BLOCK_SIZE} rx={4} className="fill-amber-600 stroke-amber-800" strokeWidth={2} />
+                <line x1={0} x2={TANK_WIDTH} y1={SURFACE_Y} y2={SURFACE_Y} className="stroke-sky-500" strokeWidth={2} />
+                <path d={`M1,0 V${TANK_HEIGHT - 1} H${TANK_WIDTH - 1} V0`} fill="none" className="stroke-gray-500 dark:stroke-gray-400" strokeWidth={2} />
+            </svg>
+            <div className={READOUT_CLASS}>
+                <Readout label={`${object.name} density`} value={`${formatNumber(object.mass)} g ÷ ${formatNumber(object.volume)} cm³ = ${formatNumber(objectDensity)} g/cm³`} />
+                <Readout label={`${liquid.name} density`} value={`${formatNumber(liquid.density)} g/cm³`} />
+                <Readout label="Result" value={outcome} />
+            </div>
+        </div>
+    );
+};
+
+// --- Circuits ---
+const CIRCUIT_WIDTH = 400;
+const CIRCUIT_HEIGHT = 220;
+const CIRCUIT_LEFT = 40;
+const CIRCUIT_RIGHT = 360;
+const CIRCUIT_TOP = 40;
+const CIRCUIT_BOTTOM = 180;
+
+const Bulb: React.FC<{ x: number; y: number; brightness: number; label: string }> = ({ x, y, brightness, label }) => (
+    <g>
+        <circle cx={x} cy={y} r={22} fill="#facc15" opacity={brightness} />
+        <circle cx={x} cy={y} r={12} className="fill-white dark:fill-gray-800 stroke-gray-600 dark:stroke-gray-300" strokeWidth={2} />
+        <circle cx={x} cy={y} r={12} fill="#fde047" opacity={brightness} />
+        <path d={`M${x - 6},${y + 6} L${x + 6},${y - 6} M${x - 6},${y - 6} L${x + 6},${y + 6}`} className="stroke-gray-600 dark:stroke-gray-300" strokeWidth={1.5} />
+        <text x={x} y={y + 28} fontSize={10} textAnchor="middle" className={MUTED_LABEL_CLASS}>{label}</text>
+    </g>
+);
+
+const CircuitLab: React.FC<{ settings: CircuitLabSettings; onReadingChange: (reading: string) => void }> = ({ settings, onReadingChange }) => {
+    const [voltage, setVoltage] = useState(settings.voltage);
+    const [arrangement, setArrangement] = useState(settings.arrangement);
+    const [isClosed, setIsClosed] = useState(false);
+    const maxVoltage = Math.max(12, Math.ceil(settings.voltage * 2));
+    const result = analyzeCircuit({ voltage, resistors: settings.resistors, arrangement }, isClosed);
+    // A bulb is fully bright at the power the smallest bulb would draw on its own from the strongest battery.
+    const fullPower = (maxVoltage * maxVoltage) / Math.min(...settings.resistors);
+    const brightness = (power: number) => Math.min(1, Math.sqrt(power / fullPower));
+    const count = settings.resistors.length;
+    const bulbX = (index: number) => CIRCUIT_LEFT + ((CIRCUIT_RIGHT - CIRCUIT_LEFT) * (index + 1)) / (count + 1);
+    const wireClass = 'stroke-gray-600 dark:stroke-gray-300';
+    const middleY = (CIRCUIT_TOP + CIRCUIT_BOTTOM) / 2;
+
+    const bulbsReading = result.bulbs.map((bulb, index) =>
+        `bulb ${index + 1} (${formatNumber(bulb.resistance)} Ω) ${formatNumber(bulb.voltage)} V, ${formatNumber(bulb.current)} A`).join('; ');
+    useReading(
+        isClosed
+            ? `${formatNumber(voltage)} V, bulbs in ${arrangement}: ${formatNumber(result.current)} A from the battery, total resistance ${formatNumber(result.totalResistance)} Ω; ${bulbsReading}`
+            : `${formatNumber(voltage)} V, bulbs in ${arrangement}, switch open: no current flows`,
+        onReadingChange
+    );
+
+    return (
+        <div className="space-y-4">
+            <svg viewBox={`0 0 ${CIRCUIT_WIDTH} ${CIRCUIT_HEIGHT}`} className="w-full max-w-lg mx-auto" role="img" aria-label={`${count} bulbs in ${arrangement} on a ${voltage} volt battery, switch ${isClosed ? 'closed' : 'open'}`}>
+                {/* Battery on the left wire, switch on the bottom wire. */}
+                <path d={`M${CIRCUIT_LEFT},${middleY - 10} V${CIRCUIT_TOP} H${CIRCUIT_RIGHT} V${CIRCUIT_BOTTOM} H${CIRCUIT_WIDTH / 2 + 20}`} fill="none" className={wireClass} strokeWidth={2} />
+                <path d={`M${CIRCUIT_WIDTH / 2 - 20},${CIRCUIT_BOTTOM} H${CIRCUIT_LEFT} V${middleY + 10}`} fill="none" className={wireClass} strokeWidth={2} />
+                <line x1={CIRCUIT_LEFT - 14} x2={CIRCUIT_LEFT + 14} y1={middleY - 10} y2={middleY - 10} className={wireClass} strokeWidth={2} />
+                <line x1={CIRCUIT_LEFT - 7} x2={CIRCUIT_LEFT + 7} y1={middleY + 10} y2={middleY + 10} className={wireClass} strokeWidth={4} />
+                <text x={CIRCUIT_LEFT - 18} y={middleY + 4} fontSize={11} textAnchor="end" className={LABEL_CLASS}>{formatNumber(voltage)} V</text>
+                <circle cx={CIRCUIT_WIDTH / 2 - 20} cy={CIRCUIT_BOTTOM} r={3} className="fill-gray-600 dark:fill-gray-300" />
+                <line
+                    x1={CIRCUIT_WIDTH / 2 - 20}
+                    y1={CIRCUIT_BOTTOM}
+                    x2={CIRCUIT_WIDTH / 2 + 20}
+                    y2={isClosed ? CIRCUIT_BOTTOM : CIRCUIT_BOTTOM - 18}
+                    className={wireClass}
+                    strokeWidth={2}
+                />
+                {arrangement === 'series'
+                    ? settings.resistors.map((resistance, index) => (
+                        <Bulb key={index} x={bulbX(index)} y={CIRCUIT_TOP} brightness={brightness(result.bulbs[index].power)} label={`${formatNumber(resistance)} Ω`} />
+                    ))
+                    : settings.resistors.map((resistance, index) => (
+                        <g key={index}>
+                            <line x1={bulbX(index)} x2={bulbX(index)} y1={CIRCUIT_TOP} y2={CIRCUIT_BOTTOM} className={wireClass} strokeWidth={2} />
+                            <Bulb x={bulbX(index)} y={middleY - 10} brightness={brightness(result.bulbs[index].power)} label={`${formatNumber(resistance)} Ω`} />
+                        </g>
+                    ))}
+            </svg>
+            <div className="flex flex-wrap gap-3 justify-center">
+                <button
+                    onClick={() => setIsClosed(closed => !closed)}
+                    className="px-4 py-2 text-sm font-semibold text-white bg-brand-600 rounded-md hover:bg-brand-700 transition-colors"
+                >
+                    {isClosed ? 'Open the switch' : 'Close the switch'}
+                </button>
+                <button
+                    onClick={() => setArrangement(current => (current === 'series' ? 'parallel' : 'series'))}
+                    disabled={count < 2}
+                    className="px-4 py-2 text-sm font-semibold text-brand-700 dark:text-brand-300 bg-brand-100 dark:bg-brand-900/50 rounded-md hover:bg-brand-200 dark:hover:bg-brand-900 disabled:opacity-50 transition-colors"
+                >
+                    Switch to {arrangement === 'series' ? 'parallel' : 'series'}
+                </button>
+            </div>
+            <div className="max-w-md mx-auto">
+                <Slider label={`Battery: ${formatNumber(voltage)} V`} value={voltage} min={0} max={maxVoltage} step={0.5} onChange={setVoltage} />
+            </div>
+            <div className={READOUT_CLASS}>
+                <Readout label="Current from battery" value={`${formatNumber(result.current)} A`} />
+                <Readout label="Total resistance" value={`${formatNumber(result.totalResistance)} Ω`} />
+                {result.bulbs.map((bulb, index) => (
+                    <Readout key={index} label={`Bulb ${index + 1} (${formatNumber(bulb.resistance)} Ω)`} value={`${formatNumber(bulb.voltage)} V, ${formatNumber(bulb.current)} A`} />
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// --- Food webs ---
+const WEB_WIDTH = 400;
+const WEB_HEIGHT = 280;
+const NODE_RADIUS = 26;
+
+// Row from the bottom: producers at the base, each consumer level above, decomposers alongside producers.
+const ROLE_ROWS: Record<FoodWebRole, number> = { producer: 0, decomposer: 0, 'primary-consumer': 1, 'secondary-consumer': 2, 'tertiary-consumer': 3 };
+
+const CHANGE_STYLES: Record<PopulationChange, { symbol: string; className: string }> = {
+    up: { symbol: '▲', className: 'fill-green-100 stroke-green-600 dark:fill-green-900' },
+    down: { symbol: '▼', className: 'fill-red-100 stroke-red-600 dark:fill-red-900' },
+    gone: { symbol: '✕', className: 'fill-gray-200 stroke-gray-400 dark:fill-gray-700' },
+    same: { symbol: '', className: 'fill-white stroke-brand-600 dark:fill-gray-800 dark:stroke-brand-400' },
+};
+
+const FoodWebLab: React.FC<{ settings: FoodWebLabSettings; onReadingChange: (reading: string) => void }> = ({ settings, onReadingChange }) => {
+    const [selected, setSelected] = useState(settings.organisms[0].name);
+    const [change, setChange] = useState<{ organism: string; kind: 'remove' | 'increase' | 'decrease' } | null>(null);
+    const outcome = useMemo(
+        () => (change ? simulateFoodWebChange(settings, change.organism, change.kind) : null),
+        [settings, change]
+    );
+
+    const positions = useMemo(() => {
+        const rows = new Map<number, string[]>();
+        settings.organisms.forEach(organism => {
+            const row = ROLE_ROWS[organism.role];
+            rows.set(row, [...(rows.get(row) ?? []), organism.name]);
+        });
+        const rowCount = Math.max(...rows.keys()) + 1;
+        const placed = new Map<string, { x: number; y: number }>();
+        rows.forEach((names, row) => names.forEach((name, index) => placed.set(name, {
+            x: (WEB_WIDTH * (index + 1)) / (names.length + 1),
+            y: WEB_HEIGHT - NODE_RADIUS - 10 - (row * (WEB_HEIGHT - 2 * NODE_RADIUS - 20)) / Math.max(1, rowCount - 1),
+        })));
+        return placed;
+    }, [settings.organisms]);
+
+    const changeVerb = { remove: 'Removed', increase: 'Increased', decrease: 'Decreased' };
+    const reading = change && outcome
+        ? `${changeVerb[change.kind]} ${change.organism}: ${settings.organisms.filter(organism => organism.name !== change.organism).map(organism => `${organism.name} ${outcome[organism.name] === 'same' ? 'no change' : outcome[organism.name]}`).join(', ')}`
+        : `Food web: ${settings.links.map(link => `${link.prey} → ${link.predator}`).join(', ')}`;
+    useReading(reading, onReadingChange);
+
+    return (
+        <div className="space-y-4">
+            <svg viewBox={`0 0 ${WEB_WIDTH} ${WEB_HEIGHT}`} className="w-full max-w-lg mx-auto" role="img" aria-label={reading}>
+                <defs>
+                    <marker id="food-web-arrow" viewBox="0 0 10 10" refX={9} refY={5} markerWidth={6} markerHeight={6} orient="auto-start-reverse">
+                        <path d="M0,0 L10,5 L0,10 z" className="fill-gray-500 dark:fill-gray-400" />
+                    </marker>
+                </defs>
+                {settings.links.map((link, index) => {
+                    const from = positions.get(link.prey);
+                    const to = positions.get(link.predator);
+                    if (!from || !to) return null;
+                    const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+                    const dx = ((to.x - from.x) / length) * (NODE_RADIUS + 2);
+                    const dy = ((to.y - from.y) / length) * (NODE_RADIUS + 2);
+                    return (
+                        <line
+                            key={index}
+                            x1={from.x + dx}
+                            y1={from.y + dy}
+                            x2={to.x - dx}
+                            y2={to.y - dy}
+                            className="stroke-gray-500 dark:stroke-gray-400"
+                            strokeWidth={1.5}
+                            markerEnd="url(#food-web-arrow)"
+                        />
+                    );
+                })}
+                {settings.organisms.map(organism => {
+                    const position = positions.get(organism.name)!;
+                    const style = CHANGE_STYLES[outcome?.[organism.name] ?? 'same'];
+                    return (
+                        <g key={organism.name} onClick={() => setSelected(organism.name)} className="cursor-pointer">
+                            <circle cx={position.x} cy={position.y} r={NODE_RADIUS} className={style.className} strokeWidth={organism.name === selected ? 4 : 2} />
+                            <text x={position.x} y={position.y + (style.symbol ? -2 : 4)} fontSize={10} textAnchor="middle" className={LABEL_CLASS}>{organism.name}</text>
+                            {style.symbol && <text x={position.x} y={position.y + 13} fontSize={11} textAnchor="middle" className={LABEL_CLASS}>{style.symbol}</text>}
+                        </g>
+                    );
+                })}
+            </svg>
+            <p className="text-center text-xs text-gray-500 dark:text-gray-400">Arrows point from food to the animal that eats it.</p>
+            <div className="flex flex-wrap gap-2 justify-center items-center">
+                <select
+                    value={selected}
+                    onChange={(e) => setSelected(e.target.value)}
+                    aria-label="Organism"
+                    className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600"
+                >
+                    {settings.organisms.map(organism => <option key={organism.name} value={organism.name}>{organism.name}</option>)}
+                </select>
+                {(['remove', 'increase', 'decrease'] as const).map(kind => (
+                    <button
+                        key={kind}
+                        onClick={() => setChange({ organism: selected, kind })}
+                        className="px-3 py-2 text-sm font-semibold capitalize text-white bg-brand-600 rounded-md hover:bg-brand-700 transition-colors"
+                    >
+                        {kind}
+                    </button>
+                ))}
+                <button onClick={() => setChange(null)} disabled={!change} className="px-3 py-2 text-sm font-semibold text-gray-600 dark:text-gray-300 hover:underline disabled:opacity-50">
+                    Reset
+                </button>
+            </div>
+        </div>
+    );
+};
+
+// --- Phases of matter ---
+const CURVE_WIDTH = 400;
+const CURVE_HEIGHT = 220;
+const CURVE_PADDING = 36;
+
+const STATE_NAMES: Record<PhaseState, string> = {
+    solid: 'Solid',
+    melting: 'Melting (solid and liquid)',
+    liquid: 'Liquid',
+    boiling: 'Boiling (liquid and gas)',
+    gas: 'Gas',
+};
+
+const PhasesLab: React.FC<{ settings: PhasesLabSettings; onReadingChange: (reading: string) => void }> = ({ settings, onReadingChange }) => {
+    const curve = useMemo(() => buildHeatingCurve(settings), [settings]);
+    const [heat, setHeat] = useState(0);
+    const { state, temperature } = stateAtHeat(curve, heat);
+    const minTemperature = curve.stages[0].fromTemperature;
+    const maxTemperature = curve.stages[curve.stages.length - 1].toTemperature;
+    const toScreen = (heatAdded: number, degrees: number) => ({
+        x: CURVE_PADDING + (heatAdded / curve.totalHeat) * (CURVE_WIDTH - 2 * CURVE_PADDING),
+        y: CURVE_HEIGHT - CURVE_PADDING - ((degrees - minTemperature) / (maxTemperature - minTemperature || 1)) * (CURVE_HEIGHT - 2 * CURVE_PADDING),
+    });
+    const curvePoints = [toScreen(0, minTemperature), ...curve.stages.map(stage => toScreen(stage.untilHeat, stage.toTemperature))];
+    const marker = toScreen(heat, temperature);
+    // The part of the curve already heated through: every corner passed, then the current point.
+    const heated = [curvePoints[0], ...curve.stages.filter(stage => stage.untilHeat < heat).map(stage => toScreen(stage.untilHeat, stage.toTemperature)), marker];
+
+    useReading(`${settings.substance} after ${Math.round(heat)} units of heat: ${formatNumber(temperature)} °C, ${STATE_NAMES[state].toLowerCase()}`, onReadingChange);
+
+    return (
+        <div className="space-y-4">
+            <svg viewBox={`0 0 ${CURVE_WIDTH} ${CURVE_HEIGHT}`} className="w-full max-w-lg mx-auto" role="img" aria-label={`Heating curve of ${settings.substance}, now at ${formatNumber(temperature)} degrees, ${state}`}>
+                <line x1={CURVE_PADDING} x2={CURVE_PADDING} y1={CURVE_PADDING - 10} y2={CURVE_HEIGHT - CURVE_PADDING} className="stroke-gray-500 dark:stroke-gray-400" strokeWidth={1.5} />
+                <line x1={CURVE_PADDING} x2={CURVE_WIDTH - CURVE_PADDING + 10} y1={CURVE_HEIGHT - CURVE_PADDING} y2={CURVE_HEIGHT - CURVE_PADDING} className="stroke-gray-500 dark:stroke-gray-400" strokeWidth={1.5} />
+                {[settings.meltingPoint, settings.boilingPoint].filter(degrees => degrees >= minTemperature).map(degrees => (
+                    <g key={degrees}>
+                        <line x1={CURVE_PADDING} x2={CURVE_WIDTH - CURVE_PADDING} y1={toScreen(0, degrees).y} y2={toScreen(0, degrees).y} className="stroke-gray-200 dark:stroke-gray-700" strokeDasharray="3 3" />
+                        <text x={CURVE_PADDING - 4} y={toScreen(0, degrees).y + 3} fontSize={10} textAnchor="end" className={MUTED_LABEL_CLASS}>{formatNumber(degrees)}°</text>
+                    </g>
+                ))}
+                <polyline points={curvePoints.map(point => `${point.x},${point.y}`).join(' ')} fill="none" className="stroke-gray-300 dark:stroke-gray-600" strokeWidth={2} />
+                <polyline points={heated.map(point => `${point.x},${point.y}`).join(' ')} fill="none" className="stroke-red-500" strokeWidth={3} />
+                <circle cx={marker.x} cy={marker.y} r={5} className="fill-red-600" />
+                <text x={CURVE_WIDTH / 2} y={CURVE_HEIGHT - 10} fontSize={10} textAnchor="middle" className={MUTED_LABEL_CLASS}>Heat added →</text>
+                <text x={12} y={CURVE_HEIGHT / 2} fontSize={10} textAnchor="middle" transform={`rotate(-90 12 ${CURVE_HEIGHT / 2})`} className={MUTED_LABEL_CLASS}>Temperature (°C)</text>
+            </svg>
+            <div className="max-w-md mx-auto">
+                <Slider label={`Heat added: ${Math.round(heat)}`} value={heat} min={0} max={curve.totalHeat} step={1} onChange={setHeat} />
+            </div>
+            <div className={READOUT_CLASS}>
+                <Readout label="Substance" value={settings.substance} />
+                <Readout label="Temperature" value={`${formatNumber(temperature)} °C`} />
+                <Readout label="State" value={STATE_NAMES[state]} />
+            </div>
+        </div>
+    );
+};
+
+const LabSimulation: React.FC<LabSimulationProps> = ({ settings, onReadingChange }) => {
+    switch (settings.simulation) {
+        case 'projectile':
+            return <ProjectileLab settings={settings} onReadingChange={onReadingChange} />;
+        case 'density':
+            return <DensityLab settings={settings} onReadingChange={onReadingChange} />;
+        case 'circuit':
+            return <CircuitLab settings={settings} onReadingChange={onReadingChange} />;
+        case 'food-web':
+            return <FoodWebLab settings={settings} onReadingChange={onReadingChange} />;
+        case 'phases':
+            return <PhasesLab settings={settings} onReadingChange={onReadingChange} />;
+    }
+};
+
+export default LabSimulation;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import type { SavedLesson } from '../types';
+
+interface LessonLibraryProps {
+    lessons: SavedLesson[];
+    onOpen: (saved: SavedLesson) => void;
+    onDuplicate: (saved: SavedLesson) => void;
+    onDelete: (saved: SavedLesson) => void;
+}
+
+const LessonLibrary: React.FC<LessonLibraryProps> = ({ lessons, onOpen, onDuplicate, onDelete }) => {
+    const [filter, setFilter] = useState('');
+
+    const visibleLessons = lessons.filter(saved =>
+        `${saved.title} ${saved.subject}`.toLowerCase().includes(filter.trim().toLowerCase())
+    );
+
+    const handleDelete = (saved: SavedLesson) => {
+        if (window.confirm(`Delete "${saved.title}" from your library?`)) {
+            onDelete(saved);
+        }
+    };
+
+    return (
+        <div className="bg-white dark:bg-gray-800 p-6 rounded-xl shadow-lg mt-8">
+            <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+                <h2 className="text-xl font-semibold">My Lesson Library ({lessons.length})</h2>
+                {lessons.length > 0 && (
+                    <input
+                        type="search"
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value)}
+                        placeholder="Search saved lessons"
+                        className="w-full sm:w-64 px-3 py-1.5 text-sm border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400"
+                    />
+                )}
+            </div>
+
+            {lessons.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400 text-sm">Lessons you create are saved here so you can come back to them, even offline.</p>
+            ) : visibleLessons.length === 0 ? (
+                <p className="text-gray-500 dark:text-gray-400 text-sm">No saved lessons match "{filter}".</p>
+            ) : (
+                <ul className="divide-y divide-gray-200 dark:divide-gray-700 max-h-80 overflow-y-auto">
+                    {visibleLessons.map(saved => (
+                        <li key={saved.id} className="py-3 flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+                            <div>
+                                <p className="font-semibold text-gray-800 dark:text-white">{saved.title}</p>
+                                <p className="text-xs text-gray-500 dark:text-gray-400">
+                                    {saved.subject} · {new Date(saved.createdAt).toLocaleDateString()}
+                                </p>
+                            </div>
+                            <div className="flex gap-2 text-sm">
+                                <button onClick={() => onOpen(saved)} className="px-3 py-1 font-semibold text-white bg-brand-600 rounded-md hover:bg-brand-700 transition-colors">
+                                    Open
+                                </button>
+                                <button onClick={() => onDuplicate(saved)} className="px-3 py-1 font-medium bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors">
+                                    Duplicate
+                                </button>
+                                <button onClick={() => handleDelete(saved)} className="px-3 py-1 font-medium text-red-600 dark:text-red-400 rounded-md hover:bg-red-50 dark:hover:bg-red-900/30 transition-colors">
+                                    Delete
+                                </button>
+                            </div>
+                        </li>
+                    ))}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default LessonLibrary;
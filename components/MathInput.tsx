@@ -0,0 +1,188 @@
+import React, { useId, useLayoutEffect, useRef, useState } from 'react';
+import type { AnswerType } from '../types';
+import { mathAnswerToLatex, normalizeMathAnswer } from '../utils/mathInput';
+import RichText from './RichText';
+
+interface MathInputProps {
+    value: string;
+    onChange: (value: string) => void;
+    answerType: AnswerType;
+    disabled?: boolean;
+    placeholder?: string;
+    className?: string;
+    ariaLabel?: string;
+}
+
+// "|" marks where the caret goes after inserting; a selection is wrapped at that spot.
+interface KeypadKey {
+    label: string;
+    ariaLabel: string;
+    template: string;
+}
+
+const MATH_KEYS: KeypadKey[] = [
+    { label: 'a⁄b', ariaLabel: 'Fraction', template: '(|)/()' },
+    { label: 'x²', ariaLabel: 'Squared', template: '^2|' },
+    { label: 'xⁿ', ariaLabel: 'Exponent', template: '^(|)' },
+    { label: '√', ariaLabel: 'Square root', template: 'sqrt(|)' },
+    { label: 'π', ariaLabel: 'Pi', template: 'pi|' },
+    { label: '(−)', ariaLabel: 'Negative', template: '-|' },
+    { label: '( )', ariaLabel: 'Brackets', template: '(|)' },
+    { label: '%', ariaLabel: 'Percent', template: '%|' },
+    { label: 'x', ariaLabel: 'Variable x', template: 'x|' },
+    { label: '=', ariaLabel: 'Equals', template: ' = |' },
+];
+
+const NUMBER_KEYS: KeypadKey[] = [
+    ...'789456123'.split('').map(digit => ({ label: digit, ariaLabel: digit, template: `${digit}|` })),
+    { label: '0', ariaLabel: '0', template: '0|' },
+    { label: '.', ariaLabel: 'Decimal point', template: '.|' },
+    { label: '+', ariaLabel: 'Plus', template: ' + |' },
+    { label: '−', ariaLabel: 'Minus', template: ' - |' },
+    { label: '×', ariaLabel: 'Times', template: ' * |' },
+    { label: '÷', ariaLabel: 'Divided by', template: ' / |' },
+];
+
+const UNIT_KEYS: KeypadKey[] = ['mm', 'cm', 'm', 'km', 'in', 'ft', 'g', 'kg', 'ml', 'l', 's', 'min', '°'].map(unit => ({
+    label: unit,
+    ariaLabel: `Unit ${unit}`,
+    template: unit === '°' ? '°|' : ` ${unit}|`,
+}));
+
+// Answer box for practice problems: a normal text input (so typing still works everywhere)
+// plus an optional on-screen keypad for fractions, powers, roots and units, and a typeset
+// preview of the answer. Text answers get a plain input.
+const MathInput: React.FC<MathInputProps> = ({ value, onChange, answerType, disabled = false, placeholder, className = '', ariaLabel }) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const selectionRef = useRef({ start: value.length, end: value.length });
+    const pendingCaretRef = useRef<number | null>(null);
+    const [isKeypadOpen, setIsKeypadOpen] = useState(false);
+    const keypadId = useId();
+
+    const isMath = answerType !== 'text';
+    const preview = isMath && value.trim() ? mathAnswerToLatex(value) : '';
+
+    // Put the caret back where the inserted template wants it once the new value has rendered.
+    useLayoutEffect(() => {
+        const caret = pendingCaretRef.current;
+        if (caret === null || !inputRef.current) return;
+        pendingCaretRef.current = null;
+        inputRef.current.setSelectionRange(caret, caret);
+        selectionRef.current = { start: caret, end: caret };
+    }, [value]);
+
+    const rememberSelection = () => {
+        const input = inputRef.current;
+        if (input) {
+            selectionRef.current = { start: input.selectionStart ?? input.value.length, end: input.selectionEnd ?? input.value.length };
+        }
+    };
+
+    const applyEdit = (nextValue: string, caret: number, refocus: boolean) => {
+        pendingCaretRef.current = caret;
+        onChange(nextValue);
+        if (refocus) inputRef.current?.focus();
+    };
+
+    // Keyboard-activated keys (detail === 0) keep focus on the keypad so the user can keep tabbing;
+    // pointer/touch keys send it back to the input.
+    const handleKey = (key: KeypadKey, e: React.MouseEvent) => {
+        const { start, end } = selectionRef.current;
+        const [before, after] = key.template.split('|');
+        const inserted = `${before}${value.slice(start, end)}`;
+        applyEdit(`${value.slice(0, start)}${inserted}${after}${value.slice(end)}`, start + inserted.length, e.detail !== 0);
+    };
+
+    const handleBackspace = (e: React.MouseEvent) => {
+        const { start, end } = selectionRef.current;
+        if (start === end && start === 0) return;
+        const from = start === end ? start - 1 : start;
+        applyEdit(`${value.slice(0, from)}${value.slice(end)}`, from, e.detail !== 0);
+    };
+
+    const renderKey = (key: KeypadKey) => (
+        <button
+            key={key.ariaLabel}
+            type="button"
+            aria-label={key.ariaLabel}
+            onPointerDown={(e) => e.preventDefault()}
+            onClick={(e) => handleKey(key, e)}
+            className="px-2 py-2 text-sm font-semibold bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-brand-500"
+        >
+            {key.label}
+        </button>
+    );
+
+    return (
+        <div className="space-y-2">
+            <div className="flex gap-2">
+                <input
+                    ref={inputRef}
+                    type="text"
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    onSelect={rememberSelection}
+                    onBlur={() => {
+                        rememberSelection();
+                        const normalized = isMath ? normalizeMathAnswer(value) : value;
+                        if (normalized !== value) {
+                            selectionRef.current = { start: normalized.length, end: normalized.length };
+                            onChange(normalized);
+                        }
+                    }}
+                    disabled={disabled}
+                    placeholder={placeholder}
+                    aria-label={ariaLabel}
+                    // With the keypad open, don't cover half the screen with the device keyboard.
+                    inputMode={isKeypadOpen ? 'none' : 'text'}
+                    autoCapitalize="off"
+                    autoCorrect="off"
+                    spellCheck={false}
+                    className={`flex-1 min-w-0 p-2 border-2 rounded-md transition-colors ${className} dark:bg-gray-700 dark:text-white dark:placeholder-gray-400`}
+                />
+                {isMath && !disabled && (
+                    <button
+                        type="button"
+                        onClick={() => setIsKeypadOpen(!isKeypadOpen)}
+                        aria-expanded={isKeypadOpen}
+                        aria-controls={keypadId}
+                        title={isKeypadOpen ? 'Hide math keypad' : 'Show math keypad'}
+                        className={`px-3 rounded-md text-lg border-2 transition-colors ${isKeypadOpen ? 'border-brand-500 text-brand-600 dark:text-brand-400' : 'border-gray-300 dark:border-gray-600 text-gray-500'}`}
+                    >
+                        <span aria-hidden="true">⌨</span>
+                        <span className="sr-only">Math keypad</span>
+                    </button>
+                )}
+            </div>
+
+            {preview && (
+                <div className="text-sm text-gray-500 dark:text-gray-400">
+                    Reads as: <RichText text={`\\(${preview}\\)`} inline className="text-gray-800 dark:text-gray-100" />
+                </div>
+            )}
+
+            {isKeypadOpen && !disabled && (
+                <div id={keypadId} role="group" aria-label="Math keypad" className="p-2 border border-gray-200 dark:border-gray-700 rounded-lg space-y-2">
+                    <div className="grid grid-cols-5 gap-1">{MATH_KEYS.map(renderKey)}</div>
+                    <div className="grid grid-cols-4 sm:grid-cols-8 gap-1">
+                        {NUMBER_KEYS.map(renderKey)}
+                        <button
+                            type="button"
+                            aria-label="Delete"
+                            onPointerDown={(e) => e.preventDefault()}
+                            onClick={handleBackspace}
+                            className="px-2 py-2 text-sm font-semibold bg-gray-100 dark:bg-gray-700 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-brand-500"
+                        >
+                            ⌫
+                        </button>
+                    </div>
+                    {answerType === 'measurement' && (
+                        <div className="flex flex-wrap gap-1">{UNIT_KEYS.map(renderKey)}</div>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+};
+
+export default MathInput;
@@ -0,0 +1,52 @@
+import React from 'react';
+import type { TopicRecommendation } from '../utils/recommendations';
+
+interface NextLessonSuggestionsProps {
+    title: string;
+    recommendations: TopicRecommendation[];
+    onStart: (topic: string) => void;
+    // Shown when there is no topic list to draw new topics from.
+    onLoadTopics?: () => void;
+    isLoadingTopics?: boolean;
+    disabled?: boolean;
+}
+
+const NextLessonSuggestions: React.FC<NextLessonSuggestionsProps> = ({ title, recommendations, onStart, onLoadTopics, isLoadingTopics = false, disabled = false }) => {
+    if (recommendations.length === 0 && !onLoadTopics) return null;
+
+    return (
+        <div className="space-y-3">
+            <h3 className="text-lg font-semibold text-gray-700 dark:text-gray-200">{title}</h3>
+            {recommendations.length > 0 && (
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                    {recommendations.map(recommendation => (
+                        <button
+                            key={recommendation.topic}
+                            onClick={() => onStart(recommendation.topic)}
+                            disabled={disabled}
+                            className="text-left p-4 bg-white dark:bg-gray-800 border-2 border-gray-200 dark:border-gray-700 rounded-lg hover:border-brand-500 dark:hover:border-brand-400 focus:outline-none focus:ring-2 focus:ring-brand-500 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                        >
+                            <span className="block text-xs font-semibold uppercase tracking-wide text-brand-600 dark:text-brand-400">
+                                {recommendation.kind === 'review' ? '🔁 Review' : '✨ New topic'}
+                            </span>
+                            <span className="block mt-1 font-bold text-gray-800 dark:text-gray-100">{recommendation.topic}</span>
+                            <span className="block mt-1 text-sm text-gray-600 dark:text-gray-400">{recommendation.reason}</span>
+                            <span className="block mt-2 text-sm font-semibold text-brand-600 dark:text-brand-400">Start lesson →</span>
+                        </button>
+                    ))}
+                </div>
+            )}
+            {onLoadTopics && (
+                <button
+                    onClick={onLoadTopics}
+                    disabled={isLoadingTopics || disabled}
+                    className="text-sm font-semibold text-brand-600 dark:text-brand-400 hover:underline disabled:opacity-50 disabled:cursor-wait"
+                >
+                    {isLoadingTopics ? 'Finding new topics...' : 'Suggest new topics from Khan Academy'}
+                </button>
+            )}
+        </div>
+    );
+};
+
+export default NextLessonSuggestions;
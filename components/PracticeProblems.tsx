@@ -1,64 +1,91 @@
 import React, { useState, useEffect } from 'react';
-import type { PracticeProblems as ProblemsType, Mistake } from '../types';
+import type { PracticeProblems as ProblemsType, AnswerCheckingStrategy, Mistake, TimerSettings } from '../types';
+import { isAnswerCorrect } from '../utils/answerChecker';
+import { normalizeMathAnswer } from '../utils/mathInput';
+import { DEFAULT_TIMER_SETTINGS, timeLimitFor } from '../utils/timer';
+import RichText from './RichText';
+import MathInput from './MathInput';
+import SessionTimer, { PausedNotice, useSessionTimer } from './SessionTimer';
 
-const PROBLEMS_TIME_SECONDS = 600; // 10 minutes
+const HINT_PENALTY = 0.25; // points taken off a correct answer per hint, when hints cost points
 
 interface PracticeProblemsProps {
   problemsData: ProblemsType;
-  onComplete: (score: number, total: number, timeTaken: number, mistakes: Mistake[]) => void;
+  hintsCostPoints: boolean;
+  answerChecking?: AnswerCheckingStrategy; // how the lesson's subject marks typed answers
+  timerSettings?: TimerSettings; // the lesson's; standard timing when missing
+  onComplete: (score: number, total: number, timeTaken: number, mistakes: Mistake[], hintsUsed: number) => void;
+  // Told when the problems are opened, e.g. so the lesson's timer settings can be fixed.
+  onStart?: () => void;
 }
 
-const PracticeProblems: React.FC<PracticeProblemsProps> = ({ problemsData, onComplete }) => {
+const PracticeProblems: React.FC<PracticeProblemsProps> = ({ problemsData, hintsCostPoints, answerChecking, timerSettings = DEFAULT_TIMER_SETTINGS, onComplete, onStart }) => {
   const [userAnswers, setUserAnswers] = useState<string[]>(
     Array(problemsData.problems.length).fill('')
   );
+  // How many hints have been revealed for each problem.
+  const [hintsShown, setHintsShown] = useState<number[]>(
+    Array(problemsData.problems.length).fill(0)
+  );
   const [submitted, setSubmitted] = useState<boolean>(false);
-  const [timeLeft, setTimeLeft] = useState<number>(PROBLEMS_TIME_SECONDS);
+  // With a clock per problem, the problems are shown one at a time until they're handed in.
+  const isPerQuestion = timerSettings.mode === 'per-question';
+  const [currentProblem, setCurrentProblem] = useState<number>(0);
+  const isLastProblem = currentProblem === problemsData.problems.length - 1;
+  const timer = useSessionTimer(timeLimitFor(timerSettings, 'problems'), submitted, isPerQuestion ? currentProblem : 0);
+
+  const isProblemCorrect = React.useCallback((problemIndex: number, answer: string) => {
+    const problem = problemsData.problems[problemIndex];
+    return isAnswerCorrect(answer, problem.answer, problem.answerType, answerChecking?.tolerance);
+  }, [problemsData.problems, answerChecking]);
 
-  const score = userAnswers.reduce((acc, userAnswer, index) => {
-    const isCorrect = userAnswer.trim().toLowerCase() === problemsData.problems[index].answer.trim().toLowerCase();
-    return isCorrect ? acc + 1 : acc;
-  }, 0);
+  const problemScore = React.useCallback((problemIndex: number, answer: string) => {
+    if (!isProblemCorrect(problemIndex, answer)) return 0;
+    return hintsCostPoints ? Math.max(0, 1 - HINT_PENALTY * hintsShown[problemIndex]) : 1;
+  }, [isProblemCorrect, hintsCostPoints, hintsShown]);
+
+  const score = userAnswers.reduce((acc, userAnswer, index) => acc + problemScore(index, userAnswer), 0);
+  const hintsUsed = hintsShown.reduce((acc, count) => acc + count, 0);
 
   const handleSubmit = React.useCallback(() => {
     if (submitted) return;
     setSubmitted(true);
-    const timeTaken = PROBLEMS_TIME_SECONDS - timeLeft;
+    const timeTaken = timer.elapsed;
 
     let finalScore = 0;
     const mistakes: Mistake[] = [];
     userAnswers.forEach((answer, index) => {
         const problem = problemsData.problems[index];
-        const isCorrect = answer.trim().toLowerCase() === problem.answer.trim().toLowerCase();
-        if (isCorrect) {
-            finalScore++;
+        if (isProblemCorrect(index, answer)) {
+            finalScore += problemScore(index, answer);
         } else {
             mistakes.push({
                 questionText: problem.problemText,
-                userAnswer: answer || "No answer",
-                correctAnswer: problem.answer
+                userAnswer: normalizeMathAnswer(answer) || "No answer",
+                correctAnswer: problem.answer,
+                source: 'problems',
             });
         }
     });
     
-    onComplete(finalScore, problemsData.problems.length, timeTaken, mistakes);
+    onComplete(finalScore, problemsData.problems.length, timeTaken, mistakes, hintsUsed);
 
-  }, [submitted, userAnswers, onComplete, problemsData.problems, timeLeft]);
+  }, [submitted, userAnswers, onComplete, problemsData.problems, timer.elapsed, isProblemCorrect, problemScore, hintsUsed]);
   
   useEffect(() => {
-    if (submitted) return;
-    
-    if (timeLeft <= 0) {
+    onStart?.();
+  }, [onStart]);
+
+  // Running out of time hands the problems in as they stand, or with a clock per problem moves on
+  // to the next one, leaving this one's answer as it is.
+  useEffect(() => {
+    if (!timer.isTimeUp) return;
+    if (isPerQuestion && !isLastProblem) {
+      setCurrentProblem(currentProblem + 1);
+    } else {
       handleSubmit();
-      return;
     }
-
-    const timerId = setInterval(() => {
-      setTimeLeft((prevTime) => prevTime - 1);
-    }, 1000);
-
-    return () => clearInterval(timerId);
-  }, [timeLeft, submitted, handleSubmit]);
+  }, [timer.isTimeUp, isPerQuestion, isLastProblem, currentProblem, handleSubmit]);
 
   const handleAnswerChange = (problemIndex: number, value: string) => {
     if (submitted) return;
@@ -67,56 +94,96 @@ const PracticeProblems: React.FC<PracticeProblemsProps> = ({ problemsData, onCom
     setUserAnswers(newAnswers);
   };
 
+  const handleShowHint = (problemIndex: number) => {
+    if (submitted) return;
+    const newHintsShown = [...hintsShown];
+    newHintsShown[problemIndex]++;
+    setHintsShown(newHintsShown);
+  };
+
   const getResultClasses = (problemIndex: number) => {
     if (!submitted) return 'focus:ring-brand-500 focus:border-brand-500';
-    
-    const userAnswer = userAnswers[problemIndex].trim().toLowerCase();
-    const correctAnswer = problemsData.problems[problemIndex].answer.trim().toLowerCase();
 
-    if (userAnswer === correctAnswer) {
+    if (isProblemCorrect(problemIndex, userAnswers[problemIndex])) {
       return 'border-green-500 bg-green-50 dark:bg-green-900/50 dark:border-green-600 ring-green-500';
     } else {
       return 'border-red-500 bg-red-50 dark:bg-red-900/50 dark:border-red-600 ring-red-500';
     }
   };
 
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
+  const header = (
+    <div className="flex justify-between items-center">
+      <h3 className="text-2xl font-bold text-gray-800 dark:text-white">{problemsData.title}</h3>
+      {!submitted && (
+        <SessionTimer
+          timer={timer}
+          allowPause={timerSettings.allowPause}
+          question={isPerQuestion ? { number: currentProblem + 1, count: problemsData.problems.length } : undefined}
+        />
+      )}
+    </div>
+  );
+
+  if (timer.isPaused && !submitted) {
+    return (
+      <div className="space-y-8">
+        {header}
+        <PausedNotice onResume={() => timer.setIsPaused(false)} />
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-8">
-       <div className="flex justify-between items-center">
-        <h3 className="text-2xl font-bold text-gray-800 dark:text-white">{problemsData.title}</h3>
-         {!submitted && (
-            <div className="text-lg font-mono bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white px-3 py-1 rounded-md">
-                Time Left: {formatTime(timeLeft)}
-            </div>
-        )}
-      </div>
-      {problemsData.problems.map((p, pIndex) => (
+      {header}
+      {problemsData.problems.map((p, pIndex) => (isPerQuestion && !submitted && pIndex !== currentProblem) ? null : (
         <div key={pIndex} className="p-4 border rounded-lg bg-white dark:bg-gray-800 shadow-sm space-y-3">
-          <p className="font-semibold text-lg text-gray-700 dark:text-gray-200">{pIndex + 1}. {p.problemText}</p>
-          <input
-            type="text"
+          <div className="flex font-semibold text-lg text-gray-700 dark:text-gray-200">
+            <span className="mr-2">{pIndex + 1}.</span>
+            <RichText text={p.problemText} />
+          </div>
+          <MathInput
             value={userAnswers[pIndex]}
-            onChange={(e) => handleAnswerChange(pIndex, e.target.value)}
+            onChange={(value) => handleAnswerChange(pIndex, value)}
+            answerType={p.answerType}
             disabled={submitted}
             placeholder="Type your answer here"
-            className={`w-full p-2 border-2 rounded-md transition-colors ${getResultClasses(pIndex)} dark:bg-gray-700 dark:text-white dark:placeholder-gray-400`}
+            ariaLabel={`Answer to problem ${pIndex + 1}`}
+            className={getResultClasses(pIndex)}
           />
+          {hintsShown[pIndex] > 0 && (
+            <ol className="space-y-1 text-sm">
+              {p.hints.slice(0, hintsShown[pIndex]).map((hint, hIndex) => (
+                <li key={hIndex} className="p-2 bg-yellow-50 dark:bg-yellow-900/30 text-gray-700 dark:text-gray-200 rounded-md">
+                  💡 <span className="font-semibold">Hint {hIndex + 1}:</span> <RichText text={hint} inline />
+                </li>
+              ))}
+            </ol>
+          )}
+          {!submitted && hintsShown[pIndex] < p.hints.length && (
+            <button onClick={() => handleShowHint(pIndex)} className="text-sm font-medium text-brand-600 dark:text-brand-400 hover:underline">
+              💡 Show hint {hintsShown[pIndex] + 1} of {p.hints.length}
+              {hintsCostPoints && ` (-${HINT_PENALTY} point)`}
+            </button>
+          )}
           {submitted && (
             <div>
               <p className="text-sm font-medium">
                 Correct Answer: <span className="text-green-600 dark:text-green-400 font-bold">{p.answer}</span>
               </p>
-              {userAnswers[pIndex].trim().toLowerCase() !== p.answer.trim().toLowerCase() && (
+              {!isProblemCorrect(pIndex, userAnswers[pIndex]) && (
                  <p className="mt-2 text-sm">
                     Your answer: <span className="font-mono p-1 bg-red-100 dark:bg-red-800 rounded">{userAnswers[pIndex] || '""'}</span>
                 </p>
               )}
+              {p.solutionSteps.length > 0 && (
+                <details className="mt-3 text-sm" open={!isProblemCorrect(pIndex, userAnswers[pIndex])}>
+                  <summary className="cursor-pointer font-medium text-brand-600 dark:text-brand-400">Worked solution</summary>
+                  <ol className="mt-2 ml-5 list-decimal space-y-1 text-gray-700 dark:text-gray-300">
+                    {p.solutionSteps.map((step, sIndex) => <li key={sIndex}><RichText text={step} inline /></li>)}
+                  </ol>
+                </details>
+              )}
             </div>
           )}
         </div>
@@ -124,14 +191,17 @@ const PracticeProblems: React.FC<PracticeProblemsProps> = ({ problemsData, onCom
       <div className="mt-6 flex justify-between items-center">
         {!submitted ? (
           <button
-            onClick={handleSubmit}
+            onClick={isPerQuestion && !isLastProblem ? () => setCurrentProblem(currentProblem + 1) : handleSubmit}
             className="px-6 py-2 bg-brand-600 text-white font-semibold rounded-lg hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 transition-colors"
           >
-            Check Answers
+            {isPerQuestion && !isLastProblem ? 'Next Problem' : 'Check Answers'}
           </button>
         ) : (
            <div className="text-xl font-bold text-gray-800 dark:text-white">
-            Problems Score: {score} / {problemsData.problems.length}
+            Problems Score: {Number(score.toFixed(2))} / {problemsData.problems.length}
+            {hintsUsed > 0 && (
+              <span className="ml-3 text-sm font-medium text-gray-500 dark:text-gray-400">💡 {hintsUsed} hint{hintsUsed === 1 ? '' : 's'} used</span>
+            )}
           </div>
         )}
       </div>
@@ -0,0 +1,263 @@
+import React, { useState } from 'react';
+import type { Profile, ProfilesState, TimeMultiplier, TimerMode } from '../types';
+import {
+    PROFILE_AVATARS, createProfile, switchProfile, renameProfile, setProfilePin, deleteProfile, verifyProfilePin,
+    updateProfilePreferences,
+} from '../utils/profiles';
+import { deleteProfileLessons } from '../utils/lessonLibrary';
+import { TIME_MULTIPLIERS, TIMER_MODES, TIMER_MODE_DESCRIPTIONS, TIMER_MODE_NAMES } from '../utils/timer';
+
+interface ProfileManagerProps {
+    state: ProfilesState;
+    // When locked, a profile has to be picked (and unlocked) before the app can be used.
+    isLocked: boolean;
+    // needsUnlock is set when the newly active profile still has to be unlocked with its PIN.
+    onProfilesChange: (state: ProfilesState, needsUnlock?: boolean) => void;
+    onClose: () => void;
+}
+
+const isValidPin = (pin: string) => /^\d{4,8}$/.test(pin);
+
+const inputClassName = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600 dark:placeholder-gray-400";
+
+const ProfileManager: React.FC<ProfileManagerProps> = ({ state, isLocked, onProfilesChange, onClose }) => {
+    const [unlockingId, setUnlockingId] = useState<string | null>(null);
+    const [pinInput, setPinInput] = useState('');
+    const [error, setError] = useState('');
+
+    const [renameValue, setRenameValue] = useState<string | null>(null);
+    const [newPinValue, setNewPinValue] = useState<string | null>(null);
+
+    const [isCreating, setIsCreating] = useState(false);
+    const [newName, setNewName] = useState('');
+    const [newAvatar, setNewAvatar] = useState(PROFILE_AVATARS[1]);
+    const [newPin, setNewPin] = useState('');
+
+    const activeProfile = state.profiles.find(p => p.id === state.activeProfileId);
+
+    const resetForms = () => {
+        setUnlockingId(null);
+        setPinInput('');
+        setRenameValue(null);
+        setNewPinValue(null);
+        setError('');
+    };
+
+    const handleSelect = (profile: Profile) => {
+        resetForms();
+        if (profile.id === state.activeProfileId && !isLocked) return;
+        if (profile.pinHash) {
+            setUnlockingId(profile.id);
+            return;
+        }
+        onProfilesChange(switchProfile(profile.id));
+    };
+
+    const handleUnlock = async (profile: Profile) => {
+        if (!(await verifyProfilePin(profile, pinInput))) {
+            setError('That PIN is not right. Try again.');
+            setPinInput('');
+            return;
+        }
+        resetForms();
+        onProfilesChange(switchProfile(profile.id));
+    };
+
+    const handleRename = () => {
+        if (!activeProfile || !renameValue?.trim()) return;
+        onProfilesChange(renameProfile(activeProfile.id, renameValue));
+        resetForms();
+    };
+
+    const handleSetPin = async (pin: string | null) => {
+        if (!activeProfile) return;
+        if (pin !== null && !isValidPin(pin)) {
+            setError('A PIN must be 4 to 8 digits.');
+            return;
+        }
+        onProfilesChange(await setProfilePin(activeProfile.id, pin));
+        resetForms();
+    };
+
+    const handleDelete = async () => {
+        if (!activeProfile) return;
+        if (!window.confirm(`Delete ${activeProfile.name}'s profile? All of their progress and saved lessons will be removed.`)) return;
+        await deleteProfileLessons(activeProfile.id);
+        resetForms();
+        const updatedState = deleteProfile(activeProfile.id);
+        const nextProfile = updatedState.profiles.find(p => p.id === updatedState.activeProfileId);
+        onProfilesChange(updatedState, !!nextProfile?.pinHash);
+    };
+
+    const handleCreate = async () => {
+        if (!newName.trim()) {
+            setError('Please enter a name.');
+            return;
+        }
+        if (newPin && !isValidPin(newPin)) {
+            setError('A PIN must be 4 to 8 digits.');
+            return;
+        }
+        const created = await createProfile(newName, newAvatar, newPin || undefined);
+        const newProfile = created.profiles[created.profiles.length - 1];
+        setIsCreating(false);
+        setNewName('');
+        setNewPin('');
+        resetForms();
+        onProfilesChange(switchProfile(newProfile.id));
+    };
+
+    return (
+        <div
+            className={`fixed inset-0 z-50 flex justify-center items-center p-4 animate-fade-in ${isLocked ? 'bg-gray-900' : 'bg-black/60'}`}
+            onClick={isLocked ? undefined : onClose}
+        >
+            <div
+                className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-brand-600 dark:text-brand-400">{isLocked ? "Who's learning?" : 'Profiles'}</h2>
+                    {!isLocked && (
+                        <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 text-2xl leading-none">&times;</button>
+                    )}
+                </header>
+
+                <main className="p-6 overflow-y-auto space-y-3">
+                    {state.profiles.map(profile => {
+                        const isActive = profile.id === state.activeProfileId && !isLocked;
+                        return (
+                            <div key={profile.id} className={`p-3 border-2 rounded-lg ${isActive ? 'border-brand-500' : 'border-gray-200 dark:border-gray-700'}`}>
+                                <button onClick={() => handleSelect(profile)} className="w-full flex items-center text-left">
+                                    <span className="text-3xl mr-3">{profile.avatar}</span>
+                                    <span className="flex-1 font-semibold text-gray-800 dark:text-white">{profile.name}</span>
+                                    {profile.pinHash && <span className="mr-2" title="Protected by a PIN">🔒</span>}
+                                    {isActive && <span className="text-xs font-semibold text-brand-600 dark:text-brand-400">Active</span>}
+                                </button>
+
+                                {unlockingId === profile.id && (
+                                    <div className="mt-3 flex gap-2">
+                                        <input
+                                            type="password"
+                                            inputMode="numeric"
+                                            autoFocus
+                                            value={pinInput}
+                                            onChange={(e) => setPinInput(e.target.value)}
+                                            onKeyDown={(e) => e.key === 'Enter' && handleUnlock(profile)}
+                                            placeholder="Enter PIN"
+                                            className={inputClassName}
+                                        />
+                                        <button onClick={() => handleUnlock(profile)} className="px-4 py-2 text-sm font-semibold text-white bg-brand-600 rounded-md hover:bg-brand-700">
+                                            Unlock
+                                        </button>
+                                    </div>
+                                )}
+
+                                {isActive && (
+                                    <div className="mt-3 pt-3 border-t border-gray-200 dark:border-gray-700 space-y-2 text-sm">
+                                        {renameValue !== null ? (
+                                            <div className="flex gap-2">
+                                                <input type="text" value={renameValue} onChange={(e) => setRenameValue(e.target.value)} className={inputClassName} />
+                                                <button onClick={handleRename} className="px-4 py-2 font-semibold text-white bg-brand-600 rounded-md hover:bg-brand-700">Save</button>
+                                            </div>
+                                        ) : newPinValue !== null ? (
+                                            <div className="flex gap-2">
+                                                <input type="password" inputMode="numeric" value={newPinValue} onChange={(e) => setNewPinValue(e.target.value)} placeholder="New PIN (4-8 digits)" className={inputClassName} />
+                                                <button onClick={() => handleSetPin(newPinValue)} className="px-4 py-2 font-semibold text-white bg-brand-600 rounded-md hover:bg-brand-700">Save</button>
+                                            </div>
+                                        ) : (
+                                            <div className="flex flex-wrap gap-3">
+                                                <button onClick={() => { resetForms(); setRenameValue(profile.name); }} className="font-medium text-brand-600 dark:text-brand-400 hover:underline">Rename</button>
+                                                <button onClick={() => { resetForms(); setNewPinValue(''); }} className="font-medium text-brand-600 dark:text-brand-400 hover:underline">
+                                                    {profile.pinHash ? 'Change PIN' : 'Add PIN'}
+                                                </button>
+                                                {profile.pinHash && (
+                                                    <button onClick={() => handleSetPin(null)} className="font-medium text-brand-600 dark:text-brand-400 hover:underline">Remove PIN</button>
+                                                )}
+                                                {state.profiles.length > 1 && (
+                                                    <button onClick={handleDelete} className="font-medium text-red-600 dark:text-red-400 hover:underline">Delete</button>
+                                                )}
+                                            </div>
+                                        )}
+                                        <label className="flex items-center gap-2 text-gray-600 dark:text-gray-300">
+                                            <input
+                                                type="checkbox"
+                                                checked={profile.preferences.hintsCostPoints}
+                                                onChange={(e) => onProfilesChange(updateProfilePreferences(profile.id, { hintsCostPoints: e.target.checked }))}
+                                                className="rounded text-brand-600 focus:ring-brand-500"
+                                            />
+                                            Hints on practice problems cost points
+                                        </label>
+                                        <div className="flex flex-wrap items-center gap-3 text-gray-600 dark:text-gray-300">
+                                            <label className="flex items-center gap-2">
+                                                Timer
+                                                <select
+                                                    value={profile.preferences.timer.mode}
+                                                    title={TIMER_MODE_DESCRIPTIONS[profile.preferences.timer.mode]}
+                                                    onChange={(e) => onProfilesChange(updateProfilePreferences(profile.id, { timer: { ...profile.preferences.timer, mode: e.target.value as TimerMode } }))}
+                                                    className="p-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700"
+                                                >
+                                                    {TIMER_MODES.map(mode => <option key={mode} value={mode} title={TIMER_MODE_DESCRIPTIONS[mode]}>{TIMER_MODE_NAMES[mode]}</option>)}
+                                                </select>
+                                            </label>
+                                            <label className="flex items-center gap-2">
+                                                Extra time
+                                                <select
+                                                    value={profile.preferences.timer.multiplier}
+                                                    onChange={(e) => onProfilesChange(updateProfilePreferences(profile.id, { timer: { ...profile.preferences.timer, multiplier: Number(e.target.value) as TimeMultiplier } }))}
+                                                    disabled={profile.preferences.timer.mode === 'untimed'}
+                                                    className="p-1 border border-gray-300 dark:border-gray-600 rounded-md bg-white dark:bg-gray-700 disabled:opacity-50"
+                                                >
+                                                    {TIME_MULTIPLIERS.map(multiplier => <option key={multiplier} value={multiplier}>{multiplier}×</option>)}
+                                                </select>
+                                            </label>
+                                            <label className="flex items-center gap-2">
+                                                <input
+                                                    type="checkbox"
+                                                    checked={profile.preferences.timer.allowPause}
+                                                    onChange={(e) => onProfilesChange(updateProfilePreferences(profile.id, { timer: { ...profile.preferences.timer, allowPause: e.target.checked } }))}
+                                                    className="rounded text-brand-600 focus:ring-brand-500"
+                                                />
+                                                Allow pausing the timer
+                                            </label>
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+
+                    {error && <p className="text-red-500 text-sm">{error}</p>}
+
+                    {isCreating ? (
+                        <div className="p-4 bg-gray-50 dark:bg-gray-900/50 rounded-lg space-y-3">
+                            <input type="text" value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="Name" className={inputClassName} />
+                            <div className="flex flex-wrap gap-2">
+                                {PROFILE_AVATARS.map(avatar => (
+                                    <button
+                                        key={avatar}
+                                        onClick={() => setNewAvatar(avatar)}
+                                        className={`text-2xl p-1 rounded-md ${newAvatar === avatar ? 'bg-brand-100 dark:bg-brand-900 ring-2 ring-brand-500' : 'hover:bg-gray-200 dark:hover:bg-gray-700'}`}
+                                    >
+                                        {avatar}
+                                    </button>
+                                ))}
+                            </div>
+                            <input type="password" inputMode="numeric" value={newPin} onChange={(e) => setNewPin(e.target.value)} placeholder="PIN (optional, 4-8 digits)" className={inputClassName} />
+                            <div className="flex gap-2">
+                                <button onClick={handleCreate} className="px-4 py-2 text-sm font-semibold text-white bg-brand-600 rounded-md hover:bg-brand-700">Create Profile</button>
+                                <button onClick={() => { setIsCreating(false); setError(''); }} className="px-4 py-2 text-sm font-medium bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600">Cancel</button>
+                            </div>
+                        </div>
+                    ) : (
+                        <button onClick={() => { resetForms(); setIsCreating(true); }} className="w-full p-3 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-gray-500 hover:text-brand-600 hover:border-brand-500 transition-colors">
+                            + Add a profile
+                        </button>
+                    )}
+                </main>
+            </div>
+        </div>
+    );
+};
+
+export default ProfileManager;
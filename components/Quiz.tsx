@@ -1,127 +1,159 @@
 import React, { useState, useEffect } from 'react';
-import type { Quiz as QuizType, Mistake } from '../types';
-
-const QUIZ_TIME_SECONDS = 300; // 5 minutes
+import type { Quiz as QuizType, AnswerCheckingStrategy, LabNotebook, Mistake, TimerSettings, VirtualLab } from '../types';
+import RichText from './RichText';
+import QuizQuestionInput from './QuizQuestionInput';
+import SessionTimer, { PausedNotice, useSessionTimer } from './SessionTimer';
+import Visual from './Visual';
+import { createEmptyAnswer, formatCorrectAnswer, formatQuizAnswer, isQuizAnswerCorrect, type QuizAnswer } from '../utils/quizQuestions';
+import { DEFAULT_TIMER_SETTINGS, timeLimitFor } from '../utils/timer';
 
 interface QuizProps {
   quizData: QuizType;
+  // The lesson's virtual lab and what the student recorded there, shown for the questions about it.
+  lab?: VirtualLab;
+  labNotebook?: LabNotebook;
+  answerChecking?: AnswerCheckingStrategy; // how the lesson's subject marks typed answers
+  timerSettings?: TimerSettings; // the lesson's; standard timing when missing
   onComplete: (score: number, total: number, timeTaken: number, mistakes: Mistake[]) => void;
+  // Told when the quiz is opened, e.g. so the tutor can hold back answers until it's handed in.
+  onStart?: () => void;
 }
 
-const Quiz: React.FC<QuizProps> = ({ quizData, onComplete }) => {
-  const [userAnswers, setUserAnswers] = useState<(number | null)[]>(
-    Array(quizData.questions.length).fill(null)
-  );
+const Quiz: React.FC<QuizProps> = ({ quizData, lab, labNotebook, answerChecking, timerSettings = DEFAULT_TIMER_SETTINGS, onComplete, onStart }) => {
+  const [userAnswers, setUserAnswers] = useState<QuizAnswer[]>(() => quizData.questions.map(createEmptyAnswer));
   const [submitted, setSubmitted] = useState<boolean>(false);
-  const [timeLeft, setTimeLeft] = useState<number>(QUIZ_TIME_SECONDS); 
-
-  const score = userAnswers.reduce((acc, answer, index) => {
-    return answer === quizData.questions[index].correctAnswerIndex ? acc + 1 : acc;
-  }, 0);
+  // With a clock per question, the questions are shown one at a time until the quiz is handed in.
+  const isPerQuestion = timerSettings.mode === 'per-question';
+  const [currentQuestion, setCurrentQuestion] = useState<number>(0);
+  const isLastQuestion = currentQuestion === quizData.questions.length - 1;
+  const timer = useSessionTimer(timeLimitFor(timerSettings, 'quiz'), submitted, isPerQuestion ? currentQuestion : 0);
+
+  // A question only counts when every part of it is right (all the ticked options, every pair, ...).
+  const results = quizData.questions.map((question, index) => isQuizAnswerCorrect(question, userAnswers[index], answerChecking));
+  const score = results.filter(Boolean).length;
+  const hasLabQuestions = !!lab && quizData.questions.some(question => question.fromLab);
+  const notebookAnswers = lab && labNotebook
+    ? lab.observationPrompts.map((prompt, index) => ({ prompt, answer: labNotebook.answers[index]?.trim() })).filter(entry => entry.answer)
+    : [];
 
   const handleSubmit = React.useCallback(() => {
     if (submitted) return;
     setSubmitted(true);
-    const timeTaken = QUIZ_TIME_SECONDS - timeLeft;
-    
+    const timeTaken = timer.elapsed;
+
     let finalScore = 0;
     const mistakes: Mistake[] = [];
     userAnswers.forEach((answer, index) => {
         const question = quizData.questions[index];
-        const isCorrect = answer === question.correctAnswerIndex;
+        const isCorrect = isQuizAnswerCorrect(question, answer, answerChecking);
         if (isCorrect) {
             finalScore++;
         } else {
             mistakes.push({
                 questionText: question.questionText,
-                userAnswer: answer !== null ? question.options[answer] : "No answer",
-                correctAnswer: question.options[question.correctAnswerIndex],
+                userAnswer: formatQuizAnswer(question, answer),
+                correctAnswer: formatCorrectAnswer(question),
+                source: 'quiz',
             });
         }
     });
 
     onComplete(finalScore, quizData.questions.length, timeTaken, mistakes);
 
-  }, [submitted, userAnswers, onComplete, quizData.questions, timeLeft]);
+  }, [submitted, userAnswers, onComplete, quizData.questions, timer.elapsed, answerChecking]);
 
   useEffect(() => {
-    if (submitted) return;
+    onStart?.();
+  }, [onStart]);
 
-    if (timeLeft <= 0) {
+  // Running out of time hands the quiz in as it stands, or with a clock per question moves on to
+  // the next one, leaving this one's answer as it is.
+  useEffect(() => {
+    if (!timer.isTimeUp) return;
+    if (isPerQuestion && !isLastQuestion) {
+      setCurrentQuestion(currentQuestion + 1);
+    } else {
       handleSubmit();
-      return;
     }
+  }, [timer.isTimeUp, isPerQuestion, isLastQuestion, currentQuestion, handleSubmit]);
 
-    const timerId = setInterval(() => {
-      setTimeLeft((prevTime) => prevTime - 1);
-    }, 1000);
-
-    return () => clearInterval(timerId);
-  }, [timeLeft, submitted, handleSubmit]);
-
-  const handleAnswerChange = (questionIndex: number, optionIndex: number) => {
+  const handleAnswerChange = (questionIndex: number, answer: QuizAnswer) => {
     if (submitted) return;
     const newAnswers = [...userAnswers];
-    newAnswers[questionIndex] = optionIndex;
+    newAnswers[questionIndex] = answer;
     setUserAnswers(newAnswers);
   };
 
-  const getResultClasses = (questionIndex: number, optionIndex: number) => {
-    if (!submitted) return 'border-gray-300 dark:border-gray-600';
-    const question = quizData.questions[questionIndex];
-    const isCorrect = question.correctAnswerIndex === optionIndex;
-    const isSelected = userAnswers[questionIndex] === optionIndex;
-
-    if (isCorrect) {
-      return 'border-green-500 bg-green-100 dark:bg-green-900/50 dark:border-green-600';
-    }
-    if (isSelected && !isCorrect) {
-      return 'border-red-500 bg-red-100 dark:bg-red-900/50 dark:border-red-600';
-    }
-    return 'border-gray-300 dark:border-gray-600';
-  };
+  const header = (
+    <div className="flex justify-between items-center">
+      <h3 className="text-2xl font-bold text-gray-800 dark:text-white">{quizData.title}</h3>
+      {!submitted && (
+        <SessionTimer
+          timer={timer}
+          allowPause={timerSettings.allowPause}
+          question={isPerQuestion ? { number: currentQuestion + 1, count: quizData.questions.length } : undefined}
+        />
+      )}
+    </div>
+  );
 
-  const formatTime = (seconds: number) => {
-    const minutes = Math.floor(seconds / 60);
-    const remainingSeconds = seconds % 60;
-    return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
-  };
+  if (timer.isPaused && !submitted) {
+    return (
+      <div className="space-y-8">
+        {header}
+        <PausedNotice onResume={() => timer.setIsPaused(false)} />
+      </div>
+    );
+  }
 
   return (
     <div className="space-y-8">
-      <div className="flex justify-between items-center">
-        <h3 className="text-2xl font-bold text-gray-800 dark:text-white">{quizData.title}</h3>
-        {!submitted && (
-            <div className="text-lg font-mono bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white px-3 py-1 rounded-md">
-                Time Left: {formatTime(timeLeft)}
+      {header}
+      {hasLabQuestions && (
+        <details className="p-4 rounded-lg bg-brand-50 dark:bg-brand-900/30 text-sm text-gray-700 dark:text-gray-200" open>
+          <summary className="font-semibold cursor-pointer">🔬 Your lab notebook</summary>
+          {labNotebook && (labNotebook.readings.length > 0 || notebookAnswers.length > 0) ? (
+            <div className="mt-3 space-y-3">
+              {labNotebook.readings.length > 0 && (
+                <ul className="list-disc list-inside space-y-1 font-mono">
+                  {labNotebook.readings.map((reading, index) => <li key={index}>{reading}</li>)}
+                </ul>
+              )}
+              {notebookAnswers.map((entry, index) => (
+                <p key={index}><RichText text={entry.prompt} inline className="font-semibold" /> {entry.answer}</p>
+              ))}
             </div>
-        )}
-      </div>
-      {quizData.questions.map((q, qIndex) => (
+          ) : (
+            <p className="mt-3 text-gray-500 dark:text-gray-400">Nothing recorded yet. Some questions are about the virtual lab, so try it first.</p>
+          )}
+        </details>
+      )}
+      {quizData.questions.map((q, qIndex) => (isPerQuestion && !submitted && qIndex !== currentQuestion) ? null : (
         <div key={qIndex} className="p-4 border rounded-lg bg-white dark:bg-gray-800 shadow-sm">
-          <p className="font-semibold text-lg mb-4 text-gray-700 dark:text-gray-200">{qIndex + 1}. {q.questionText}</p>
-          <div className="space-y-3">
-            {q.options.map((option, oIndex) => (
-              <label
-                key={oIndex}
-                className={`flex items-center p-3 border-2 rounded-md cursor-pointer transition-colors ${getResultClasses(qIndex, oIndex)}`}
-              >
-                <input
-                  type="radio"
-                  name={`question-${qIndex}`}
-                  className="h-4 w-4 text-brand-600 focus:ring-brand-500 border-gray-300"
-                  checked={userAnswers[qIndex] === oIndex}
-                  onChange={() => handleAnswerChange(qIndex, oIndex)}
-                  disabled={submitted}
-                />
-                <span className="ml-3 text-gray-700 dark:text-gray-300">{option}</span>
-              </label>
-            ))}
+          {q.fromLab && lab && (
+            <span className="inline-block mb-2 px-2 py-0.5 text-xs font-semibold text-brand-700 dark:text-brand-300 bg-brand-100 dark:bg-brand-900/50 rounded-full">🔬 From the lab</span>
+          )}
+          <div className="flex font-semibold text-lg mb-4 text-gray-700 dark:text-gray-200">
+            <span className="mr-2">{qIndex + 1}.</span>
+            <RichText text={q.questionText} />
           </div>
-           {submitted && userAnswers[qIndex] !== q.correctAnswerIndex && (
+          {q.visual && (
+            <div className="mb-4">
+              <Visual spec={q.visual} />
+            </div>
+          )}
+          <QuizQuestionInput
+            question={q}
+            answer={userAnswers[qIndex]}
+            name={`question-${qIndex}`}
+            submitted={submitted}
+            isCorrect={results[qIndex]}
+            onChange={(answer) => handleAnswerChange(qIndex, answer)}
+          />
+           {submitted && !results[qIndex] && (
             <div className="mt-4 p-3 bg-red-50 dark:bg-red-900/30 border-l-4 border-red-400 rounded-r-md text-sm">
-                <p>Your answer: <span className="font-semibold text-red-700 dark:text-red-300">{userAnswers[qIndex] !== null ? q.options[userAnswers[qIndex]!] : 'N/A'}</span></p>
-                <p>Correct answer: <span className="font-semibold text-green-700 dark:text-green-300">{q.options[q.correctAnswerIndex]}</span></p>
+                <p>Your answer: <RichText text={formatQuizAnswer(q, userAnswers[qIndex])} inline className="font-semibold text-red-700 dark:text-red-300" /></p>
+                <p>Correct answer: <RichText text={formatCorrectAnswer(q)} inline className="font-semibold text-green-700 dark:text-green-300" /></p>
             </div>
           )}
         </div>
@@ -129,10 +161,10 @@ const Quiz: React.FC<QuizProps> = ({ quizData, onComplete }) => {
       <div className="mt-6 flex justify-between items-center">
         {!submitted ? (
           <button
-            onClick={handleSubmit}
+            onClick={isPerQuestion && !isLastQuestion ? () => setCurrentQuestion(currentQuestion + 1) : handleSubmit}
             className="px-6 py-2 bg-brand-600 text-white font-semibold rounded-lg hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 transition-colors"
           >
-            Check Answers
+            {isPerQuestion && !isLastQuestion ? 'Next Question' : 'Check Answers'}
           </button>
         ) : (
           <div className="text-xl font-bold text-gray-800 dark:text-white">
@@ -0,0 +1,209 @@
+import React from 'react';
+import type { QuizQuestion, VisualSpec } from '../types';
+import { shuffledIndices, type QuizAnswer } from '../utils/quizQuestions';
+import RichText from './RichText';
+import Visual from './Visual';
+
+interface QuizQuestionInputProps {
+  question: QuizQuestion;
+  answer: QuizAnswer;
+  name: string; // groups the radio buttons of one question
+  submitted: boolean;
+  isCorrect: boolean; // only shown once submitted
+  onChange: (answer: QuizAnswer) => void;
+}
+
+const NEUTRAL = 'border-gray-300 dark:border-gray-600';
+const CORRECT = 'border-green-500 bg-green-100 dark:bg-green-900/50 dark:border-green-600';
+const WRONG = 'border-red-500 bg-red-100 dark:bg-red-900/50 dark:border-red-600';
+
+// Right answers are highlighted once the quiz is checked, and wrong picks are marked in red.
+const choiceClasses = (submitted: boolean, isCorrect: boolean, isSelected: boolean) => {
+  if (!submitted) return NEUTRAL;
+  if (isCorrect) return CORRECT;
+  return isSelected ? WRONG : NEUTRAL;
+};
+
+const textInputClasses = (submitted: boolean, isCorrect: boolean) =>
+  `p-2 border-2 rounded-md dark:bg-gray-700 focus:outline-none focus:border-brand-500 ${submitted ? (isCorrect ? CORRECT : WRONG) : NEUTRAL}`;
+
+interface ChoiceProps {
+  inputType: 'radio' | 'checkbox';
+  name: string;
+  label: string;
+  visual?: VisualSpec;
+  checked: boolean;
+  disabled: boolean;
+  className: string;
+  onChange: () => void;
+}
+
+const Choice: React.FC<ChoiceProps> = ({ inputType, name, label, visual, checked, disabled, className, onChange }) => (
+  <label className={`flex items-center p-3 border-2 rounded-md cursor-pointer transition-colors ${className}`}>
+    <input
+      type={inputType}
+      name={name}
+      className="h-4 w-4 text-brand-600 focus:ring-brand-500 border-gray-300"
+      checked={checked}
+      onChange={onChange}
+      disabled={disabled}
+    />
+    <div className="ml-3 flex-1 min-w-0">
+      <RichText text={label} inline className="text-gray-700 dark:text-gray-300" />
+      {visual && <div className="mt-2 max-w-xs"><Visual spec={visual} compact /></div>}
+    </div>
+  </label>
+);
+
+// The answer controls for one quiz question, whatever its type.
+const QuizQuestionInput: React.FC<QuizQuestionInputProps> = ({ question, answer, name, submitted, isCorrect, onChange }) => {
+  switch (question.type) {
+    case 'multiple-choice': {
+      const choice = answer.type === 'multiple-choice' ? answer.choice : null;
+      return (
+        <div className={question.optionVisuals ? 'grid grid-cols-1 sm:grid-cols-2 gap-3' : 'space-y-3'}>
+          {question.options.map((option, index) => (
+            <Choice
+              key={index}
+              inputType="radio"
+              name={name}
+              label={option}
+              visual={question.optionVisuals?.[index]}
+              checked={choice === index}
+              disabled={submitted}
+              className={choiceClasses(submitted, index === question.correctAnswerIndex, choice === index)}
+              onChange={() => onChange({ type: 'multiple-choice', choice: index })}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    case 'multi-select': {
+      const choices = answer.type === 'multi-select' ? answer.choices : [];
+      const toggle = (index: number) =>
+        onChange({ type: 'multi-select', choices: choices.includes(index) ? choices.filter(choice => choice !== index) : [...choices, index] });
+      return (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-500 dark:text-gray-400">Select all that apply.</p>
+          {question.options.map((option, index) => (
+            <Choice
+              key={index}
+              inputType="checkbox"
+              name={name}
+              label={option}
+              checked={choices.includes(index)}
+              disabled={submitted}
+              className={choiceClasses(submitted, question.correctAnswerIndices.includes(index), choices.includes(index))}
+              onChange={() => toggle(index)}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    case 'true-false': {
+      const value = answer.type === 'true-false' ? answer.value : null;
+      return (
+        <div className="grid grid-cols-2 gap-3">
+          {[true, false].map(option => (
+            <Choice
+              key={String(option)}
+              inputType="radio"
+              name={name}
+              label={option ? 'True' : 'False'}
+              checked={value === option}
+              disabled={submitted}
+              className={choiceClasses(submitted, option === question.answerIsTrue, value === option)}
+              onChange={() => onChange({ type: 'true-false', value: option })}
+            />
+          ))}
+        </div>
+      );
+    }
+
+    case 'numeric':
+    case 'fill-blank': {
+      const text = answer.type === 'numeric' || answer.type === 'fill-blank' ? answer.text : '';
+      return (
+        <div className="flex items-center gap-2">
+          <input
+            type="text"
+            inputMode={question.type === 'numeric' ? 'decimal' : undefined}
+            value={text}
+            onChange={(e) => onChange({ type: question.type, text: e.target.value })}
+            disabled={submitted}
+            placeholder={question.type === 'numeric' ? 'Your answer' : 'Fill in the blank'}
+            aria-label={question.type === 'numeric' ? 'Your answer' : 'Fill in the blank'}
+            className={`w-full sm:w-64 ${textInputClasses(submitted, isCorrect)}`}
+          />
+          {question.type === 'numeric' && question.unit && <span className="text-gray-600 dark:text-gray-300">{question.unit}</span>}
+        </div>
+      );
+    }
+
+    case 'ordering': {
+      const order = answer.type === 'ordering' ? answer.order : [];
+      const move = (position: number, offset: number) => {
+        const next = [...order];
+        [next[position], next[position + offset]] = [next[position + offset], next[position]];
+        onChange({ type: 'ordering', order: next });
+      };
+      return (
+        <ol className="space-y-2">
+          {order.map((itemIndex, position) => (
+            <li
+              key={itemIndex}
+              className={`flex items-center gap-3 p-3 border-2 rounded-md ${submitted ? (itemIndex === position ? CORRECT : WRONG) : NEUTRAL}`}
+            >
+              <span className="font-mono text-sm text-gray-500 dark:text-gray-400">{position + 1}.</span>
+              <RichText text={question.orderedItems[itemIndex]} inline className="flex-1 text-gray-700 dark:text-gray-300" />
+              {!submitted && (
+                <span className="flex gap-1">
+                  <button type="button" onClick={() => move(position, -1)} disabled={position === 0} aria-label="Move up" className="px-2 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40">↑</button>
+                  <button type="button" onClick={() => move(position, 1)} disabled={position === order.length - 1} aria-label="Move down" className="px-2 py-1 text-sm rounded bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 disabled:opacity-40">↓</button>
+                </span>
+              )}
+            </li>
+          ))}
+        </ol>
+      );
+    }
+
+    case 'matching': {
+      const matches = answer.type === 'matching' ? answer.matches : [];
+      const rightOrder = shuffledIndices(question.pairs.length, question.questionText);
+      const choose = (pairIndex: number, value: string) => {
+        const next = [...matches];
+        next[pairIndex] = value === '' ? null : Number(value);
+        onChange({ type: 'matching', matches: next });
+      };
+      return (
+        <div className="space-y-2">
+          {question.pairs.map((pair, pairIndex) => (
+            <div
+              key={pairIndex}
+              className={`flex flex-col sm:flex-row sm:items-center gap-2 p-3 border-2 rounded-md ${submitted ? (matches[pairIndex] === pairIndex ? CORRECT : WRONG) : NEUTRAL}`}
+            >
+              <RichText text={pair.left} inline className="flex-1 text-gray-700 dark:text-gray-300" />
+              <select
+                value={matches[pairIndex] ?? ''}
+                onChange={(e) => choose(pairIndex, e.target.value)}
+                disabled={submitted}
+                aria-label={`Match for ${pair.left}`}
+                className="px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600"
+              >
+                <option value="">Choose...</option>
+                {rightOrder.map(rightIndex => (
+                  <option key={rightIndex} value={rightIndex}>{question.pairs[rightIndex].right}</option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+  }
+};
+
+export default QuizQuestionInput;
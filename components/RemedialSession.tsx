@@ -0,0 +1,111 @@
+import React from 'react';
+import type { AnswerCheckingStrategy, LessonRecord, Mistake, RemediationRecord, TimerSettings } from '../types';
+import type { RemediationResult } from '../utils/remediation';
+import LoadingSpinner from './LoadingSpinner';
+import PracticeProblems from './PracticeProblems';
+import RichText from './RichText';
+
+interface RemedialSessionProps {
+    record: LessonRecord;
+    remediation: RemediationRecord | null;
+    isLoading: boolean;
+    error: string | null;
+    hintsCostPoints: boolean;
+    answerChecking?: AnswerCheckingStrategy;
+    timerSettings?: TimerSettings;
+    onGenerate: () => void; // makes a new remedial lesson, replacing the one shown
+    onComplete: (result: RemediationResult) => void;
+    onClose: () => void;
+}
+
+// A short lesson built from the mistakes in one finished lesson: what probably went wrong with
+// each answer, a re-explanation, and a few new problems on the same ideas.
+const RemedialSession: React.FC<RemedialSessionProps> = ({ record, remediation, isLoading, error, hintsCostPoints, answerChecking, timerSettings, onGenerate, onComplete, onClose }) => {
+    const remedialLesson = remediation?.remedialLesson;
+
+    const handleProblemsComplete = (score: number, total: number, timeTaken: number, _mistakes: Mistake[], hintsUsed: number) => {
+        onComplete({ score, total, timeTaken, hintsUsed });
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4 animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    <div>
+                        <h2 className="text-2xl font-bold text-brand-600 dark:text-brand-400">Fix My Mistakes</h2>
+                        <p className="text-sm text-gray-500 dark:text-gray-400">{record.topic} · {new Date(record.date).toLocaleDateString()}</p>
+                    </div>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 text-2xl leading-none">&times;</button>
+                </header>
+
+                <main className="p-6 overflow-y-auto space-y-6">
+                    {isLoading && (
+                        <div className="flex flex-col items-center gap-4 py-8">
+                            <LoadingSpinner />
+                            <p className="text-gray-600 dark:text-gray-300">Looking at what went wrong...</p>
+                        </div>
+                    )}
+
+                    {!isLoading && error && (
+                        <div className="p-4 bg-red-100 dark:bg-red-900/50 border-l-4 border-red-500 rounded-md text-red-800 dark:text-red-200">
+                            <p>{error}</p>
+                            <button onClick={onGenerate} className="mt-2 text-sm font-semibold underline hover:no-underline">Try again</button>
+                        </div>
+                    )}
+
+                    {!isLoading && remedialLesson && (
+                        <>
+                            <section className="space-y-3">
+                                <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-200">What went wrong</h3>
+                                {remedialLesson.diagnoses.map((diagnosis, index) => (
+                                    <div key={index} className="p-4 border-l-4 border-orange-400 bg-gray-50 dark:bg-gray-900/50 rounded-r-lg space-y-2">
+                                        <RichText text={diagnosis.mistake.questionText} className="font-semibold text-gray-800 dark:text-gray-100" />
+                                        <p className="text-sm">
+                                            You answered <RichText text={diagnosis.mistake.userAnswer} inline className="font-mono text-red-700 dark:text-red-300" />;
+                                            {' '}the answer is <RichText text={diagnosis.mistake.correctAnswer} inline className="font-mono text-green-700 dark:text-green-300" />.
+                                        </p>
+                                        <div className="text-sm text-gray-700 dark:text-gray-300">
+                                            <span className="font-semibold">What probably happened: </span>
+                                            <RichText text={diagnosis.misconception} inline />
+                                        </div>
+                                        <RichText text={diagnosis.explanation} className="text-sm text-gray-600 dark:text-gray-400" />
+                                    </div>
+                                ))}
+                            </section>
+
+                            <section className="p-6 bg-brand-50 dark:bg-brand-900/20 rounded-lg">
+                                <h3 className="text-xl font-semibold text-brand-600 dark:text-brand-400 mb-3"><RichText text={remedialLesson.title} inline /></h3>
+                                <RichText text={remedialLesson.explanation} className="text-gray-700 dark:text-gray-300 leading-relaxed" />
+                            </section>
+
+                            {remediation?.completedAt ? (
+                                <div className="p-4 bg-green-100 dark:bg-green-900/50 border-l-4 border-green-500 rounded-md text-green-800 dark:text-green-200">
+                                    <h3 className="font-bold text-lg">Nice work!</h3>
+                                    <p>You scored {remediation.problemsScore}/{remediation.problemsTotal} on the new problems. It's saved with this lesson in your dashboard.</p>
+                                    <button onClick={onGenerate} className="mt-2 text-sm font-semibold underline hover:no-underline">Give me new problems</button>
+                                </div>
+                            ) : (
+                                <PracticeProblems
+                                    key={remediation?.id}
+                                    problemsData={remedialLesson.practiceProblems}
+                                    hintsCostPoints={hintsCostPoints}
+                                    answerChecking={answerChecking}
+                                    timerSettings={timerSettings}
+                                    onComplete={handleProblemsComplete}
+                                />
+                            )}
+                        </>
+                    )}
+                </main>
+            </div>
+        </div>
+    );
+};
+
+export default RemedialSession;
@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import type { ReviewDeck, ReviewGrade, MistakeSource } from '../types';
+import { getDueItems } from '../utils/review';
+import RichText from './RichText';
+
+interface ReviewSessionProps {
+    deck: ReviewDeck;
+    onGrade: (itemId: string, grade: ReviewGrade) => void;
+    onClose: () => void;
+}
+
+type SourceFilter = 'all' | MistakeSource;
+
+const SOURCE_LABELS: Record<SourceFilter, string> = {
+    all: 'Everything',
+    quiz: 'Quiz Questions',
+    problems: 'Practice Problems',
+};
+
+const GRADE_BUTTONS: { grade: ReviewGrade; label: string; className: string }[] = [
+    { grade: 1, label: 'Forgot', className: 'bg-red-500 hover:bg-red-600' },
+    { grade: 3, label: 'Hard', className: 'bg-orange-500 hover:bg-orange-600' },
+    { grade: 4, label: 'Good', className: 'bg-brand-600 hover:bg-brand-700' },
+    { grade: 5, label: 'Easy', className: 'bg-green-600 hover:bg-green-700' },
+];
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ deck, onGrade, onClose }) => {
+    const [sourceFilter, setSourceFilter] = useState<SourceFilter>('all');
+    const [isRevealed, setIsRevealed] = useState(false);
+    const [reviewedCount, setReviewedCount] = useState(0);
+
+    const dueItems = getDueItems(deck, sourceFilter === 'all' ? undefined : sourceFilter);
+    const currentItem = dueItems[0];
+
+    const handleGrade = (grade: ReviewGrade) => {
+        if (!currentItem) return;
+        onGrade(currentItem.id, grade);
+        setIsRevealed(false);
+        setReviewedCount(count => count + 1);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4 animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-2xl max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-brand-600 dark:text-brand-400">Review Mistakes</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 text-2xl leading-none">&times;</button>
+                </header>
+
+                <main className="p-6 overflow-y-auto">
+                    <div className="flex flex-wrap gap-2 rounded-md bg-gray-100 dark:bg-gray-700 p-1 mb-6">
+                        {(Object.keys(SOURCE_LABELS) as SourceFilter[]).map(filter => (
+                            <button
+                                key={filter}
+                                onClick={() => {
+                                    setSourceFilter(filter);
+                                    setIsRevealed(false);
+                                }}
+                                className={`px-3 py-1.5 text-sm font-medium rounded-md flex-1 transition-colors ${sourceFilter === filter ? 'bg-white dark:bg-gray-800 text-brand-600 dark:text-brand-400 shadow-sm' : 'text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+                            >
+                                {SOURCE_LABELS[filter]} ({getDueItems(deck, filter === 'all' ? undefined : filter).length})
+                            </button>
+                        ))}
+                    </div>
+
+                    {currentItem ? (
+                        <div className="space-y-4">
+                            <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                                <span>{currentItem.topic} · {currentItem.source === 'quiz' ? 'Quiz' : 'Practice Problem'}</span>
+                                <span>{dueItems.length} left today</span>
+                            </div>
+                            <div className="p-6 border-2 border-brand-200 dark:border-brand-800 rounded-lg bg-gray-50 dark:bg-gray-900/50 min-h-[8rem]">
+                                <RichText text={currentItem.questionText} className="text-lg font-semibold text-gray-800 dark:text-white" />
+                                {isRevealed && (
+                                    <div className="mt-4 pt-4 border-t border-gray-200 dark:border-gray-700 space-y-1 animate-fade-in">
+                                        <p>Correct Answer: <RichText text={currentItem.correctAnswer} inline className="font-mono font-bold text-green-700 dark:text-green-300" /></p>
+                                        <p className="text-sm text-gray-500 dark:text-gray-400">Last time you answered: <RichText text={currentItem.lastWrongAnswer} inline className="font-mono text-red-700 dark:text-red-300" /></p>
+                                    </div>
+                                )}
+                            </div>
+                            {!isRevealed ? (
+                                <button
+                                    onClick={() => setIsRevealed(true)}
+                                    className="w-full px-6 py-3 bg-brand-600 text-white font-semibold rounded-lg hover:bg-brand-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-brand-500 transition-colors"
+                                >
+                                    Show Answer
+                                </button>
+                            ) : (
+                                <div>
+                                    <p className="text-sm text-center text-gray-600 dark:text-gray-300 mb-2">How well did you remember it?</p>
+                                    <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                                        {GRADE_BUTTONS.map(({ grade, label, className }) => (
+                                            <button
+                                                key={grade}
+                                                onClick={() => handleGrade(grade)}
+                                                className={`px-4 py-2 text-white font-semibold rounded-lg transition-colors ${className}`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                </div>
+                            )}
+                        </div>
+                    ) : (
+                        <div className="text-center py-8 bg-gray-50 dark:bg-gray-700/50 rounded-lg">
+                            <p className="text-4xl mb-2">🎉</p>
+                            <p className="text-gray-600 dark:text-gray-300">
+                                {reviewedCount > 0 ? `All caught up! You reviewed ${reviewedCount} card(s).` : 'Nothing due for review right now.'}
+                            </p>
+                        </div>
+                    )}
+                </main>
+            </div>
+        </div>
+    );
+};
+
+export default ReviewSession;
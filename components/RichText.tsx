@@ -0,0 +1,19 @@
+import React, { useMemo } from 'react';
+import { renderRichText } from '../utils/richText';
+
+interface RichTextProps {
+    text: string;
+    // Inline text (quiz options, answers) renders inside a span with no paragraphs or lists.
+    inline?: boolean;
+    className?: string;
+}
+
+const RichText: React.FC<RichTextProps> = ({ text, inline = false, className }) => {
+    const html = useMemo(() => renderRichText(text, { inline }), [text, inline]);
+    // renderRichText escapes everything it doesn't generate itself, so this is safe.
+    return inline
+        ? <span className={className} dangerouslySetInnerHTML={{ __html: html }} />
+        : <div className={`rich-text ${className ?? ''}`} dangerouslySetInnerHTML={{ __html: html }} />;
+};
+
+export default RichText;
@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { formatTime } from '../utils/timer';
+
+export interface SessionTimerState {
+    elapsed: number; // seconds the timer has run, not counting pauses
+    remaining: number | null; // of the current countdown; null when untimed
+    isTimeUp: boolean;
+    isPaused: boolean;
+    setIsPaused: (isPaused: boolean) => void;
+}
+
+// Runs the clock for a quiz or problem set. With a limit it stops at isTimeUp (the caller then
+// submits, or moves on to the next question); without one it just counts up. A new `lap` starts
+// the countdown again for per-question timing, while `elapsed` keeps the total. It stops for good
+// once the set is submitted.
+export const useSessionTimer = (limitSeconds: number | null, isStopped: boolean, lap = 0): SessionTimerState => {
+    const [elapsed, setElapsed] = useState<number>(0);
+    const [isPaused, setIsPaused] = useState<boolean>(false);
+    const [lapStart, setLapStart] = useState<{ lap: number; elapsed: number }>({ lap, elapsed: 0 });
+    // Restarted while rendering rather than in an effect, so the new lap never sees the last one's time-up.
+    if (lapStart.lap !== lap) {
+        setLapStart({ lap, elapsed });
+    }
+    const lapElapsed = lapStart.lap === lap ? elapsed - lapStart.elapsed : 0;
+    const isTimeUp = limitSeconds !== null && lapElapsed >= limitSeconds;
+
+    useEffect(() => {
+        if (isStopped || isPaused || isTimeUp) return;
+
+        const timerId = setInterval(() => {
+            setElapsed((prevTime) => prevTime + 1);
+        }, 1000);
+
+        return () => clearInterval(timerId);
+    }, [isStopped, isPaused, isTimeUp]);
+
+    return {
+        elapsed,
+        remaining: limitSeconds === null ? null : Math.max(0, limitSeconds - lapElapsed),
+        isTimeUp,
+        isPaused,
+        setIsPaused,
+    };
+};
+
+interface SessionTimerProps {
+    timer: SessionTimerState;
+    allowPause: boolean;
+    // Set when timing per question: which question the countdown is for.
+    question?: { number: number; count: number };
+}
+
+// The clock shown above a quiz or problem set, with Pause/Resume when the profile allows it.
+const SessionTimer: React.FC<SessionTimerProps> = ({ timer, allowPause, question }) => (
+    <div className="flex items-center gap-2">
+        {question && (
+            <span className="text-sm font-medium text-gray-500 dark:text-gray-400">Question {question.number} of {question.count}</span>
+        )}
+        <div className="text-lg font-mono bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-white px-3 py-1 rounded-md">
+            {timer.remaining === null ? `Time: ${formatTime(timer.elapsed)}` : `Time Left: ${formatTime(timer.remaining)}`}
+        </div>
+        {allowPause && (
+            <button
+                onClick={() => timer.setIsPaused(!timer.isPaused)}
+                className="px-3 py-1.5 text-sm font-semibold bg-gray-200 dark:bg-gray-700 rounded-md hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+            >
+                {timer.isPaused ? '▶ Resume' : '⏸ Pause'}
+            </button>
+        )}
+    </div>
+);
+
+// Shown instead of the questions while the timer is paused, so pausing doesn't add thinking time.
+export const PausedNotice: React.FC<{ onResume: () => void }> = ({ onResume }) => (
+    <div className="p-8 text-center bg-white dark:bg-gray-800 rounded-lg shadow-sm border">
+        <p className="text-lg font-semibold text-gray-700 dark:text-gray-200">⏸ Paused</p>
+        <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">The questions are hidden while the timer is paused.</p>
+        <button
+            onClick={onResume}
+            className="mt-4 px-6 py-2 bg-brand-600 text-white font-semibold rounded-lg hover:bg-brand-700 transition-colors"
+        >
+            Resume
+        </button>
+    </div>
+);
+
+export default SessionTimer;
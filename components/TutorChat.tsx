@@ -0,0 +1,115 @@
+import React, { useEffect, useRef, useState } from 'react';
+import type { TutorMessage } from '../types';
+import RichText from './RichText';
+
+const MAX_QUESTION_LENGTH = 500;
+
+interface TutorChatProps {
+    topic: string;
+    messages: TutorMessage[];
+    pendingReply: string | null; // the tutor's reply while it streams in
+    isSending: boolean;
+    error: string | null;
+    isQuizInProgress: boolean;
+    onSend: (question: string) => void;
+    onClear: () => void;
+    onClose: () => void;
+}
+
+// A side panel for follow-up questions about the open lesson.
+const TutorChat: React.FC<TutorChatProps> = ({ topic, messages, pendingReply, isSending, error, isQuizInProgress, onSend, onClear, onClose }) => {
+    const [draft, setDraft] = useState('');
+    const bottomRef = useRef<HTMLDivElement>(null);
+
+    useEffect(() => {
+        bottomRef.current?.scrollIntoView?.({ behavior: 'smooth' });
+    }, [messages, pendingReply, isSending]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const question = draft.trim();
+        if (!question || isSending) return;
+        onSend(question);
+        setDraft('');
+    };
+
+    return (
+        <aside className="fixed inset-y-0 right-0 z-40 w-full sm:w-96 bg-white dark:bg-gray-800 shadow-2xl border-l border-gray-200 dark:border-gray-700 flex flex-col animate-fade-in">
+            <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                <div>
+                    <h2 className="text-xl font-bold text-brand-600 dark:text-brand-400">Ask the Tutor</h2>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">About: {topic}</p>
+                </div>
+                <div className="flex items-center gap-3">
+                    {messages.length > 0 && (
+                        <button onClick={onClear} disabled={isSending} className="text-xs font-medium text-gray-500 hover:underline disabled:opacity-50">
+                            Clear
+                        </button>
+                    )}
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 text-2xl leading-none">&times;</button>
+                </div>
+            </header>
+
+            {isQuizInProgress && (
+                <div className="px-4 py-2 text-sm bg-yellow-100 dark:bg-yellow-900/40 text-yellow-800 dark:text-yellow-200">
+                    ⏱ Quiz in progress: the tutor will give hints, not answers.
+                </div>
+            )}
+
+            <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                {messages.length === 0 && !isSending && (
+                    <p className="text-sm text-center text-gray-500 dark:text-gray-400 py-8">
+                        Stuck on something? Ask a question about this lesson and the tutor will help you work it out.
+                    </p>
+                )}
+                {messages.map((message, index) => (
+                    <div key={index} className={`flex ${message.role === 'student' ? 'justify-end' : 'justify-start'}`}>
+                        <div
+                            className={`max-w-[85%] px-3 py-2 rounded-lg text-sm ${
+                                message.role === 'student'
+                                    ? 'bg-brand-600 text-white'
+                                    : message.offTopic
+                                        ? 'bg-yellow-50 dark:bg-yellow-900/30 text-gray-800 dark:text-gray-100 border border-yellow-300 dark:border-yellow-700'
+                                        : 'bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100'
+                            }`}
+                        >
+                            {message.role === 'student' ? <p className="whitespace-pre-wrap">{message.text}</p> : <RichText text={message.text} />}
+                        </div>
+                    </div>
+                ))}
+                {isSending && (
+                    <div className="flex justify-start">
+                        <div className="max-w-[85%] px-3 py-2 rounded-lg text-sm bg-gray-100 dark:bg-gray-700 text-gray-800 dark:text-gray-100">
+                            {pendingReply ? <RichText text={pendingReply} /> : <span className="text-gray-500 animate-pulse">Thinking...</span>}
+                        </div>
+                    </div>
+                )}
+                {error && (
+                    <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+                )}
+                <div ref={bottomRef} />
+            </div>
+
+            <form onSubmit={handleSubmit} className="p-3 border-t border-gray-200 dark:border-gray-700 flex gap-2">
+                <input
+                    type="text"
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    maxLength={MAX_QUESTION_LENGTH}
+                    placeholder="Ask a question..."
+                    aria-label="Question for the tutor"
+                    className="flex-1 p-2 border-2 border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 focus:outline-none focus:border-brand-500"
+                />
+                <button
+                    type="submit"
+                    disabled={isSending || !draft.trim()}
+                    className="px-4 py-2 text-sm font-semibold text-white bg-brand-600 rounded-md hover:bg-brand-700 disabled:bg-brand-300 disabled:cursor-not-allowed transition-colors"
+                >
+                    Send
+                </button>
+            </form>
+        </aside>
+    );
+};
+
+export default TutorChat;
@@ -0,0 +1,200 @@
+import React, { useState } from 'react';
+import type { UsageEntry } from '../types';
+import {
+    loadUsageLog, clearUsageLog, loadUsageSettings, saveUsageSettings, summarizeUsage, entriesForDay, entriesForMonth,
+    getDailyTotals, isPricedModel, formatUsd,
+} from '../utils/usage';
+import { toDateKey } from '../utils/review';
+
+interface UsagePanelProps {
+    onClose: () => void;
+}
+
+type UsagePeriod = 'today' | 'month';
+
+const HISTORY_DAYS = 14;
+
+const formatTokens = (tokens: number): string =>
+    tokens >= 1_000_000 ? `${(tokens / 1_000_000).toFixed(1)}M` : tokens >= 1_000 ? `${(tokens / 1_000).toFixed(1)}k` : String(tokens);
+
+const SummaryCard: React.FC<{ label: string; entries: UsageEntry[] }> = ({ label, entries }) => {
+    const { total } = summarizeUsage(entries);
+    return (
+        <div className="bg-gray-100 dark:bg-gray-700 p-4 rounded-lg">
+            <div className="text-gray-500 dark:text-gray-400 text-sm font-medium">{label}</div>
+            <div className="text-gray-800 dark:text-white text-2xl font-bold">{formatUsd(total.costUsd)}</div>
+            <div className="text-sm text-gray-600 dark:text-gray-300">
+                {total.requests} requests · {formatTokens(total.inputTokens + total.outputTokens)} tokens
+                {total.failures > 0 && ` · ${total.failures} failed`}
+            </div>
+        </div>
+    );
+};
+
+// Shows how much the API key has been used on this device, and lets a parent or teacher set a
+// daily spending limit. Costs are estimates from token counts and published prices.
+const UsagePanel: React.FC<UsagePanelProps> = ({ onClose }) => {
+    const [log, setLog] = useState<UsageEntry[]>(loadUsageLog);
+    const [budgetInput, setBudgetInput] = useState<string>(() => {
+        const { dailyBudgetUsd } = loadUsageSettings();
+        return dailyBudgetUsd === null ? '' : String(dailyBudgetUsd);
+    });
+    const [period, setPeriod] = useState<UsagePeriod>('today');
+
+    const now = new Date();
+    const todayEntries = entriesForDay(log, toDateKey(now));
+    const monthEntries = entriesForMonth(log, toDateKey(now).slice(0, 7));
+    const { byModel } = summarizeUsage(period === 'today' ? todayEntries : monthEntries);
+    const history = getDailyTotals(log, HISTORY_DAYS, now);
+    const maxDailyRequests = Math.max(1, ...history.map(day => day.totals.requests));
+
+    const budget = budgetInput.trim() === '' ? null : Number(budgetInput);
+    const isBudgetValid = budget === null || (Number.isFinite(budget) && budget >= 0);
+    const todaySpend = summarizeUsage(todayEntries).total.costUsd;
+
+    const handleBudgetChange = (value: string) => {
+        setBudgetInput(value);
+        const amount = value.trim() === '' ? null : Number(value);
+        if (amount === null || (Number.isFinite(amount) && amount >= 0)) {
+            saveUsageSettings({ dailyBudgetUsd: amount });
+        }
+    };
+
+    const handleClearLog = () => {
+        if (!window.confirm('Clear the usage history on this device? The daily budget setting is kept.')) return;
+        clearUsageLog();
+        setLog([]);
+    };
+
+    return (
+        <div
+            className="fixed inset-0 bg-black/60 z-50 flex justify-center items-center p-4 animate-fade-in"
+            onClick={onClose}
+        >
+            <div
+                className="bg-white dark:bg-gray-800 rounded-xl shadow-2xl w-full max-w-3xl max-h-[90vh] flex flex-col"
+                onClick={(e) => e.stopPropagation()}
+            >
+                <header className="p-4 border-b border-gray-200 dark:border-gray-700 flex justify-between items-center">
+                    <h2 className="text-2xl font-bold text-brand-600 dark:text-brand-400">AI Usage</h2>
+                    <button onClick={onClose} className="text-gray-400 hover:text-gray-600 dark:hover:text-gray-200 text-2xl leading-none">&times;</button>
+                </header>
+
+                <main className="p-6 overflow-y-auto space-y-8">
+                    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                        <SummaryCard label="Today" entries={todayEntries} />
+                        <SummaryCard label="This month" entries={monthEntries} />
+                    </div>
+
+                    <section>
+                        <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-200 mb-2">Daily Budget</h3>
+                        <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                            New lessons and other AI requests are blocked for the rest of the day once the estimated cost reaches this amount. Leave it empty for no limit.
+                        </p>
+                        <div className="flex items-center gap-2">
+                            <span className="text-gray-500">$</span>
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.05"
+                                value={budgetInput}
+                                onChange={(e) => handleBudgetChange(e.target.value)}
+                                placeholder="No limit"
+                                aria-label="Daily budget in US dollars"
+                                className={`w-32 p-2 border-2 rounded-md dark:bg-gray-700 ${isBudgetValid ? 'border-gray-300 dark:border-gray-600' : 'border-red-500'}`}
+                            />
+                            <span className="text-sm text-gray-500 dark:text-gray-400">per day</span>
+                        </div>
+                        {budget !== null && isBudgetValid && (
+                            <div className="mt-3">
+                                <div className="h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                                    <div
+                                        className={`h-full ${todaySpend >= budget ? 'bg-red-500' : 'bg-brand-500'}`}
+                                        style={{ width: `${budget > 0 ? Math.min(100, (todaySpend / budget) * 100) : 100}%` }}
+                                    />
+                                </div>
+                                <p className={`mt-1 text-sm ${todaySpend >= budget ? 'text-red-600 dark:text-red-400 font-semibold' : 'text-gray-500 dark:text-gray-400'}`}>
+                                    {formatUsd(todaySpend)} of {formatUsd(budget)} used today{todaySpend >= budget && ' — generation is paused until tomorrow'}
+                                </p>
+                            </div>
+                        )}
+                    </section>
+
+                    <section>
+                        <div className="flex justify-between items-center mb-3">
+                            <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-200">By Model</h3>
+                            <div className="flex gap-1 rounded-md bg-gray-100 dark:bg-gray-700 p-1">
+                                {(['today', 'month'] as UsagePeriod[]).map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => setPeriod(option)}
+                                        className={`px-3 py-1 text-sm font-medium rounded-md transition-colors ${period === option ? 'bg-white dark:bg-gray-800 text-brand-600 dark:text-brand-400 shadow-sm' : 'text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+                                    >
+                                        {option === 'today' ? 'Today' : 'This month'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {byModel.length > 0 ? (
+                            <div className="overflow-x-auto">
+                                <table className="w-full text-sm text-left">
+                                    <thead className="text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-700">
+                                        <tr>
+                                            <th className="py-2 pr-4 font-medium">Model</th>
+                                            <th className="py-2 pr-4 font-medium text-right">Requests</th>
+                                            <th className="py-2 pr-4 font-medium text-right">Input tokens</th>
+                                            <th className="py-2 pr-4 font-medium text-right">Output tokens</th>
+                                            <th className="py-2 font-medium text-right">Est. cost</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody>
+                                        {byModel.map(row => (
+                                            <tr key={row.model} className="border-b border-gray-100 dark:border-gray-700/50">
+                                                <td className="py-2 pr-4 font-mono">{row.model}</td>
+                                                <td className="py-2 pr-4 text-right">
+                                                    {row.requests}
+                                                    {row.failures > 0 && <span className="text-red-500"> ({row.failures} failed)</span>}
+                                                </td>
+                                                <td className="py-2 pr-4 text-right">{formatTokens(row.inputTokens)}</td>
+                                                <td className="py-2 pr-4 text-right">{formatTokens(row.outputTokens)}</td>
+                                                <td className="py-2 text-right">{isPricedModel(row.model) ? formatUsd(row.costUsd) : 'not priced'}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        ) : (
+                            <p className="text-gray-500 dark:text-gray-400">No AI requests {period === 'today' ? 'today' : 'this month'}.</p>
+                        )}
+                    </section>
+
+                    <section>
+                        <h3 className="text-xl font-semibold text-gray-700 dark:text-gray-200 mb-3">Last {HISTORY_DAYS} Days</h3>
+                        <div className="flex items-end gap-1 h-24" role="img" aria-label={`Requests per day over the last ${HISTORY_DAYS} days`}>
+                            {history.map(({ dateKey, totals }) => (
+                                <div
+                                    key={dateKey}
+                                    title={`${dateKey}: ${totals.requests} requests, ${formatUsd(totals.costUsd)}`}
+                                    className="flex-1 bg-brand-400 dark:bg-brand-600 rounded-t"
+                                    style={{ height: `${(totals.requests / maxDailyRequests) * 100}%`, minHeight: totals.requests > 0 ? '4px' : '0' }}
+                                />
+                            ))}
+                        </div>
+                        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-1">
+                            <span>{history[0].dateKey}</span>
+                            <span>Today</span>
+                        </div>
+                    </section>
+
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                        Costs are estimates based on token counts and published paid-tier prices; your actual bill may differ. Self-hosted models and the offline demo are counted but not priced.
+                        {' '}
+                        <button onClick={handleClearLog} className="font-semibold underline hover:no-underline">Clear usage history</button>
+                    </p>
+                </main>
+            </div>
+        </div>
+    );
+};
+
+export default UsagePanel;
@@ -0,0 +1,95 @@
+import React, { useCallback, useState } from 'react';
+import type { LabNotebook, VirtualLab as VirtualLabType } from '../types';
+import { LAB_SIMULATION_NAMES } from '../utils/labs';
+import LabSimulation from './LabSimulation';
+import RichText from './RichText';
+
+interface VirtualLabProps {
+    lab: VirtualLabType;
+    notebook: LabNotebook;
+    onNotebookChange: (notebook: LabNotebook) => void;
+}
+
+// The lab section of a lesson in a subject with labs: the simulation, plus a notebook where the
+// student saves readings and answers the observation prompts. The quiz's lab questions show the notebook.
+const VirtualLab: React.FC<VirtualLabProps> = ({ lab, notebook, onNotebookChange }) => {
+    const [reading, setReading] = useState<string>('');
+    const handleReadingChange = useCallback((next: string) => setReading(next), []);
+    const isRecorded = notebook.readings.includes(reading);
+
+    const handleRecord = () => {
+        if (!reading || isRecorded) return;
+        onNotebookChange({ ...notebook, readings: [...notebook.readings, reading] });
+    };
+
+    const handleRemoveReading = (index: number) => {
+        onNotebookChange({ ...notebook, readings: notebook.readings.filter((_, i) => i !== index) });
+    };
+
+    const handleAnswerChange = (index: number, answer: string) => {
+        const answers = [...notebook.answers];
+        answers[index] = answer;
+        onNotebookChange({ ...notebook, answers });
+    };
+
+    return (
+        <div className="space-y-6 animate-fade-in">
+            <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
+                <p className="text-sm font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">🔬 Virtual lab · {LAB_SIMULATION_NAMES[lab.settings.simulation]}</p>
+                <h3 className="text-2xl font-semibold text-brand-600 dark:text-brand-400 mt-1 mb-3"><RichText text={lab.title} inline /></h3>
+                <p className="font-semibold text-gray-700 dark:text-gray-200"><RichText text={lab.goal} inline /></p>
+                <ol className="mt-3 list-decimal list-inside space-y-1 text-gray-600 dark:text-gray-300">
+                    {lab.instructions.map((instruction, index) => (
+                        <li key={index}><RichText text={instruction} inline /></li>
+                    ))}
+                </ol>
+            </div>
+
+            <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md space-y-4">
+                <LabSimulation settings={lab.settings} onReadingChange={handleReadingChange} />
+                <div className="flex flex-col sm:flex-row sm:items-center gap-3 pt-4 border-t border-gray-200 dark:border-gray-700">
+                    <p className="flex-1 text-sm font-mono text-gray-600 dark:text-gray-300">{reading}</p>
+                    <button
+                        onClick={handleRecord}
+                        disabled={!reading || isRecorded}
+                        className="px-5 py-2 text-sm font-semibold text-white bg-brand-500 rounded-md hover:bg-brand-600 disabled:bg-brand-300 disabled:cursor-not-allowed transition-colors"
+                    >
+                        {isRecorded ? '✓ Recorded' : '📝 Record'}
+                    </button>
+                </div>
+            </div>
+
+            <div className="p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md">
+                <h3 className="text-2xl font-semibold text-brand-600 dark:text-brand-400 mb-4">Lab Notebook</h3>
+                {notebook.readings.length === 0 ? (
+                    <p className="text-sm text-gray-500 dark:text-gray-400">No readings yet. Run the simulation and press Record to save what you see.</p>
+                ) : (
+                    <ul className="space-y-2">
+                        {notebook.readings.map((saved, index) => (
+                            <li key={index} className="flex items-start gap-3 p-2 text-sm bg-gray-50 dark:bg-gray-900/50 rounded-md">
+                                <span className="flex-1 font-mono text-gray-700 dark:text-gray-200">{saved}</span>
+                                <button onClick={() => handleRemoveReading(index)} aria-label="Remove reading" className="text-gray-400 hover:text-red-500">✕</button>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                <div className="mt-6 space-y-4">
+                    {lab.observationPrompts.map((prompt, index) => (
+                        <label key={index} className="block">
+                            <span className="font-semibold text-gray-700 dark:text-gray-200"><RichText text={prompt} inline /></span>
+                            <textarea
+                                value={notebook.answers[index] ?? ''}
+                                onChange={(e) => handleAnswerChange(index, e.target.value)}
+                                rows={2}
+                                placeholder="What did you observe?"
+                                className="mt-1 w-full p-2 border border-gray-300 rounded-md shadow-sm focus:ring-brand-500 focus:border-brand-500 dark:bg-gray-700 dark:border-gray-600"
+                            />
+                        </label>
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default VirtualLab;
@@ -0,0 +1,500 @@
+import React, { useId, useMemo, useRef, useState } from 'react';
+import type { ChartVisual, GeometryShape, GeometryVisual, GraphVisual, NumberLineVisual, VisualPoint, VisualSpec } from '../types';
+import { compileGraphExpression, describeVisual, formatNumber, niceStep, ticksBetween, type GraphFunction } from '../utils/visuals';
+
+// Draws the declarative figures in lessons and quiz questions as SVG. Graphs can be explored:
+// parameters become sliders and draggable points can be moved around the grid.
+
+interface VisualProps {
+    spec: VisualSpec;
+    // For small figures such as quiz options: no sliders, dragging or legend, which could give the answer away.
+    compact?: boolean;
+}
+
+const COLORS = ['#0284c7', '#dc2626', '#16a34a', '#9333ea', '#ea580c', '#ca8a04', '#0d9488', '#db2777', '#4f46e5', '#65a30d', '#e11d48', '#475569'];
+
+const LABEL_CLASS = 'fill-gray-700 dark:fill-gray-200';
+const MUTED_LABEL_CLASS = 'fill-gray-500 dark:fill-gray-400';
+const SHAPE_CLASS = 'stroke-brand-600 dark:stroke-brand-400';
+
+type ScreenPoint = { x: number; y: number };
+
+const unit = (from: ScreenPoint, to: ScreenPoint): ScreenPoint => {
+    const length = Math.hypot(to.x - from.x, to.y - from.y) || 1;
+    return { x: (to.x - from.x) / length, y: (to.y - from.y) / length };
+};
+
+// --- Graphs ---
+const GRAPH_WIDTH = 400;
+const GRAPH_PADDING = 28;
+const GRAPH_SAMPLES = 240;
+
+const GraphFigure: React.FC<{ spec: GraphVisual; compact: boolean }> = ({ spec, compact }) => {
+    const interactive = !compact;
+    const clipId = `graph-clip-${useId().replace(/:/g, '')}`; // useId's colons aren't valid in url(#...)
+    const svgRef = useRef<SVGSVGElement>(null);
+    const [parameters, setParameters] = useState<Record<string, number>>(() =>
+        Object.fromEntries(spec.parameters.map(parameter => [parameter.name, parameter.value])));
+    const [points, setPoints] = useState(spec.points);
+    const [dragging, setDragging] = useState<number | null>(null);
+
+    const [xMin, xMax] = spec.xRange;
+    const [yMin, yMax] = spec.yRange;
+    // Keep one unit the same length on both axes where that gives a sensible height, so slopes look right.
+    const height = Math.round(Math.min(Math.max(GRAPH_WIDTH * (yMax - yMin) / (xMax - xMin), 240), 420));
+    const plotWidth = GRAPH_WIDTH - 2 * GRAPH_PADDING;
+    const plotHeight = height - 2 * GRAPH_PADDING;
+    const toScreen = (x: number, y: number): ScreenPoint => ({
+        x: GRAPH_PADDING + ((x - xMin) / (xMax - xMin)) * plotWidth,
+        y: GRAPH_PADDING + ((yMax - y) / (yMax - yMin)) * plotHeight,
+    });
+    const xStep = niceStep(xMax - xMin);
+    const yStep = niceStep(yMax - yMin);
+
+    const functions = useMemo(() => spec.functions.flatMap((fn, index) => {
+        try {
+            return [{ ...fn, color: COLORS[index % COLORS.length], evaluate: compileGraphExpression(fn.expression, spec.parameters.map(parameter => parameter.name)) }];
+        } catch (err) {
+            console.error("Could not draw graph expression:", err);
+            return [];
+        }
+    }), [spec.functions, spec.parameters]);
+
+    // Break the curve where it is undefined or leaves the plot far behind (e.g. at an asymptote).
+    const buildPath = (evaluate: GraphFunction): string => {
+        const limit = (yMax - yMin) * 10;
+        let path = '';
+        let penDown = false;
+        for (let i = 0; i <= GRAPH_SAMPLES; i++) {
+            const x = xMin + ((xMax - xMin) * i) / GRAPH_SAMPLES;
+            const y = evaluate(x, parameters);
+            if (!Number.isFinite(y) || y > yMax + limit || y < yMin - limit) {
+                penDown = false;
+                continue;
+            }
+            const point = toScreen(x, y);
+            path += `${penDown ? 'L' : 'M'}${point.x.toFixed(1)},${point.y.toFixed(1)}`;
+            penDown = true;
+        }
+        return path;
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        if (dragging === null || !svgRef.current) return;
+        const rect = svgRef.current.getBoundingClientRect();
+        const screenX = ((e.clientX - rect.left) / rect.width) * GRAPH_WIDTH;
+        const screenY = ((e.clientY - rect.top) / rect.height) * height;
+        const snap = (value: number, step: number, min: number, max: number) =>
+            Math.min(max, Math.max(min, Number((Math.round(value / step) * step).toFixed(10))));
+        const x = snap(xMin + ((screenX - GRAPH_PADDING) / plotWidth) * (xMax - xMin), xStep, xMin, xMax);
+        const y = snap(yMax - ((screenY - GRAPH_PADDING) / plotHeight) * (yMax - yMin), yStep, yMin, yMax);
+        setPoints(current => current.map((point, index) => (index === dragging ? { ...point, x, y } : point)));
+    };
+
+    const origin = toScreen(Math.min(Math.max(0, xMin), xMax), Math.min(Math.max(0, yMin), yMax));
+    const [first, second] = points;
+    const connected = spec.connectPoints && first && second;
+    const run = connected ? second.x - first.x : 0;
+    const rise = connected ? second.y - first.y : 0;
+    const lineThroughPoints = (): [ScreenPoint, ScreenPoint] => {
+        if (run === 0) return [toScreen(first.x, yMin), toScreen(first.x, yMax)];
+        const slope = rise / run;
+        return [toScreen(xMin, first.y + slope * (xMin - first.x)), toScreen(xMax, first.y + slope * (xMax - first.x))];
+    };
+
+    return (
+        <div className="space-y-3">
+            <svg
+                ref={svgRef}
+                viewBox={`0 0 ${GRAPH_WIDTH} ${height}`}
+                className="w-full max-w-lg mx-auto touch-none select-none"
+                role="img"
+                aria-label={compact ? spec.title ?? 'Graph' : describeVisual({ ...spec, points })}
+                onPointerMove={handlePointerMove}
+                onPointerUp={() => setDragging(null)}
+                onPointerLeave={() => setDragging(null)}
+            >
+                <defs>
+                    <clipPath id={clipId}>
+                        <rect x={GRAPH_PADDING} y={GRAPH_PADDING} width={plotWidth} height={plotHeight} />
+                    </clipPath>
+                </defs>
+                {ticksBetween(xMin, xMax, xStep).map(x => (
+                    <line key={`gx${x}`} x1={toScreen(x, 0).x} x2={toScreen(x, 0).x} y1={GRAPH_PADDING} y2={height - GRAPH_PADDING} className="stroke-gray-200 dark:stroke-gray-700" />
+                ))}
+                {ticksBetween(yMin, yMax, yStep).map(y => (
+                    <line key={`gy${y}`} y1={toScreen(0, y).y} y2={toScreen(0, y).y} x1={GRAPH_PADDING} x2={GRAPH_WIDTH - GRAPH_PADDING} className="stroke-gray-200 dark:stroke-gray-700" />
+                ))}
+                <line x1={GRAPH_PADDING} x2={GRAPH_WIDTH - GRAPH_PADDING} y1={origin.y} y2={origin.y} className="stroke-gray-500 dark:stroke-gray-400" strokeWidth={1.5} />
+                <line y1={GRAPH_PADDING} y2={height - GRAPH_PADDING} x1={origin.x} x2={origin.x} className="stroke-gray-500 dark:stroke-gray-400" strokeWidth={1.5} />
+                {ticksBetween(xMin, xMax, xStep).filter(x => x !== 0).map(x => (
+                    <text key={`tx${x}`} x={toScreen(x, 0).x} y={origin.y + 14} fontSize={10} textAnchor="middle" className={MUTED_LABEL_CLASS}>{formatNumber(x)}</text>
+                ))}
+                {ticksBetween(yMin, yMax, yStep).filter(y => y !== 0).map(y => (
+                    <text key={`ty${y}`} x={origin.x - 5} y={toScreen(0, y).y + 3} fontSize={10} textAnchor="end" className={MUTED_LABEL_CLASS}>{formatNumber(y)}</text>
+                ))}
+
+                <g clipPath={`url(#${clipId})`}>
+                    {functions.map((fn, index) => (
+                        <path key={index} d={buildPath(fn.evaluate)} fill="none" stroke={fn.color} strokeWidth={2.5} />
+                    ))}
+                    {connected && (() => {
+                        const [start, end] = lineThroughPoints();
+                        return <line x1={start.x} y1={start.y} x2={end.x} y2={end.y} stroke={COLORS[0]} strokeWidth={2} strokeDasharray="6 4" />;
+                    })()}
+                </g>
+
+                {points.map((point, index) => {
+                    const screen = toScreen(point.x, point.y);
+                    const canDrag = interactive && point.draggable;
+                    const text = [point.label, canDrag ? `(${formatNumber(point.x)}, ${formatNumber(point.y)})` : ''].filter(Boolean).join(' ');
+                    return (
+                        <g key={index}>
+                            <circle
+                                cx={screen.x}
+                                cy={screen.y}
+                                r={canDrag ? 7 : 5}
+                                className={canDrag ? 'fill-orange-500 stroke-white cursor-grab' : 'fill-gray-800 dark:fill-gray-100'}
+                                strokeWidth={canDrag ? 2 : 0}
+                                onPointerDown={canDrag ? (e) => {
+                                    e.preventDefault();
+                                    svgRef.current?.setPointerCapture?.(e.pointerId);
+                                    setDragging(index);
+                                } : undefined}
+                            />
+                            {text && <text x={screen.x + 9} y={screen.y - 9} fontSize={12} className={LABEL_CLASS}>{text}</text>}
+                        </g>
+                    );
+                })}
+            </svg>
+
+            {!compact && functions.length > 0 && (
+                <div className="flex flex-wrap justify-center gap-x-4 gap-y-1 text-sm">
+                    {functions.map((fn, index) => (
+                        <span key={index} className="flex items-center gap-1 text-gray-700 dark:text-gray-300">
+                            <span className="inline-block w-4 h-1 rounded" style={{ backgroundColor: fn.color }} />
+                            {fn.label ?? `y = ${fn.expression}`}
+                        </span>
+                    ))}
+                </div>
+            )}
+
+            {connected && (
+                <p className="text-sm text-center text-gray-700 dark:text-gray-300">
+                    {run === 0
+                        ? 'The line is vertical, so its slope is undefined.'
+                        : `slope = rise ÷ run = ${formatNumber(rise)} ÷ ${formatNumber(run)} = ${formatNumber(rise / run)}`}
+                </p>
+            )}
+
+            {interactive && spec.parameters.length > 0 && (
+                <div className="space-y-2 max-w-sm mx-auto">
+                    {spec.parameters.map(parameter => (
+                        <label key={parameter.name} className="flex items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+                            <span className="w-16 font-mono">{parameter.name} = {formatNumber(parameters[parameter.name])}</span>
+                            <input
+                                type="range"
+                                min={parameter.min}
+                                max={parameter.max}
+                                step={parameter.step}
+                                value={parameters[parameter.name]}
+                                onChange={(e) => setParameters(current => ({ ...current, [parameter.name]: Number(e.target.value) }))}
+                                className="flex-1 accent-brand-600"
+                            />
+                        </label>
+                    ))}
+                </div>
+            )}
+            {interactive && points.some(point => point.draggable) && (
+                <p className="text-xs text-center text-gray-500 dark:text-gray-400">Drag the orange points to move them.</p>
+            )}
+        </div>
+    );
+};
+
+// --- Number lines ---
+const LINE_WIDTH = 400;
+const LINE_HEIGHT = 80;
+const LINE_PADDING = 24;
+const LINE_Y = 46;
+
+const NumberLineFigure: React.FC<{ spec: NumberLineVisual }> = ({ spec }) => {
+    const toX = (value: number) => LINE_PADDING + ((value - spec.min) / (spec.max - spec.min)) * (LINE_WIDTH - 2 * LINE_PADDING);
+    const ticks = ticksBetween(spec.min, spec.max, spec.tickStep ?? niceStep(spec.max - spec.min));
+    const labelEvery = ticks.length > 21 ? 2 : 1;
+
+    return (
+        <svg viewBox={`0 0 ${LINE_WIDTH} ${LINE_HEIGHT}`} className="w-full max-w-lg mx-auto" role="img" aria-label={describeVisual(spec)}>
+            <line x1={LINE_PADDING - 12} x2={LINE_WIDTH - LINE_PADDING + 12} y1={LINE_Y} y2={LINE_Y} className="stroke-gray-500 dark:stroke-gray-400" strokeWidth={1.5} />
+            <path d={`M${LINE_PADDING - 16},${LINE_Y} l8,-5 v10 z M${LINE_WIDTH - LINE_PADDING + 16},${LINE_Y} l-8,-5 v10 z`} className="fill-gray-500 dark:fill-gray-400" />
+            {spec.ranges.map((range, index) => (
+                <line key={index} x1={toX(range.from)} x2={toX(range.to)} y1={LINE_Y} y2={LINE_Y} stroke={COLORS[0]} strokeWidth={6} strokeOpacity={0.6} strokeLinecap="round" />
+            ))}
+            {ticks.map((tick, index) => (
+                <g key={tick}>
+                    <line x1={toX(tick)} x2={toX(tick)} y1={LINE_Y - 5} y2={LINE_Y + 5} className="stroke-gray-500 dark:stroke-gray-400" />
+                    {index % labelEvery === 0 && (
+                        <text x={toX(tick)} y={LINE_Y + 20} fontSize={11} textAnchor="middle" className={MUTED_LABEL_CLASS}>{formatNumber(tick)}</text>
+                    )}
+                </g>
+            ))}
+            {spec.markers.map((marker, index) => (
+                <g key={index}>
+                    <circle
+                        cx={toX(marker.value)}
+                        cy={LINE_Y}
+                        r={6}
+                        stroke={COLORS[0]}
+                        strokeWidth={2.5}
+                        className={marker.open ? 'fill-white dark:fill-gray-800' : ''}
+                        fill={marker.open ? undefined : COLORS[0]}
+                    />
+                    {marker.label && <text x={toX(marker.value)} y={LINE_Y - 14} fontSize={12} textAnchor="middle" className={LABEL_CLASS}>{marker.label}</text>}
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+// --- Geometry ---
+const GEOMETRY_WIDTH = 400;
+const GEOMETRY_HEIGHT = 300;
+const GEOMETRY_PADDING = 36;
+const ANGLE_RADIUS = 18;
+
+const isRightAngle = (vertex: ScreenPoint, a: ScreenPoint, b: ScreenPoint) => {
+    const u = unit(vertex, a);
+    const v = unit(vertex, b);
+    return Math.abs(u.x * v.x + u.y * v.y) < 0.02;
+};
+
+// An arc (or a small square for right angles) at `vertex` between the arms towards a and b,
+// with the label just outside it.
+const AngleMark: React.FC<{ vertex: ScreenPoint; a: ScreenPoint; b: ScreenPoint; label: string }> = ({ vertex, a, b, label }) => {
+    const u = unit(vertex, a);
+    const v = unit(vertex, b);
+    const bisector = unit({ x: 0, y: 0 }, { x: u.x + v.x, y: u.y + v.y });
+    const labelAt = { x: vertex.x + bisector.x * (ANGLE_RADIUS + 14), y: vertex.y + bisector.y * (ANGLE_RADIUS + 14) };
+    const size = ANGLE_RADIUS * 0.6;
+    const mark = isRightAngle(vertex, a, b)
+        ? `M${vertex.x + u.x * size},${vertex.y + u.y * size} L${vertex.x + (u.x + v.x) * size},${vertex.y + (u.y + v.y) * size} L${vertex.x + v.x * size},${vertex.y + v.y * size}`
+        : `M${vertex.x + u.x * ANGLE_RADIUS},${vertex.y + u.y * ANGLE_RADIUS} A${ANGLE_RADIUS},${ANGLE_RADIUS} 0 0 ${u.x * v.y - u.y * v.x > 0 ? 1 : 0} ${vertex.x + v.x * ANGLE_RADIUS},${vertex.y + v.y * ANGLE_RADIUS}`;
+    return (
+        <g>
+            <path d={mark} fill="none" className="stroke-orange-500" strokeWidth={1.5} />
+            {label && <text x={labelAt.x} y={labelAt.y + 4} fontSize={12} textAnchor="middle" className={LABEL_CLASS}>{label}</text>}
+        </g>
+    );
+};
+
+const PointLabel: React.FC<{ point: ScreenPoint; away: ScreenPoint; label?: string }> = ({ point, away, label }) => {
+    if (!label) return null;
+    const direction = point.x === away.x && point.y === away.y ? { x: -0.7, y: -0.7 } : unit(away, point);
+    return <text x={point.x + direction.x * 14} y={point.y + direction.y * 14 + 4} fontSize={13} fontWeight={600} textAnchor="middle" className={LABEL_CLASS}>{label}</text>;
+};
+
+const SideLabel: React.FC<{ from: ScreenPoint; to: ScreenPoint; away: ScreenPoint; label?: string }> = ({ from, to, away, label }) => {
+    if (!label) return null;
+    const middle = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+    const along = unit(from, to);
+    let normal = { x: -along.y, y: along.x };
+    if ((middle.x - away.x) * normal.x + (middle.y - away.y) * normal.y < 0) normal = { x: -normal.x, y: -normal.y };
+    return <text x={middle.x + normal.x * 14} y={middle.y + normal.y * 14 + 4} fontSize={12} textAnchor="middle" className={LABEL_CLASS}>{label}</text>;
+};
+
+const GeometryFigure: React.FC<{ spec: GeometryVisual }> = ({ spec }) => {
+    // Fit every shape into the figure at one scale, keeping proportions.
+    const extents = spec.shapes.flatMap(shape => shape.shape === 'circle' && shape.radius
+        ? [{ x: shape.points[0].x - shape.radius, y: shape.points[0].y - shape.radius }, { x: shape.points[0].x + shape.radius, y: shape.points[0].y + shape.radius }]
+        : shape.points);
+    const xs = extents.map(point => point.x);
+    const ys = extents.map(point => point.y);
+    const [minX, maxX, minY, maxY] = [Math.min(...xs), Math.max(...xs), Math.min(...ys), Math.max(...ys)];
+    const scale = Math.min(
+        (GEOMETRY_WIDTH - 2 * GEOMETRY_PADDING) / (maxX - minX || 1),
+        (GEOMETRY_HEIGHT - 2 * GEOMETRY_PADDING) / (maxY - minY || 1)
+    );
+    const toScreen = (point: VisualPoint): ScreenPoint => ({
+        x: GEOMETRY_WIDTH / 2 + (point.x - (minX + maxX) / 2) * scale,
+        y: GEOMETRY_HEIGHT / 2 - (point.y - (minY + maxY) / 2) * scale,
+    });
+
+    const renderShape = (shape: GeometryShape, index: number) => {
+        const points = shape.points.map(toScreen);
+        switch (shape.shape) {
+            case 'polygon': {
+                const center = { x: points.reduce((sum, p) => sum + p.x, 0) / points.length, y: points.reduce((sum, p) => sum + p.y, 0) / points.length };
+                return (
+                    <g key={index}>
+                        <polygon points={points.map(p => `${p.x},${p.y}`).join(' ')} className={`${SHAPE_CLASS} fill-brand-100/60 dark:fill-brand-900/40`} strokeWidth={2} />
+                        {points.map((point, i) => {
+                            const next = points[(i + 1) % points.length];
+                            const previous = points[(i + points.length - 1) % points.length];
+                            return (
+                                <g key={i}>
+                                    {shape.angleLabels?.[i] && <AngleMark vertex={point} a={previous} b={next} label={shape.angleLabels[i]} />}
+                                    <SideLabel from={point} to={next} away={center} label={shape.sideLabels?.[i]} />
+                                    <PointLabel point={point} away={center} label={shape.points[i].label} />
+                                </g>
+                            );
+                        })}
+                    </g>
+                );
+            }
+            case 'circle': {
+                const [center] = points;
+                const radius = (shape.radius ?? 0) * scale;
+                const edge = { x: center.x + radius, y: center.y };
+                return (
+                    <g key={index}>
+                        <circle cx={center.x} cy={center.y} r={radius} className={`${SHAPE_CLASS} fill-brand-100/60 dark:fill-brand-900/40`} strokeWidth={2} />
+                        <line x1={center.x} y1={center.y} x2={edge.x} y2={edge.y} className={SHAPE_CLASS} strokeWidth={1.5} strokeDasharray="4 3" />
+                        <circle cx={center.x} cy={center.y} r={3} className="fill-gray-800 dark:fill-gray-100" />
+                        {shape.label && <text x={(center.x + edge.x) / 2} y={center.y - 6} fontSize={12} textAnchor="middle" className={LABEL_CLASS}>{shape.label}</text>}
+                        <PointLabel point={center} away={{ x: center.x + 1, y: center.y - 1 }} label={shape.points[0].label} />
+                    </g>
+                );
+            }
+            case 'segment': {
+                const [from, to] = points;
+                const away = { x: (from.x + to.x) / 2 + (to.y - from.y), y: (from.y + to.y) / 2 - (to.x - from.x) };
+                return (
+                    <g key={index}>
+                        <line x1={from.x} y1={from.y} x2={to.x} y2={to.y} className={SHAPE_CLASS} strokeWidth={2} />
+                        {points.map((point, i) => <circle key={i} cx={point.x} cy={point.y} r={3} className="fill-gray-800 dark:fill-gray-100" />)}
+                        <SideLabel from={from} to={to} away={away} label={shape.label} />
+                        <PointLabel point={from} away={to} label={shape.points[0].label} />
+                        <PointLabel point={to} away={from} label={shape.points[1].label} />
+                    </g>
+                );
+            }
+            case 'angle': {
+                const [a, vertex, b] = points;
+                const inside = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+                return (
+                    <g key={index}>
+                        <polyline points={`${a.x},${a.y} ${vertex.x},${vertex.y} ${b.x},${b.y}`} fill="none" className={SHAPE_CLASS} strokeWidth={2} />
+                        <AngleMark vertex={vertex} a={a} b={b} label={shape.label ?? ''} />
+                        <PointLabel point={a} away={vertex} label={shape.points[0].label} />
+                        <PointLabel point={vertex} away={inside} label={shape.points[1].label} />
+                        <PointLabel point={b} away={vertex} label={shape.points[2].label} />
+                    </g>
+                );
+            }
+        }
+    };
+
+    return (
+        <svg viewBox={`0 0 ${GEOMETRY_WIDTH} ${GEOMETRY_HEIGHT}`} className="w-full max-w-lg mx-auto" role="img" aria-label={describeVisual(spec)}>
+            {spec.shapes.map(renderShape)}
+        </svg>
+    );
+};
+
+// --- Charts ---
+const CHART_WIDTH = 400;
+const CHART_HEIGHT = 260;
+
+const BarChartFigure: React.FC<{ spec: ChartVisual }> = ({ spec }) => {
+    const left = spec.yLabel ? 56 : 40;
+    const bottom = spec.xLabel ? 52 : 36;
+    const top = 20;
+    const plotWidth = CHART_WIDTH - left - 12;
+    const plotHeight = CHART_HEIGHT - top - bottom;
+    const largest = Math.max(...spec.data.map(entry => entry.value), 0);
+    const step = niceStep(largest || 1, 5);
+    const axisMax = Math.max(Math.ceil(largest / step) * step, step);
+    const toY = (value: number) => top + plotHeight - (value / axisMax) * plotHeight;
+    const slot = plotWidth / spec.data.length;
+    const maxLabelChars = Math.max(3, Math.floor(slot / 6.5));
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full max-w-lg mx-auto" role="img" aria-label={describeVisual(spec)}>
+            {ticksBetween(0, axisMax, step).map(tick => (
+                <g key={tick}>
+                    <line x1={left} x2={left + plotWidth} y1={toY(tick)} y2={toY(tick)} className="stroke-gray-200 dark:stroke-gray-700" />
+                    <text x={left - 6} y={toY(tick) + 4} fontSize={10} textAnchor="end" className={MUTED_LABEL_CLASS}>{formatNumber(tick)}</text>
+                </g>
+            ))}
+            {spec.data.map((entry, index) => {
+                const x = left + slot * index + slot * 0.2;
+                return (
+                    <g key={index}>
+                        <rect x={x} y={toY(entry.value)} width={slot * 0.6} height={toY(0) - toY(entry.value)} fill={COLORS[index % COLORS.length]} rx={2} />
+                        <text x={x + slot * 0.3} y={toY(entry.value) - 4} fontSize={11} textAnchor="middle" className={LABEL_CLASS}>{formatNumber(entry.value)}</text>
+                        <text x={x + slot * 0.3} y={top + plotHeight + 16} fontSize={11} textAnchor="middle" className={LABEL_CLASS}>
+                            {entry.label.length > maxLabelChars ? `${entry.label.slice(0, maxLabelChars - 1)}…` : entry.label}
+                        </text>
+                    </g>
+                );
+            })}
+            <line x1={left} x2={left + plotWidth} y1={toY(0)} y2={toY(0)} className="stroke-gray-500 dark:stroke-gray-400" strokeWidth={1.5} />
+            {spec.xLabel && <text x={left + plotWidth / 2} y={CHART_HEIGHT - 8} fontSize={12} textAnchor="middle" className={LABEL_CLASS}>{spec.xLabel}</text>}
+            {spec.yLabel && (
+                <text x={14} y={top + plotHeight / 2} fontSize={12} textAnchor="middle" transform={`rotate(-90 14 ${top + plotHeight / 2})`} className={LABEL_CLASS}>{spec.yLabel}</text>
+            )}
+        </svg>
+    );
+};
+
+const PieChartFigure: React.FC<{ spec: ChartVisual }> = ({ spec }) => {
+    const total = spec.data.reduce((sum, entry) => sum + entry.value, 0);
+    const center = { x: 120, y: CHART_HEIGHT / 2 };
+    const radius = 105;
+    const pointAt = (fraction: number) => ({
+        x: center.x + radius * Math.sin(fraction * 2 * Math.PI),
+        y: center.y - radius * Math.cos(fraction * 2 * Math.PI),
+    });
+
+    let start = 0;
+    const slices = spec.data.map((entry, index) => {
+        const share = total > 0 ? entry.value / total : 0;
+        const from = pointAt(start);
+        const to = pointAt(start + share);
+        const path = share >= 0.9999
+            ? null
+            : `M${center.x},${center.y} L${from.x},${from.y} A${radius},${radius} 0 ${share > 0.5 ? 1 : 0} 1 ${to.x},${to.y} Z`;
+        start += share;
+        return { entry, share, path, color: COLORS[index % COLORS.length] };
+    });
+
+    return (
+        <svg viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`} className="w-full max-w-lg mx-auto" role="img" aria-label={describeVisual(spec)}>
+            {slices.map((slice, index) =>
+                slice.path === null
+                    ? <circle key={index} cx={center.x} cy={center.y} r={radius} fill={slice.color} />
+                    : slice.share > 0 && <path key={index} d={slice.path} fill={slice.color} className="stroke-white dark:stroke-gray-800" strokeWidth={1.5} />
+            )}
+            {slices.map((slice, index) => (
+                <g key={`legend${index}`} transform={`translate(250 ${CHART_HEIGHT / 2 - (slices.length * 20) / 2 + index * 20})`}>
+                    <rect width={12} height={12} fill={slice.color} rx={2} />
+                    <text x={18} y={10} fontSize={12} className={LABEL_CLASS}>
+                        {slice.entry.label.length > 14 ? `${slice.entry.label.slice(0, 13)}…` : slice.entry.label} ({formatNumber(slice.share * 100)}%)
+                    </text>
+                </g>
+            ))}
+        </svg>
+    );
+};
+
+const Visual: React.FC<VisualProps> = ({ spec, compact = false }) => {
+    const figure = () => {
+        switch (spec.kind) {
+            // Keyed by the spec so sliders and dragged points start over when the figure changes.
+            case 'graph': return <GraphFigure key={JSON.stringify(spec)} spec={spec} compact={compact} />;
+            case 'number-line': return <NumberLineFigure spec={spec} />;
+            case 'geometry': return <GeometryFigure spec={spec} />;
+            case 'bar-chart': return <BarChartFigure spec={spec} />;
+            case 'pie-chart': return <PieChartFigure spec={spec} />;
+        }
+    };
+
+    return (
+        <figure className="space-y-2">
+            {spec.title && <figcaption className="text-sm font-semibold text-center text-gray-700 dark:text-gray-200">{spec.title}</figcaption>}
+            {figure()}
+        </figure>
+    );
+};
+
+export default Visual;
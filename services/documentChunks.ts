@@ -0,0 +1,163 @@
+import { PDFDocument } from 'pdf-lib';
+import type { FileAttachment } from './providers';
+
+// Splits an uploaded document into pieces small enough to send to the model one at a time.
+// PDFs are split into page ranges and sent as files; Word documents and text files are sent
+// as plain text, split on paragraph boundaries.
+
+export type DocumentChunk =
+  | { kind: 'file'; label: string; attachment: FileAttachment }
+  | { kind: 'text'; label: string; text: string };
+
+const PAGES_PER_CHUNK = 10;
+const CHARS_PER_CHUNK = 12_000;
+// Providers reject inline files much over 20 MB; base64 adds a third on top of this.
+const MAX_INLINE_BYTES = 14 * 1024 * 1024;
+
+export class DocumentTooLargeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentTooLargeError';
+  }
+}
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// --- Text ---
+const splitText = (text: string, maxChars: number = CHARS_PER_CHUNK): string[] => {
+  const paragraphs = text.split(/\n\s*\n/).map(paragraph => paragraph.trim()).filter(Boolean);
+  const chunks: string[] = [];
+  let current = '';
+  paragraphs.forEach(paragraph => {
+    // A single paragraph longer than a chunk is cut at the limit.
+    for (let start = 0; start < paragraph.length; start += maxChars) {
+      const piece = paragraph.slice(start, start + maxChars);
+      if (current && current.length + piece.length + 2 > maxChars) {
+        chunks.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${piece}` : piece;
+    }
+  });
+  if (current) chunks.push(current);
+  return chunks;
+};
+
+const textChunks = (text: string): DocumentChunk[] => {
+  const pieces = splitText(text);
+  return pieces.map((piece, index) => ({ kind: 'text', label: `part ${index + 1} of ${pieces.length}`, text: piece }));
+};
+
+// --- Word documents ---
+// A .docx file is a zip archive; the text lives in word/document.xml. Only the parts of the zip
+// format Word produces (stored or deflated entries, no zip64) are handled.
+const readZipEntry = async (buffer: ArrayBuffer, entryName: string): Promise<string | null> => {
+  const view = new DataView(buffer);
+  const decoder = new TextDecoder();
+  let directoryEnd = -1;
+  for (let i = buffer.byteLength - 22; i >= Math.max(0, buffer.byteLength - 65_557); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) {
+      directoryEnd = i;
+      break;
+    }
+  }
+  if (directoryEnd < 0) return null;
+
+  const entryCount = view.getUint16(directoryEnd + 10, true);
+  let offset = view.getUint32(directoryEnd + 16, true);
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) return null;
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localHeader = view.getUint32(offset + 42, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    if (name === entryName) {
+      const dataStart = localHeader + 30 + view.getUint16(localHeader + 26, true) + view.getUint16(localHeader + 28, true);
+      const data = new Uint8Array(buffer, dataStart, compressedSize);
+      if (method === 0) return decoder.decode(data);
+      if (method !== 8) return null;
+      const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Response(stream).text();
+    }
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return null;
+};
+
+const decodeXmlText = (text: string): string =>
+  text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+// One line per Word paragraph, with blank lines between them so splitText keeps them whole.
+const docxXmlToText = (xml: string): string =>
+  xml
+    .split('</w:p>')
+    .map(paragraph => [...paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>|<w:tab\/>/g)]
+      .map(match => (match[1] === undefined ? '\t' : decodeXmlText(match[1])))
+      .join(''))
+    .filter(line => line.trim())
+    .join('\n\n');
+
+// --- PDFs ---
+const pdfChunks = async (file: File): Promise<DocumentChunk[]> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const source = await PDFDocument.load(bytes, { ignoreEncryption: true });
+  const pageCount = source.getPageCount();
+  if (pageCount <= PAGES_PER_CHUNK && bytes.length <= MAX_INLINE_BYTES) {
+    return [{ kind: 'file', label: `pages 1-${pageCount}`, attachment: { data: bytesToBase64(bytes), mimeType: 'application/pdf' } }];
+  }
+
+  const chunks: DocumentChunk[] = [];
+  for (let start = 0; start < pageCount; start += PAGES_PER_CHUNK) {
+    const end = Math.min(start + PAGES_PER_CHUNK, pageCount);
+    const part = await PDFDocument.create();
+    const pages = await part.copyPages(source, Array.from({ length: end - start }, (_, index) => start + index));
+    pages.forEach(page => part.addPage(page));
+    const partBytes = await part.save();
+    if (partBytes.length > MAX_INLINE_BYTES) {
+      throw new DocumentTooLargeError(`Pages ${start + 1}-${end} of this PDF are too large to read (they are probably scanned images). Try a smaller or text-based version of the syllabus.`);
+    }
+    chunks.push({ kind: 'file', label: `pages ${start + 1}-${end} of ${pageCount}`, attachment: { data: bytesToBase64(partBytes), mimeType: 'application/pdf' } });
+  }
+  return chunks;
+};
+
+const isDocx = (file: File) =>
+  file.name.toLowerCase().endsWith('.docx') || file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const isPdf = (file: File) => file.name.toLowerCase().endsWith('.pdf') || file.type === 'application/pdf';
+
+const isPlainText = (file: File) => file.type.startsWith('text/') || /\.(txt|md|csv)$/i.test(file.name);
+
+export const splitDocument = async (file: File): Promise<DocumentChunk[]> => {
+  if (isPdf(file)) {
+    return pdfChunks(file);
+  }
+  if (isDocx(file)) {
+    const xml = await readZipEntry(await file.arrayBuffer(), 'word/document.xml');
+    if (xml !== null) return textChunks(docxXmlToText(xml));
+  }
+  if (isPlainText(file)) {
+    return textChunks(await file.text());
+  }
+  // Anything else (e.g. old .doc files) goes to the model whole, if it isn't too big.
+  if (file.size > MAX_INLINE_BYTES) {
+    throw new DocumentTooLargeError('This file is too large to read. Please upload it as a PDF, DOCX or text file.');
+  }
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  return [{ kind: 'file', label: file.name, attachment: { data: bytesToBase64(bytes), mimeType: file.type || 'application/octet-stream' } }];
+};
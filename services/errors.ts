@@ -0,0 +1,94 @@
+// Typed failures for AI requests. Providers translate their own errors (HTTP statuses, SDK
+// exceptions, blocked responses) into these, the request layer retries the retryable ones,
+// and the app turns them into messages the student can act on.
+
+export class AiRequestError extends Error {
+  // Whether sending the same request again might succeed.
+  readonly retryable: boolean = false;
+
+  constructor(message: string, public readonly status?: number) {
+    super(message);
+    this.name = 'AiRequestError';
+  }
+}
+
+// The API key is missing, invalid or not allowed to use the model.
+export class AuthError extends AiRequestError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = 'AuthError';
+  }
+}
+
+// Rate limited or out of quota (HTTP 429).
+export class QuotaError extends AiRequestError {
+  readonly retryable = true;
+
+  constructor(message: string, public readonly retryAfterMs?: number) {
+    super(message, 429);
+    this.name = 'QuotaError';
+  }
+}
+
+// The AI service failed on its side (HTTP 5xx).
+export class ServerError extends AiRequestError {
+  readonly retryable = true;
+
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'ServerError';
+  }
+}
+
+// The request never reached the AI service, or the connection dropped.
+export class NetworkError extends AiRequestError {
+  readonly retryable = true;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+// Not retried: a request that ran out of time once will most likely do so again.
+export class TimeoutError extends AiRequestError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// The model refused to answer, or its answer was withheld by a safety filter.
+export class SafetyBlockedError extends AiRequestError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SafetyBlockedError';
+  }
+}
+
+// The daily spending limit set in the usage panel has been reached; nothing was sent.
+export class BudgetExceededError extends AiRequestError {
+  constructor(message: string, public readonly budgetUsd: number) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+// Turns an HTTP error status into the matching error type. Gemini reports a bad key as a 400,
+// so the message is checked as well.
+export const errorFromStatus = (status: number, detail: string, retryAfterMs?: number): AiRequestError => {
+  if (status === 401 || status === 403 || /API key not valid/i.test(detail)) {
+    return new AuthError(`The AI service rejected the API key (${status}): ${detail}`, status);
+  }
+  if (status === 429) {
+    return new QuotaError(`The AI service is rate limiting requests: ${detail}`, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new ServerError(`The AI service responded with ${status}: ${detail}`, status);
+  }
+  return new AiRequestError(`The AI service responded with ${status}: ${detail}`, status);
+};
+
+// fetch rejects with a TypeError when the server can't be reached.
+export const toNetworkError = (err: unknown): unknown =>
+  err instanceof TypeError ? new NetworkError(`Could not reach the AI service: ${err.message}`) : err;
@@ -0,0 +1,133 @@
+// Parses the JSON a model has streamed so far. Strings, arrays and objects that are still
+// being written come back with whatever they contain so far, so a lesson can be shown while
+// the rest of it arrives. Also reports which top-level fields are already complete.
+
+export interface PartialJson {
+  value: unknown;
+  completeKeys: Set<string>; // top-level object keys whose values have been fully received
+}
+
+interface Parsed {
+  value: unknown;
+  done: boolean;
+}
+
+const ESCAPES: Record<string, string> = { '"': '"', '\\': '\\', '/': '/', b: '\b', f: '\f', n: '\n', r: '\r', t: '\t' };
+
+const LITERAL_PATTERN = /^(-?\d+(\.\d+)?([eE][+-]?\d+)?|true|false|null)/;
+
+export const parsePartialJson = (text: string): PartialJson => {
+  const completeKeys = new Set<string>();
+  // Skip anything before the JSON itself, such as a markdown fence.
+  let i = Math.max(0, text.indexOf('{'));
+
+  const skipWhitespace = () => {
+    while (i < text.length && /\s/.test(text[i])) i++;
+  };
+
+  const parseString = (): Parsed => {
+    i++; // opening quote
+    let value = '';
+    while (i < text.length) {
+      const char = text[i];
+      if (char === '"') {
+        i++;
+        return { value, done: true };
+      }
+      if (char === '\\') {
+        const next = text[i + 1];
+        if (next === undefined) break;
+        if (next === 'u') {
+          const hex = text.slice(i + 2, i + 6);
+          if (hex.length < 4) break;
+          value += String.fromCharCode(parseInt(hex, 16));
+          i += 6;
+        } else {
+          value += ESCAPES[next] ?? next;
+          i += 2;
+        }
+        continue;
+      }
+      value += char;
+      i++;
+    }
+    i = text.length;
+    return { value, done: false };
+  };
+
+  const parseArray = (depth: number): Parsed => {
+    i++; // [
+    const items: unknown[] = [];
+    for (;;) {
+      skipWhitespace();
+      if (i >= text.length) return { value: items, done: false };
+      if (text[i] === ']') {
+        i++;
+        return { value: items, done: true };
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      const item = parseValue(depth + 1);
+      if (item.value !== undefined) items.push(item.value);
+      if (!item.done) return { value: items, done: false };
+    }
+  };
+
+  const parseObject = (depth: number): Parsed => {
+    i++; // {
+    const object: Record<string, unknown> = {};
+    for (;;) {
+      skipWhitespace();
+      if (i >= text.length) return { value: object, done: false };
+      if (text[i] === '}') {
+        i++;
+        return { value: object, done: true };
+      }
+      if (text[i] === ',') {
+        i++;
+        continue;
+      }
+      if (text[i] !== '"') {
+        throw new Error(`Unexpected "${text[i]}" in JSON.`);
+      }
+      const key = parseString();
+      skipWhitespace();
+      if (!key.done || i >= text.length) return { value: object, done: false };
+      if (text[i] !== ':') {
+        throw new Error(`Expected ":" in JSON.`);
+      }
+      i++;
+      const property = parseValue(depth + 1);
+      if (property.value !== undefined) object[key.value as string] = property.value;
+      if (!property.done) return { value: object, done: false };
+      if (depth === 0) completeKeys.add(key.value as string);
+    }
+  };
+
+  const parseValue = (depth: number): Parsed => {
+    skipWhitespace();
+    if (i >= text.length) return { value: undefined, done: false };
+    const char = text[i];
+    if (char === '{') return parseObject(depth);
+    if (char === '[') return parseArray(depth);
+    if (char === '"') return parseString();
+
+    const literal = text.slice(i).match(LITERAL_PATTERN);
+    if (!literal) {
+      // A literal cut off part way ("tr", "-") isn't usable yet.
+      i = text.length;
+      return { value: undefined, done: false };
+    }
+    i += literal[0].length;
+    // A number at the very end may still have digits to come.
+    return { value: JSON.parse(literal[0]), done: i < text.length };
+  };
+
+  try {
+    return { value: parseValue(0).value, completeKeys };
+  } catch {
+    return { value: undefined, completeKeys };
+  }
+};
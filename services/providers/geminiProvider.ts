@@ -0,0 +1,110 @@
+import { ApiError, FinishReason, GoogleGenAI, Type } from '@google/genai';
+import type { GenerateContentResponse, Schema } from '@google/genai';
+import type { JsonSchema, LlmProvider, ModelTier, TokenUsage } from './types';
+import { SafetyBlockedError, errorFromStatus, toNetworkError } from '../errors';
+
+const MODELS: Record<ModelTier, string> = {
+  pro: 'gemini-2.5-pro',
+  flash: 'gemini-2.5-flash',
+};
+
+const SCHEMA_TYPES: Record<JsonSchema['type'], Type> = {
+  object: Type.OBJECT,
+  array: Type.ARRAY,
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+    ),
+    // Keep the schema's field order, so streamed lessons arrive introduction first.
+    propertyOrdering: Object.keys(schema.properties),
+  }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.enum && { enum: schema.enum }),
+});
+
+const BLOCKING_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY, FinishReason.BLOCKLIST, FinishReason.PROHIBITED_CONTENT, FinishReason.SPII,
+];
+
+const throwIfBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) {
+    throw new SafetyBlockedError(`Gemini declined the request (${blockReason}).`);
+  }
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (BLOCKING_FINISH_REASONS.includes(finishReason)) {
+    throw new SafetyBlockedError(`Gemini stopped its response (${finishReason}).`);
+  }
+};
+
+// Quota errors carry a suggested wait in their details, e.g. "retryDelay": "28s".
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Number(match[1]) * 1000 : undefined;
+};
+
+const toTokenUsage = (response: GenerateContentResponse): TokenUsage | undefined => {
+  const metadata = response.usageMetadata;
+  if (!metadata) return undefined;
+  return {
+    inputTokens: metadata.promptTokenCount ?? 0,
+    outputTokens: (metadata.candidatesTokenCount ?? 0) + (metadata.thoughtsTokenCount ?? 0),
+  };
+};
+
+const toRequestError = (err: unknown): unknown =>
+  err instanceof ApiError ? errorFromStatus(err.status, err.message, parseRetryDelay(err.message)) : toNetworkError(err);
+
+export const createGeminiProvider = (apiKey: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    modelFor: tier => MODELS[tier],
+    generateStructured: async ({ tier, prompt, schema, attachments = [], signal, onPartialText }) => {
+      const contents = attachments.length > 0
+        ? { parts: [{ text: prompt }, ...attachments.map(file => ({ inlineData: file }))] }
+        : prompt;
+
+      const params = {
+        model: MODELS[tier],
+        contents,
+        config: {
+          responseMimeType: 'application/json',
+          responseSchema: toGeminiSchema(schema),
+          abortSignal: signal,
+        },
+      };
+
+      try {
+        if (onPartialText) {
+          let text = '';
+          let usage: TokenUsage | undefined;
+          for await (const chunk of await ai.models.generateContentStream(params)) {
+            signal?.throwIfAborted();
+            throwIfBlocked(chunk);
+            text += chunk.text ?? '';
+            usage = toTokenUsage(chunk) ?? usage; // running totals; the last chunk has the final count
+            onPartialText(text);
+          }
+          return { text: text.trim(), usage };
+        }
+
+        const response = await ai.models.generateContent(params);
+        throwIfBlocked(response);
+        return { text: (response.text ?? '').trim(), usage: toTokenUsage(response) };
+      } catch (err) {
+        throw toRequestError(err);
+      }
+    },
+  };
+};
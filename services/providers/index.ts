@@ -0,0 +1,40 @@
+import type { GenerationSettings } from '../../types';
+import type { LlmProvider, ProviderSettings } from './types';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createMockProvider } from './mockProvider';
+import { loadApiKey, loadProviderSettings } from '../../utils/progress';
+import { AuthError } from '../errors';
+
+export type { LlmProvider, ProviderId, ProviderSettings, JsonSchema, StructuredRequest, FileAttachment } from './types';
+export { DEFAULT_OPENAI_BASE_URL } from './openAiCompatibleProvider';
+
+// Gemini needs a key; self-hosted servers usually don't, and the mock never does.
+export const isProviderConfigured = (settings: ProviderSettings, apiKey: string | null): boolean =>
+  settings.provider !== 'gemini' || !!apiKey;
+
+// The parts of the provider setup that change what a generated lesson looks like.
+export const getGenerationSettings = (): GenerationSettings => {
+  const { provider, model } = loadProviderSettings();
+  return provider === 'openai-compatible' ? { provider, model } : { provider };
+};
+
+// Providers are built on demand so that a changed key or setting takes effect on the next call.
+export const getProvider = (): LlmProvider => {
+  const settings = loadProviderSettings();
+
+  switch (settings.provider) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      return createOpenAiCompatibleProvider(settings);
+    case 'gemini':
+    default: {
+      const apiKey = loadApiKey();
+      if (!apiKey) {
+        throw new AuthError("API key not found in storage. Please set it on the start screen.");
+      }
+      return createGeminiProvider(apiKey);
+    }
+  }
+};
@@ -0,0 +1,339 @@
+import type { AnswerType, LabSimulationType, Lesson, PracticeProblem, QuizQuestion, RealWorldExample, VirtualLab } from '../../types';
+import { getSubjectPack, labSimulationsFor } from '../../utils/subjectPacks';
+
+// Canned responses for the mock provider. They are deterministic so the app can be
+// demoed and exercised offline; the topic/subject are woven in so screens look plausible.
+
+const buildBaseLessonFixture = (topic: string, subject: string): Lesson => ({
+  topic,
+  introduction: `Let's explore ${topic}! This ${subject} idea shows up everywhere once you know how to spot it.`,
+  coreConcept: {
+    title: `The big idea behind ${topic}`,
+    explanation: `${topic} is about noticing patterns and describing them precisely.\n\nStart with a simple case, write down what you see, then check that your rule still works when the numbers change.`,
+    realWorldExamples: [
+      { example: 'Splitting a pizza', explanation: 'Cutting a pizza into 8 equal slices means each slice is 1/8 of the whole.' },
+      { example: 'Saving pocket money', explanation: 'Saving $5 every week adds up to $20 after 4 weeks.' },
+      { example: 'Reading a map', explanation: 'If 1 cm on the map is 2 km in real life, 3 cm is 6 km.' },
+    ],
+    visuals: [
+      {
+        kind: 'graph',
+        title: 'Move the sliders to change the line',
+        xRange: [-5, 5],
+        yRange: [-5, 5],
+        functions: [{ expression: 'm*x + b' }],
+        points: [],
+        parameters: [
+          { name: 'm', min: -3, max: 3, step: 0.5, value: 1 },
+          { name: 'b', min: -4, max: 4, step: 1, value: 0 },
+        ],
+      },
+      {
+        kind: 'graph',
+        title: 'Drag the points to see the slope change',
+        xRange: [-5, 5],
+        yRange: [-5, 5],
+        functions: [],
+        points: [{ x: -2, y: -1, label: 'A', draggable: true }, { x: 2, y: 3, label: 'B', draggable: true }],
+        connectPoints: true,
+        parameters: [],
+      },
+      {
+        kind: 'number-line',
+        title: 'x > -1',
+        min: -5,
+        max: 5,
+        markers: [{ value: -1, label: '-1', open: true }],
+        ranges: [{ from: -1, to: 5 }],
+      },
+      {
+        kind: 'geometry',
+        title: 'A 4 cm by 3 cm rectangle',
+        shapes: [{
+          shape: 'polygon',
+          points: [{ x: 0, y: 0, label: 'A' }, { x: 4, y: 0, label: 'B' }, { x: 4, y: 3, label: 'C' }, { x: 0, y: 3, label: 'D' }],
+          sideLabels: ['4 cm', '3 cm', '4 cm', '3 cm'],
+          angleLabels: ['90°'],
+        }],
+      },
+      {
+        kind: 'bar-chart',
+        title: 'Saving $5 a week',
+        data: [{ label: 'Week 1', value: 5 }, { label: 'Week 2', value: 10 }, { label: 'Week 3', value: 15 }, { label: 'Week 4', value: 20 }],
+        xLabel: 'Week',
+        yLabel: 'Saved ($)',
+      },
+    ],
+  },
+  quiz: {
+    title: 'Test Your Knowledge',
+    questions: [
+      { type: 'multiple-choice', questionText: 'What is \\(\\frac{1}{2}\\) written as a decimal?', options: ['0.2', '0.5', '1.2', '2.0'], correctAnswerIndex: 1, skill: 'decimals' },
+      { type: 'numeric', questionText: 'What is 25% of 80?', numericAnswer: '20', skill: 'percents' },
+      { type: 'multi-select', questionText: 'Which numbers are greater than 0.4? Select all that apply.', options: ['0.45', '0.405', '0.5', '0.054'], correctAnswerIndices: [0, 1, 2], skill: 'decimals' },
+      { type: 'true-false', questionText: 'If \\(3x = 12\\), then \\(x = 4\\).', answerIsTrue: true, skill: 'linear-equations' },
+      { type: 'fill-blank', questionText: 'There are ___ centimeters in 2 meters.', acceptedAnswers: ['200'], skill: 'geometry-measurement' },
+      { type: 'ordering', questionText: 'Put these numbers in order from smallest to largest.', orderedItems: ['0.054', '0.405', '0.45', '0.5'], skill: 'decimals' },
+      {
+        type: 'matching',
+        questionText: 'Match each fraction with its percent.',
+        pairs: [{ left: '1/2', right: '50%' }, { left: '1/4', right: '25%' }, { left: '3/4', right: '75%' }],
+        skill: 'percents',
+        visual: { kind: 'pie-chart', data: [{ label: '1/2', value: 2 }, { label: '1/4', value: 1 }, { label: 'The other 1/4', value: 1 }] },
+      },
+      {
+        type: 'multiple-choice',
+        questionText: 'Which graph shows \\(y = 2x + 1\\)?',
+        options: ['Graph A', 'Graph B', 'Graph C', 'Graph D'],
+        correctAnswerIndex: 2,
+        optionVisuals: ['x + 2', '2x - 1', '2x + 1', '-2x + 1'].map(expression => ({
+          kind: 'graph' as const, xRange: [-4, 4] as [number, number], yRange: [-4, 4] as [number, number], functions: [{ expression }], points: [], parameters: [],
+        })),
+        skill: 'linear-equations',
+      },
+    ],
+  },
+  practiceProblems: {
+    title: 'Practice Makes Perfect',
+    problems: [
+      {
+        problemText: 'Solve for \\(x\\): \\(2x + 3 = 11\\)',
+        answer: '4',
+        answerType: 'number',
+        hints: ['Get the x term on its own first.', 'Subtract 3 from both sides.', 'Now divide both sides by 2.'],
+        solutionSteps: ['\\(2x + 3 = 11\\)', 'Subtract 3 from both sides: \\(2x = 8\\)', 'Divide both sides by 2: \\(x = 4\\)'],
+        skill: 'linear-equations',
+      },
+      {
+        problemText: 'Write 0.75 as a fraction in simplest form.',
+        answer: '3/4',
+        answerType: 'fraction',
+        hints: ['0.75 means 75 hundredths.', 'Divide the top and bottom of 75/100 by their greatest common factor.'],
+        solutionSteps: ['\\(0.75 = \\frac{75}{100}\\)', 'The greatest common factor of 75 and 100 is 25.', '\\(\\frac{75}{100} = \\frac{3}{4}\\)'],
+        skill: 'fractions',
+      },
+      {
+        problemText: 'A rectangle is 4 cm wide and 3 cm tall. What is its perimeter?',
+        answer: '14 cm',
+        answerType: 'measurement',
+        hints: ['The perimeter is the distance all the way around.', 'A rectangle has two widths and two heights.'],
+        solutionSteps: ['Perimeter = 2 × width + 2 × height', '= 2 × 4 cm + 2 × 3 cm', '= 8 cm + 6 cm = 14 cm'],
+        skill: 'geometry-measurement',
+      },
+    ],
+  },
+  skills: ['fractions', 'decimals', 'percents'],
+});
+
+// One lab per simulation, each with a quiz question whose answer the lab shows.
+const LAB_FIXTURES: Record<LabSimulationType, { lab: VirtualLab; question: QuizQuestion }> = {
+  projectile: {
+    lab: {
+      title: 'Launch lab',
+      goal: 'Which launch angle sends a ball the farthest?',
+      instructions: ['Launch the ball at 45° and record the range.', 'Try 15°, 30° and 60° at the same speed.', 'Record each range in your notebook.'],
+      observationPrompts: ['Which angle gave the longest range?', 'Which two angles landed in the same place?'],
+      settings: { simulation: 'projectile', speed: 20, angle: 45, gravity: 9.8, launchHeight: 0 },
+    },
+    question: {
+      type: 'multiple-choice', questionText: 'In the lab, which launch angle sent the ball farthest at 20 m/s?',
+      options: ['15°', '30°', '45°', '60°'], correctAnswerIndex: 2, skill: 'forces-motion', fromLab: true,
+    },
+  },
+  density: {
+    lab: {
+      title: 'Sink or float?',
+      goal: 'How does density decide whether an object floats?',
+      instructions: ['Pick an object and a liquid, then drop the object in.', 'Try every object in water.', 'Record what happens each time.'],
+      observationPrompts: ['Which objects floated in water?', 'What do the floating objects have in common?'],
+      settings: {
+        simulation: 'density',
+        objects: [
+          { name: 'Wood block', mass: 30, volume: 50 },
+          { name: 'Steel bolt', mass: 79, volume: 10 },
+          { name: 'Ice cube', mass: 46, volume: 50 },
+          { name: 'Plastic toy', mass: 55, volume: 50 },
+        ],
+        liquids: [{ name: 'Water', density: 1 }, { name: 'Salt water', density: 1.2 }, { name: 'Cooking oil', density: 0.9 }],
+      },
+    },
+    question: {
+      type: 'multi-select', questionText: 'Which objects floated in water in the lab? Select all that apply.',
+      options: ['Wood block', 'Steel bolt', 'Ice cube', 'Plastic toy'], correctAnswerIndices: [0, 2], skill: 'matter', fromLab: true,
+    },
+  },
+  circuit: {
+    lab: {
+      title: 'Bulbs in a circuit',
+      goal: 'How does wiring bulbs in series or in parallel change the current?',
+      instructions: ['Close the switch and record the current.', 'Switch the bulbs to parallel and record the current again.', 'Compare how bright the bulbs are.'],
+      observationPrompts: ['Which arrangement drew more current?', 'In which arrangement were the bulbs brighter?'],
+      settings: { simulation: 'circuit', voltage: 6, resistors: [3, 6], arrangement: 'series' },
+    },
+    question: {
+      type: 'numeric', questionText: 'In the lab, with the bulbs in parallel, what current flows from the battery?',
+      numericAnswer: '3', unit: 'A', skill: 'waves-electricity', fromLab: true,
+    },
+  },
+  'food-web': {
+    lab: {
+      title: 'A meadow food web',
+      goal: 'What happens to the other animals when one population disappears?',
+      instructions: ['Choose an organism and remove it.', 'Record which populations go up and which go down.', 'Try increasing a population instead.'],
+      observationPrompts: ['What happened to the frogs when the grasshoppers were removed?', 'Why did the grass grow back?'],
+      settings: {
+        simulation: 'food-web',
+        organisms: [
+          { name: 'Grass', role: 'producer' },
+          { name: 'Rabbit', role: 'primary-consumer' },
+          { name: 'Grasshopper', role: 'primary-consumer' },
+          { name: 'Frog', role: 'secondary-consumer' },
+          { name: 'Fox', role: 'tertiary-consumer' },
+        ],
+        links: [
+          { prey: 'Grass', predator: 'Rabbit' },
+          { prey: 'Grass', predator: 'Grasshopper' },
+          { prey: 'Grasshopper', predator: 'Frog' },
+          { prey: 'Rabbit', predator: 'Fox' },
+          { prey: 'Frog', predator: 'Fox' },
+        ],
+      },
+    },
+    question: {
+      type: 'true-false', questionText: 'In the lab, removing the grasshoppers made the frog population go down.',
+      answerIsTrue: true, skill: 'ecosystems', fromLab: true,
+    },
+  },
+  phases: {
+    lab: {
+      title: 'Heating ice',
+      goal: 'What happens to the temperature of water while it changes state?',
+      instructions: ['Heat the ice slowly and watch the thermometer.', 'Record the temperature while the ice melts.', 'Keep heating until the water boils and record again.'],
+      observationPrompts: ['What did the temperature do while the ice was melting?', 'At what temperature did the water boil?'],
+      settings: { simulation: 'phases', substance: 'Water', meltingPoint: 0, boilingPoint: 100, startTemperature: -20 },
+    },
+    question: {
+      type: 'multiple-choice', questionText: 'In the lab, what happened to the temperature while the water was boiling?',
+      options: ['It kept rising', 'It stayed at 100 °C', 'It dropped', 'It went back to 0 °C'], correctAnswerIndex: 1, skill: 'matter', fromLab: true,
+    },
+  },
+};
+
+const LAB_KEYWORDS: [RegExp, LabSimulationType][] = [
+  [/motion|force|projectile|gravity|throw|launch/i, 'projectile'],
+  [/circuit|electric|current|voltage/i, 'circuit'],
+  [/food|ecosystem|predator|prey|population/i, 'food-web'],
+  [/state|phase|melt|boil|heat/i, 'phases'],
+];
+
+// The canned problems whose answer types the subject pack allows. When it allows none of them,
+// the first problem is kept and given the pack's first answer type, so a lesson always has one.
+const fitProblemsToPack = (problems: PracticeProblem[], answerTypes: AnswerType[]): PracticeProblem[] => {
+  const allowed = problems.filter(problem => answerTypes.includes(problem.answerType));
+  return allowed.length > 0 ? allowed : [{ ...problems[0], answerType: answerTypes[0] }];
+};
+
+// Lessons keep the question types their subject pack allows, and subjects with labs get the lab
+// that best matches the topic (the pack's first one when nothing else does).
+export const buildLessonFixture = (topic: string, subject: string): Lesson => {
+  const { questionTypes, answerChecking } = getSubjectPack(subject);
+  const base = buildBaseLessonFixture(topic, subject);
+  const lesson: Lesson = {
+    ...base,
+    quiz: { ...base.quiz, questions: base.quiz.questions.filter(question => questionTypes.includes(question.type)) },
+    practiceProblems: { ...base.practiceProblems, problems: fitProblemsToPack(base.practiceProblems.problems, answerChecking.answerTypes) },
+  };
+  const simulations = labSimulationsFor(subject);
+  if (simulations.length === 0) return lesson;
+  const simulation = LAB_KEYWORDS.find(([pattern, keyword]) => pattern.test(topic) && simulations.includes(keyword))?.[1] ?? simulations[0];
+  const { lab, question } = LAB_FIXTURES[simulation];
+  // The lab question has to survive the pack's question types too.
+  const labQuestion = questionTypes.includes(question.type) ? question : { ...lesson.quiz.questions[0], fromLab: true };
+  return { ...lesson, lab, quiz: { ...lesson.quiz, questions: [...lesson.quiz.questions, labQuestion] } };
+};
+
+export const buildKhanTopicsFixture = (subject: string): string[] => {
+  const { topicSeeds } = getSubjectPack(subject);
+  return topicSeeds.length > 0 ? topicSeeds : getSubjectPack('Math').topicSeeds;
+};
+
+const CURRICULUM_UNITS_FIXTURE = [
+  {
+    title: 'Ratios and Percents',
+    topics: [
+      { title: 'Ratios and Proportions', objectives: ['Write and simplify ratios', 'Solve proportions using cross multiplication'], prerequisites: [], week: 1 },
+      { title: 'Percent Increase and Decrease', objectives: ['Find the percent change between two amounts'], prerequisites: ['Ratios and Proportions'], week: 2 },
+    ],
+  },
+  {
+    title: 'Equations',
+    topics: [
+      { title: 'Solving Two-Step Equations', objectives: ['Solve equations like 3x + 2 = 11', 'Check a solution by substitution'], prerequisites: [], week: 3 },
+    ],
+  },
+  {
+    title: 'Geometry and Probability',
+    topics: [
+      { title: 'Area of Circles', objectives: ['Use A = πr² to find the area of a circle'], prerequisites: [], week: 4 },
+      { title: 'Probability of Simple Events', objectives: ['Find the probability of a single event as a fraction'], prerequisites: ['Ratios and Proportions'], week: 5 },
+    ],
+  },
+];
+
+// Part i of n of an uploaded syllabus; the units are shared out between the parts.
+export const buildCurriculumPartFixture = (partIndex: number, partCount: number) => {
+  const perPart = Math.ceil(CURRICULUM_UNITS_FIXTURE.length / Math.max(1, partCount));
+  return {
+    ...(partIndex === 0 && { courseTitle: 'Grade 7 Math' }),
+    units: CURRICULUM_UNITS_FIXTURE.slice(partIndex * perPart, (partIndex + 1) * perPart),
+  };
+};
+
+export const EXTRA_EXAMPLES_FIXTURE: RealWorldExample[] = [
+  { example: 'Sharing snacks', explanation: 'Dividing 12 cookies among 4 friends gives each friend 3 cookies.' },
+  { example: 'Filling a water bottle', explanation: 'A 1 liter bottle filled halfway holds 500 milliliters.' },
+];
+
+// The remedial payload as the model returns it: one diagnosis per mistake, without the mistakes.
+export const buildRemedialFixture = (topic: string, subject: string, mistakeCount: number) => ({
+  title: `Fixing the tricky parts of ${topic}`,
+  explanation: `Most of these slips come from rushing one step. Slow down, write each step on its own line, and check your answer by putting it back into the question.`,
+  diagnoses: Array.from({ length: mistakeCount }, () => ({
+    misconception: 'The operation was applied to only one side or one part of the problem.',
+    explanation: 'Whatever you do to one side of an equation, or to one part of a fraction, you must also do to the other.',
+  })),
+  practiceProblems: {
+    title: 'Try These Again',
+    problems: fitProblemsToPack([
+      {
+        problemText: 'Solve for \\(x\\): \\(3x - 2 = 10\\)',
+        answer: '4',
+        answerType: 'number',
+        hints: ['Undo the subtraction first.', 'Add 2 to both sides, then divide by 3.'],
+        solutionSteps: ['\\(3x - 2 = 10\\)', 'Add 2 to both sides: \\(3x = 12\\)', 'Divide both sides by 3: \\(x = 4\\)'],
+        skill: 'linear-equations',
+      },
+      {
+        problemText: 'Simplify \\(\\frac{6}{8}\\).',
+        answer: '3/4',
+        answerType: 'fraction',
+        hints: ['Find a number that divides both 6 and 8.', 'Divide the top and bottom by 2.'],
+        solutionSteps: ['The greatest common factor of 6 and 8 is 2.', '\\(\\frac{6 \\div 2}{8 \\div 2} = \\frac{3}{4}\\)'],
+        skill: 'fractions',
+      },
+    ], getSubjectPack(subject).answerChecking.answerTypes),
+  },
+});
+
+// Off-topic questions get steered back; during a timed quiz the demo tutor only hints.
+export const buildTutorFixture = (topic: string, question: string, isQuizInProgress: boolean) => {
+  if (/\b(game|movie|song|weather|joke)s?\b/i.test(question)) {
+    return { reply: `That sounds fun, but let's stay on ${topic} for now. What part of the lesson can I help with?`, offTopic: true };
+  }
+  return {
+    reply: isQuizInProgress
+      ? `Good question! I can't give quiz answers while the timer is running, but try this: what does the core concept say about the first step? Work through that and see where it leads.`
+      : `Let's think about it together. In ${topic}, start from the core concept: which part of it matches your question? Try explaining it back to me in your own words.`,
+    offTopic: false,
+  };
+};
@@ -0,0 +1,40 @@
+import type { LlmProvider, LlmTask, StructuredRequest } from './types';
+import { sleep } from '../request';
+import { buildLessonFixture, buildKhanTopicsFixture, buildCurriculumPartFixture, EXTRA_EXAMPLES_FIXTURE, buildRemedialFixture, buildTutorFixture } from './mockFixtures';
+
+// A network-free provider that answers every request from fixtures. Useful for demos,
+// offline development and tests; no API key required.
+
+const MOCK_LATENCY_MS = 300;
+const STREAM_CHUNK_SIZE = 120; // characters per simulated streaming chunk
+const STREAM_CHUNK_DELAY_MS = 40;
+
+const FIXTURES: Record<LlmTask, (context: Record<string, unknown>) => unknown> = {
+  lesson: ({ topic, subject }) => buildLessonFixture(String(topic ?? 'Fractions'), String(subject ?? 'Math')),
+  khanTopics: ({ subject }) => ({ topics: buildKhanTopicsFixture(String(subject ?? 'Math')) }),
+  curriculumPart: ({ partIndex, partCount }) => buildCurriculumPartFixture(Number(partIndex ?? 0), Number(partCount ?? 1)),
+  moreExamples: () => ({ examples: EXTRA_EXAMPLES_FIXTURE }),
+  remedialLesson: ({ topic, subject, mistakeCount }) => buildRemedialFixture(String(topic ?? 'Fractions'), String(subject ?? 'Math'), Number(mistakeCount ?? 1)),
+  tutorChat: ({ topic, question, isQuizInProgress }) => buildTutorFixture(String(topic ?? 'this lesson'), String(question ?? ''), Boolean(isQuizInProgress)),
+};
+
+export const createMockProvider = (latencyMs: number = MOCK_LATENCY_MS): LlmProvider => ({
+  id: 'mock',
+  modelFor: () => 'mock',
+  generateStructured: async ({ task, prompt, context = {}, signal, onPartialText }: StructuredRequest) => {
+    await sleep(latencyMs, signal);
+    const text = JSON.stringify(FIXTURES[task](context));
+    if (onPartialText) {
+      for (let end = STREAM_CHUNK_SIZE; end < text.length; end += STREAM_CHUNK_SIZE) {
+        onPartialText(text.slice(0, end));
+        await sleep(STREAM_CHUNK_DELAY_MS, signal);
+      }
+      onPartialText(text);
+    }
+    // Rough token counts (about 4 characters per token) so the usage log has something to show.
+    return {
+      text,
+      usage: { inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(text.length / 4) },
+    };
+  },
+});
@@ -0,0 +1,149 @@
+import type { FileAttachment, LlmProvider, ProviderSettings, TokenUsage } from './types';
+import { AiRequestError, SafetyBlockedError, errorFromStatus, toNetworkError } from '../errors';
+
+// Talks to any server that implements the OpenAI chat completions API, e.g. Ollama
+// (http://localhost:11434/v1), llama.cpp's server or LM Studio.
+
+export const DEFAULT_OPENAI_BASE_URL = 'http://localhost:11434/v1';
+
+const decodeBase64Text = (data: string): string =>
+  new TextDecoder().decode(Uint8Array.from(atob(data), c => c.charCodeAt(0)));
+
+const toContentPart = (file: FileAttachment) => {
+  if (file.mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.data}` } };
+  }
+  if (file.mimeType.startsWith('text/')) {
+    return { type: 'text', text: decodeBase64Text(file.data) };
+  }
+  throw new Error(`This AI provider can't read ${file.mimeType || 'this kind of'} files. Try a plain text file instead.`);
+};
+
+// Retry-After is either a number of seconds or an HTTP date.
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  const ms = Number.isNaN(seconds) ? new Date(header).getTime() - Date.now() : seconds * 1000;
+  return Number.isNaN(ms) ? undefined : Math.max(0, ms);
+};
+
+const throwIfFiltered = (finishReason: string | null | undefined) => {
+  if (finishReason === 'content_filter') {
+    throw new SafetyBlockedError('The AI server withheld its response because of a content filter.');
+  }
+};
+
+// A body that isn't JSON is the server's fault, so it fails as an AiRequestError the app can
+// explain rather than as a raw SyntaxError.
+const parseServerJson = (json: string, what: string) => {
+  try {
+    return JSON.parse(json);
+  } catch {
+    throw new AiRequestError(`AI server sent a malformed ${what}.`);
+  }
+};
+
+const toTokenUsage = (usage: { prompt_tokens?: number; completion_tokens?: number } | undefined): TokenUsage | undefined =>
+  usage && { inputTokens: usage.prompt_tokens ?? 0, outputTokens: usage.completion_tokens ?? 0 };
+
+// Collects the content deltas from a server-sent-events chat completion stream. Servers that
+// support stream_options send the token usage in a final chunk with no choices.
+const readStreamedContent = async (
+  response: Response,
+  onPartialText: (textSoFar: string) => void
+): Promise<{ text: string; usage?: TokenUsage }> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: TokenUsage | undefined;
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      const event = parseServerJson(data, 'stream event');
+      usage = toTokenUsage(event.usage) ?? usage;
+      const choice = event.choices?.[0];
+      throwIfFiltered(choice?.finish_reason);
+      const delta: string | undefined = choice?.delta?.content;
+      if (delta) {
+        text += delta;
+        onPartialText(text);
+      }
+    }
+  }
+  return { text, usage };
+};
+
+// Some local models still wrap JSON in a markdown fence.
+const stripCodeFence = (text: string): string =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+export const createOpenAiCompatibleProvider = (settings: ProviderSettings): LlmProvider => {
+  const baseUrl = (settings.baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '');
+  const model = settings.model || 'llama3.1';
+  const fastModel = settings.fastModel || model;
+
+  return {
+    id: 'openai-compatible',
+    modelFor: tier => (tier === 'pro' ? model : fastModel),
+    generateStructured: async ({ task, tier, prompt, schema, attachments = [], signal, onPartialText }) => {
+      const content = attachments.length > 0
+        ? [{ type: 'text', text: prompt }, ...attachments.map(toContentPart)]
+        : prompt;
+
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(settings.apiKey && { Authorization: `Bearer ${settings.apiKey}` }),
+        },
+        body: JSON.stringify({
+          model: tier === 'pro' ? model : fastModel,
+          messages: [
+            { role: 'system', content: 'You respond only with a single JSON object that matches the requested schema.' },
+            { role: 'user', content },
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: task, schema },
+          },
+          stream: !!onPartialText,
+          ...(onPartialText && { stream_options: { include_usage: true } }),
+        }),
+        signal,
+      }).catch(err => { throw toNetworkError(err); });
+
+      if (!response.ok) {
+        const body = await response.text();
+        throw errorFromStatus(response.status, body, parseRetryAfter(response.headers.get('Retry-After')));
+      }
+
+      let text: string | undefined;
+      let usage: TokenUsage | undefined;
+      try {
+        if (onPartialText) {
+          ({ text, usage } = await readStreamedContent(response, onPartialText));
+        } else {
+          const data = parseServerJson(await response.text(), 'response');
+          const choice = data.choices?.[0];
+          throwIfFiltered(choice?.finish_reason);
+          text = choice?.message?.content;
+          usage = toTokenUsage(data.usage);
+        }
+      } catch (err) {
+        throw toNetworkError(err);
+      }
+      if (!text) {
+        throw new AiRequestError('AI server returned an empty response.');
+      }
+      return { text: stripCodeFence(text), usage };
+    },
+  };
+};
@@ -0,0 +1,65 @@
+// Shared contract for the LLM backends the lesson service can talk to.
+
+export type ProviderId = 'gemini' | 'openai-compatible' | 'mock';
+
+// Calls ask for a capability tier rather than a concrete model name; each provider maps
+// tiers onto its own models ('pro' for long structured generation, 'flash' for quick calls).
+export type ModelTier = 'pro' | 'flash';
+
+// Identifies what a request is for. The mock provider uses it to pick a fixture.
+export type LlmTask = 'lesson' | 'curriculumPart' | 'khanTopics' | 'moreExamples' | 'remedialLesson' | 'tutorChat';
+
+// A provider-neutral subset of JSON Schema, enough to describe our response payloads.
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  items?: JsonSchema;
+  required?: string[];
+  enum?: string[];
+}
+
+export interface FileAttachment {
+  data: string; // base64, without the data: URL prefix
+  mimeType: string;
+}
+
+export interface StructuredRequest {
+  task: LlmTask;
+  tier: ModelTier;
+  prompt: string;
+  schema: JsonSchema;
+  attachments?: FileAttachment[];
+  // The raw inputs behind the prompt (topic, subject, ...); only the mock provider reads these.
+  context?: Record<string, unknown>;
+  signal?: AbortSignal;
+  // When set, the response is streamed and this is called with the text received so far.
+  onPartialText?: (textSoFar: string) => void;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number; // includes any "thinking" tokens, which are billed as output
+}
+
+export interface StructuredResponse {
+  text: string; // the model's JSON response
+  usage?: TokenUsage; // missing when the server doesn't report it
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  // The concrete model a tier maps to, e.g. for the usage log.
+  modelFor: (tier: ModelTier) => string;
+  // Rejects with an AbortError if the request's signal is aborted.
+  generateStructured: (request: StructuredRequest) => Promise<StructuredResponse>;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  // Only used by the OpenAI-compatible provider.
+  baseUrl?: string;
+  model?: string;
+  fastModel?: string;
+  // The self-hosted server's own key, kept apart from the Gemini key so that one is never sent to it.
+  apiKey?: string;
+}
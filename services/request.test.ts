@@ -0,0 +1,194 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { sendRequest, type RequestPolicy } from './request';
+import { AiRequestError, AuthError, QuotaError, ServerError, TimeoutError } from './errors';
+import { createOpenAiCompatibleProvider } from './providers/openAiCompatibleProvider';
+import type { LlmProvider, StructuredRequest } from './providers/types';
+import { loadUsageLog } from '../utils/usage';
+import { createMemoryStorage } from '../test/memoryStorage';
+
+// Runs the OpenAI-compatible provider through the request layer against a local stub server.
+// Each test queues the responses the stub gives, in order.
+
+type StubResponse = (res: ServerResponse) => void;
+
+const reply = (status: number, body: unknown, headers: Record<string, string> = {}): StubResponse => res => {
+  // Closing each connection keeps a socket dropped by one test from being reused by the next.
+  res.writeHead(status, { 'Content-Type': 'application/json', Connection: 'close', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const completion = (content: string) =>
+  reply(200, { choices: [{ message: { content }, finish_reason: 'stop' }], usage: { prompt_tokens: 12, completion_tokens: 34 } });
+
+const rawReply = (contentType: string, body: string): StubResponse => res => {
+  res.writeHead(200, { 'Content-Type': contentType, Connection: 'close' });
+  res.end(body);
+};
+
+// Never answers; the request has to give up on its own.
+const hang: StubResponse = () => {};
+
+const POLICY: RequestPolicy = {
+  timeoutMs: { pro: 300, flash: 300 },
+  maxRetries: 2,
+  baseDelayMs: 20,
+  maxDelayMs: 2_000,
+};
+
+const REQUEST: StructuredRequest = {
+  task: 'moreExamples',
+  tier: 'flash',
+  prompt: 'Give me an example.',
+  schema: { type: 'object', properties: { examples: { type: 'array' } } },
+};
+
+let server: Server;
+let provider: LlmProvider;
+let queue: StubResponse[] = [];
+let received: IncomingMessage[] = [];
+
+// The delays the request layer waited before each retry, read from its log line.
+const retryDelays = (warn: ReturnType<typeof vi.spyOn>): number[] =>
+  warn.mock.calls.map(([message]) => Number(/retrying in (\d+)ms/.exec(String(message))?.[1]));
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    received.push(req);
+    req.resume();
+    req.on('end', () => (queue.shift() ?? reply(500, { error: 'No response queued' }))(res));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  provider = createOpenAiCompatibleProvider({
+    provider: 'openai-compatible',
+    baseUrl: `http://127.0.0.1:${port}/v1`,
+    model: 'stub-model',
+    apiKey: 'server-key',
+  });
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise(resolve => server.close(resolve));
+});
+
+let warn: ReturnType<typeof vi.spyOn>;
+
+beforeEach(() => {
+  queue = [];
+  received = [];
+  vi.stubGlobal('localStorage', createMemoryStorage());
+  warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  // Drop any connection a hanging response left open.
+  server.closeAllConnections();
+  vi.restoreAllMocks();
+});
+
+describe('sendRequest with the OpenAI-compatible provider', () => {
+  it('returns the model text and logs the token usage', async () => {
+    queue = [completion('{"examples": []}')];
+
+    await expect(sendRequest(provider, REQUEST, POLICY)).resolves.toBe('{"examples": []}');
+    expect(received[0].url).toBe('/v1/chat/completions');
+    expect(received[0].headers.authorization).toBe('Bearer server-key');
+    expect(loadUsageLog()).toEqual([
+      expect.objectContaining({ task: 'moreExamples', model: 'stub-model', inputTokens: 12, outputTokens: 34, outcome: 'success' }),
+    ]);
+  });
+
+  it('waits as long as Retry-After asks after a 429, then retries', async () => {
+    queue = [reply(429, { error: 'Slow down' }, { 'Retry-After': '1' }), completion('{}')];
+
+    await expect(sendRequest(provider, REQUEST, POLICY)).resolves.toBe('{}');
+    expect(received).toHaveLength(2);
+    expect(retryDelays(warn)).toEqual([1_000]);
+  });
+
+  it('gives up on a 429 whose Retry-After is longer than the policy allows', async () => {
+    queue = [reply(429, { error: 'Come back tomorrow' }, { 'Retry-After': '3600' })];
+
+    const request = sendRequest(provider, REQUEST, POLICY);
+    await expect(request).rejects.toBeInstanceOf(QuotaError);
+    await expect(request).rejects.toMatchObject({ retryAfterMs: 3_600_000 });
+    expect(received).toHaveLength(1);
+  });
+
+  it('retries server errors with a doubling backoff', async () => {
+    queue = [reply(503, { error: 'Overloaded' }), reply(502, { error: 'Bad gateway' }), completion('{}')];
+
+    await expect(sendRequest(provider, REQUEST, POLICY)).resolves.toBe('{}');
+    expect(received).toHaveLength(3);
+    const [first, second] = retryDelays(warn);
+    expect(first).toBeGreaterThanOrEqual(POLICY.baseDelayMs);
+    expect(first).toBeLessThanOrEqual(POLICY.baseDelayMs * 2);
+    expect(second).toBeGreaterThanOrEqual(POLICY.baseDelayMs * 2);
+    expect(second).toBeLessThanOrEqual(POLICY.baseDelayMs * 3);
+  });
+
+  it('fails with a ServerError once the retries are used up', async () => {
+    queue = Array.from({ length: POLICY.maxRetries + 1 }, () => reply(500, { error: 'Down' }));
+
+    const request = sendRequest(provider, REQUEST, POLICY);
+    await expect(request).rejects.toBeInstanceOf(ServerError);
+    await expect(request).rejects.toMatchObject({ status: 500 });
+    expect(received).toHaveLength(POLICY.maxRetries + 1);
+    expect(loadUsageLog().map(entry => entry.outcome)).toEqual(['error', 'error', 'error']);
+    expect(warn).toHaveBeenCalledTimes(POLICY.maxRetries);
+  });
+
+  it('fails with an AiRequestError when the response is not JSON', async () => {
+    queue = [rawReply('application/json', '<html>Bad gateway</html>')];
+
+    const request = sendRequest(provider, REQUEST, POLICY);
+    await expect(request).rejects.toBeInstanceOf(AiRequestError);
+    await expect(request).rejects.toThrow('AI server sent a malformed response.');
+    expect(received).toHaveLength(1);
+  });
+
+  it('fails with an AiRequestError when a streamed event is not JSON', async () => {
+    const events = ['data: {"choices": [{"delta": {"content": "{"}}]}', 'data: {"choices": [', 'data: [DONE]'];
+    queue = [rawReply('text/event-stream', events.map(event => `${event}\n\n`).join(''))];
+
+    const request = sendRequest(provider, { ...REQUEST, onPartialText: () => {} }, POLICY);
+    await expect(request).rejects.toBeInstanceOf(AiRequestError);
+    await expect(request).rejects.toThrow('AI server sent a malformed stream event.');
+  });
+
+  it('turns a 401 into an AuthError without retrying', async () => {
+    queue = [reply(401, { error: 'Invalid key' })];
+
+    await expect(sendRequest(provider, REQUEST, POLICY)).rejects.toBeInstanceOf(AuthError);
+    expect(received).toHaveLength(1);
+  });
+
+  it('times out a server that never answers, without retrying', async () => {
+    queue = [hang];
+
+    await expect(sendRequest(provider, REQUEST, POLICY)).rejects.toBeInstanceOf(TimeoutError);
+    expect(received).toHaveLength(1);
+    expect(loadUsageLog()).toEqual([expect.objectContaining({ outcome: 'error', errorType: 'TimeoutError' })]);
+  });
+
+  it('stops a request in flight when the caller aborts', async () => {
+    queue = [hang];
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 50);
+
+    await expect(sendRequest(provider, { ...REQUEST, signal: controller.signal }, POLICY)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(loadUsageLog()).toEqual([expect.objectContaining({ outcome: 'aborted' })]);
+  });
+
+  it('stops waiting to retry when the caller aborts', async () => {
+    queue = [reply(429, { error: 'Slow down' }, { 'Retry-After': '1' }), completion('{}')];
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 100);
+
+    await expect(sendRequest(provider, { ...REQUEST, signal: controller.signal }, POLICY)).rejects.toMatchObject({ name: 'AbortError' });
+    expect(received).toHaveLength(1);
+  });
+});
@@ -0,0 +1,106 @@
+import type { LlmProvider, ModelTier, StructuredRequest } from './providers/types';
+import type { UsageOutcome } from '../types';
+import { AiRequestError, BudgetExceededError, QuotaError, TimeoutError } from './errors';
+import { isDailyBudgetExceeded, loadUsageSettings, recordUsage } from '../utils/usage';
+
+// The shared request layer: every call to a provider goes through sendRequest, which adds a
+// timeout, retries rate-limit, server and network failures with exponential backoff, and
+// stops as soon as the caller's signal is aborted. Each attempt is written to the usage log,
+// and nothing is sent once the daily budget has been spent.
+
+export interface RequestPolicy {
+  timeoutMs: Record<ModelTier, number>;
+  maxRetries: number;
+  baseDelayMs: number; // first backoff delay; doubles on each retry
+  maxDelayMs: number; // a server asking us to wait longer than this is treated as a hard failure
+}
+
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  // A full lesson on the pro tier can take well over a minute.
+  timeoutMs: { pro: 180_000, flash: 60_000 },
+  maxRetries: 3,
+  baseDelayMs: 1_000,
+  maxDelayMs: 30_000,
+};
+
+// Resolves after `ms`, or rejects with the signal's reason as soon as it is aborted.
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    }, { once: true });
+  });
+
+const checkBudget = () => {
+  if (isDailyBudgetExceeded()) {
+    const budget = loadUsageSettings().dailyBudgetUsd ?? 0;
+    throw new BudgetExceededError(`Today's AI budget of $${budget.toFixed(2)} has been used up.`, budget);
+  }
+};
+
+const backoffDelay = (err: AiRequestError, attempt: number, policy: RequestPolicy): number => {
+  if (err instanceof QuotaError && err.retryAfterMs !== undefined) {
+    return err.retryAfterMs;
+  }
+  const exponential = policy.baseDelayMs * 2 ** attempt;
+  // Jitter keeps several open tabs from retrying in lockstep.
+  return Math.min(policy.maxDelayMs, exponential + Math.random() * policy.baseDelayMs);
+};
+
+export const sendRequest = async (
+  provider: LlmProvider,
+  request: StructuredRequest,
+  policy: RequestPolicy = DEFAULT_REQUEST_POLICY
+): Promise<string> => {
+  const { signal } = request;
+
+  for (let attempt = 0; ; attempt++) {
+    signal?.throwIfAborted();
+    checkBudget();
+    const timeout = AbortSignal.timeout(policy.timeoutMs[request.tier]);
+    const startedAt = Date.now();
+    const logAttempt = (outcome: UsageOutcome, inputTokens = 0, outputTokens = 0, errorType?: string) =>
+      recordUsage({
+        timestamp: new Date(startedAt).toISOString(),
+        task: request.task,
+        provider: provider.id,
+        model: provider.modelFor(request.tier),
+        inputTokens,
+        outputTokens,
+        latencyMs: Date.now() - startedAt,
+        outcome,
+        ...(errorType && { errorType }),
+      });
+
+    try {
+      const response = await provider.generateStructured({
+        ...request,
+        signal: signal ? AbortSignal.any([signal, timeout]) : timeout,
+      });
+      logAttempt('success', response.usage?.inputTokens, response.usage?.outputTokens);
+      return response.text;
+    } catch (caught) {
+      // Failed and cancelled calls are logged without tokens; usage is only reported on success.
+      if (signal?.aborted) {
+        logAttempt('aborted');
+        throw signal.reason;
+      }
+      const err = timeout.aborted
+        ? new TimeoutError(`The AI service didn't respond within ${policy.timeoutMs[request.tier] / 1000} seconds.`)
+        : caught;
+      logAttempt('error', 0, 0, err instanceof Error ? err.name : 'Error');
+      if (!(err instanceof AiRequestError) || !err.retryable || attempt >= policy.maxRetries) {
+        throw err;
+      }
+      const delay = backoffDelay(err, attempt, policy);
+      if (delay > policy.maxDelayMs) {
+        throw err;
+      }
+      console.warn(`${request.task} request failed (${err.name}); retrying in ${Math.round(delay)}ms.`);
+      await sleep(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,636 @@
+import type { AnswerType, LabSimulationType, Lesson, QuizQuestionType } from '../types';
+import { ANSWER_TYPES } from '../utils/answerChecker';
+import { GRADE_LEVELS } from '../utils/difficulty';
+import { BLANK_MARKER, QUIZ_QUESTION_TYPES } from '../utils/quizQuestions';
+import { FOOD_WEB_ROLES, LAB_SIMULATIONS } from '../utils/labs';
+import { GEOMETRY_SHAPES, SHAPE_POINT_COUNTS, VISUAL_KINDS, compileGraphExpression } from '../utils/visuals';
+import { isObject, isOneOf } from '../utils/typeGuards';
+import { AiRequestError } from './errors';
+
+// Runtime checks for the JSON the model sends back. A response schema tells the model what
+// shape to produce, but nothing stops it returning an out-of-range correctAnswerIndex or an
+// empty problems array, and the quiz/problem components assume neither can happen.
+
+export const QUIZ_OPTION_COUNT = 4;
+
+export interface ValidationIssue {
+  path: string; // e.g. "quiz.questions[2].correctAnswerIndex"
+  message: string;
+}
+
+// The malformed-output member of the request error family (see errors.ts).
+export class GenerationValidationError extends AiRequestError {
+  constructor(message: string, public readonly issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'GenerationValidationError';
+  }
+}
+
+export const formatValidationIssue = ({ path, message }: ValidationIssue): string =>
+  path ? `${path}: ${message}` : message;
+
+type Validator = (value: unknown, path: string, issues: ValidationIssue[]) => void;
+
+const join = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const checkString: Validator = (value, path, issues) => {
+  if (typeof value !== 'string' || value.trim() === '') {
+    issues.push({ path, message: 'must be a non-empty string' });
+  }
+};
+
+const checkObject = (value: unknown, path: string, issues: ValidationIssue[], fields: Record<string, Validator>): void => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  Object.entries(fields).forEach(([key, validate]) => validate(value[key], join(path, key), issues));
+};
+
+const checkArray = (minItems: number, validateItem: Validator): Validator => (value, path, issues) => {
+  if (!Array.isArray(value)) {
+    issues.push({ path, message: 'must be an array' });
+    return;
+  }
+  if (value.length < minItems) {
+    issues.push({ path, message: `must have at least ${minItems} item(s), got ${value.length}` });
+  }
+  value.forEach((item, index) => validateItem(item, join(path, index), issues));
+};
+
+const checkOneOf = (allowed: readonly unknown[]): Validator => (value, path, issues) => {
+  if (!allowed.includes(value)) {
+    issues.push({ path, message: `must be one of ${allowed.join(', ')}, got ${JSON.stringify(value)}` });
+  }
+};
+
+const checkExample: Validator = (value, path, issues) =>
+  checkObject(value, path, issues, { example: checkString, explanation: checkString });
+
+// --- Visuals ---
+const MAX_GRAPH_FUNCTIONS = 4;
+const MAX_GRAPH_POINTS = 8;
+const MAX_GRAPH_PARAMETERS = 3;
+const MAX_CHART_ENTRIES = 12;
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const checkNumber: Validator = (value, path, issues) => {
+  if (!isFiniteNumber(value)) {
+    issues.push({ path, message: `must be a number, got ${JSON.stringify(value)}` });
+  }
+};
+
+const checkOptionalString: Validator = (value, path, issues) => {
+  if (value !== undefined && value !== null && typeof value !== 'string') {
+    issues.push({ path, message: 'must be a string when given' });
+  }
+};
+
+// Lists a figure can do without may be missing, or null from providers that fill in every property.
+const checkOptionalArray = (validateItem: Validator): Validator => (value, path, issues) => {
+  if (value !== undefined && value !== null) checkArray(0, validateItem)(value, path, issues);
+};
+
+const checkMaxItems = (value: unknown, max: number, path: string, issues: ValidationIssue[]): void => {
+  if (Array.isArray(value) && value.length > max) {
+    issues.push({ path, message: `must have at most ${max} items, got ${value.length}` });
+  }
+};
+
+const checkRange = (value: unknown, path: string, issues: ValidationIssue[]): void => {
+  if (!Array.isArray(value) || value.length !== 2 || !value.every(isFiniteNumber) || value[0] >= value[1]) {
+    issues.push({ path, message: `must be [min, max] with min below max, got ${JSON.stringify(value)}` });
+  }
+};
+
+const checkVisualPoint: Validator = (value, path, issues) =>
+  checkObject(value, path, issues, { x: checkNumber, y: checkNumber, label: checkOptionalString });
+
+const checkGraph = (value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void => {
+  checkRange(value.xRange, join(path, 'xRange'), issues);
+  checkRange(value.yRange, join(path, 'yRange'), issues);
+  checkObject(value, path, issues, {
+    parameters: checkOptionalArray((parameter, parameterPath, parameterIssues) => {
+      checkObject(parameter, parameterPath, parameterIssues, { min: checkNumber, max: checkNumber, step: checkNumber, value: checkNumber });
+      if (!isObject(parameter)) return;
+      if (typeof parameter.name !== 'string' || !/^[a-wyz]$/.test(parameter.name)) {
+        parameterIssues.push({ path: join(parameterPath, 'name'), message: 'must be a single lowercase letter other than x' });
+      }
+      const { min, max, step, value: initial } = parameter;
+      if ([min, max, step, initial].every(isFiniteNumber) && ((min as number) >= (max as number) || (step as number) <= 0 || (initial as number) < (min as number) || (initial as number) > (max as number))) {
+        parameterIssues.push({ path: parameterPath, message: 'must have min below max, a positive step and a value between min and max' });
+      }
+    }),
+    points: checkOptionalArray(checkVisualPoint),
+  });
+  checkMaxItems(value.parameters, MAX_GRAPH_PARAMETERS, join(path, 'parameters'), issues);
+  checkMaxItems(value.points, MAX_GRAPH_POINTS, join(path, 'points'), issues);
+
+  const parameterNames = Array.isArray(value.parameters) ? value.parameters.filter(isObject).map(parameter => String(parameter.name)) : [];
+  if (new Set(parameterNames).size !== parameterNames.length) {
+    issues.push({ path: join(path, 'parameters'), message: 'must not repeat a parameter name' });
+  }
+  checkOptionalArray((fn, fnPath, fnIssues) => {
+    checkObject(fn, fnPath, fnIssues, { expression: checkString, label: checkOptionalString });
+    if (!isObject(fn) || typeof fn.expression !== 'string') return;
+    try {
+      compileGraphExpression(fn.expression, parameterNames);
+    } catch (err) {
+      fnIssues.push({ path: join(fnPath, 'expression'), message: `must be an expression in x: ${(err as Error).message}` });
+    }
+  })(value.functions, join(path, 'functions'), issues);
+  checkMaxItems(value.functions, MAX_GRAPH_FUNCTIONS, join(path, 'functions'), issues);
+
+  const hasContent = (Array.isArray(value.functions) && value.functions.length > 0) || (Array.isArray(value.points) && value.points.length > 0);
+  if (!hasContent) {
+    issues.push({ path, message: 'a graph must have at least one function or point' });
+  }
+  if (value.connectPoints && !(Array.isArray(value.points) && value.points.length >= 2)) {
+    issues.push({ path: join(path, 'connectPoints'), message: 'needs at least two points to connect' });
+  }
+};
+
+const checkNumberLine = (value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void => {
+  checkObject(value, path, issues, { min: checkNumber, max: checkNumber });
+  if (!isFiniteNumber(value.min) || !isFiniteNumber(value.max)) return;
+  const { min, max } = value;
+  const within = (number: unknown) => isFiniteNumber(number) && number >= min && number <= max;
+  if (min >= max) {
+    issues.push({ path: join(path, 'max'), message: 'must be above min' });
+  }
+  if (value.tickStep !== undefined && value.tickStep !== null && !(isFiniteNumber(value.tickStep) && value.tickStep > 0 && (max - min) / value.tickStep <= 40)) {
+    issues.push({ path: join(path, 'tickStep'), message: 'must be a positive number giving at most 40 ticks' });
+  }
+  checkObject(value, path, issues, {
+    markers: checkOptionalArray((marker, markerPath, markerIssues) => {
+      checkObject(marker, markerPath, markerIssues, { label: checkOptionalString });
+      if (isObject(marker) && !within(marker.value)) {
+        markerIssues.push({ path: join(markerPath, 'value'), message: `must be a number between ${min} and ${max}` });
+      }
+    }),
+    ranges: checkOptionalArray((range, rangePath, rangeIssues) => {
+      if (!isObject(range) || !within(range.from) || !within(range.to) || (range.from as number) >= (range.to as number)) {
+        rangeIssues.push({ path: rangePath, message: `must run from a lower to a higher number between ${min} and ${max}` });
+      }
+    }),
+  });
+};
+
+const checkGeometryShape: Validator = (value, path, issues) => {
+  checkObject(value, path, issues, { points: checkArray(1, checkVisualPoint), label: checkOptionalString });
+  if (!isObject(value)) return;
+  if (!isOneOf(GEOMETRY_SHAPES, value.shape)) {
+    issues.push({ path: join(path, 'shape'), message: `must be one of ${GEOMETRY_SHAPES.join(', ')}` });
+    return;
+  }
+  const shape = value.shape;
+  const needed = SHAPE_POINT_COUNTS[shape];
+  const count = Array.isArray(value.points) ? value.points.length : 0;
+  if (shape === 'polygon' ? count < needed || count > 12 : count !== needed) {
+    issues.push({ path: join(path, 'points'), message: shape === 'polygon' ? `must have 3-12 vertices, got ${count}` : `must have exactly ${needed} point(s) for ${shape === 'angle' ? 'an angle' : `a ${shape}`}, got ${count}` });
+  }
+  if (shape === 'circle' && !(isFiniteNumber(value.radius) && value.radius > 0)) {
+    issues.push({ path: join(path, 'radius'), message: 'must be a positive number' });
+  }
+  (['sideLabels', 'angleLabels'] as const).forEach(key => {
+    const labels = value[key];
+    if (labels === undefined || labels === null) return;
+    if (!Array.isArray(labels) || labels.length > count || !labels.every(label => typeof label === 'string')) {
+      issues.push({ path: join(path, key), message: `must be a list of at most ${count} strings (use "" to skip one)` });
+    }
+  });
+};
+
+const checkChart = (value: Record<string, unknown>, path: string, issues: ValidationIssue[]): void => {
+  checkObject(value, path, issues, {
+    data: checkArray(1, (entry, entryPath, entryIssues) => {
+      checkObject(entry, entryPath, entryIssues, { label: checkString, value: checkNumber });
+      if (isObject(entry) && isFiniteNumber(entry.value) && entry.value < 0) {
+        entryIssues.push({ path: join(entryPath, 'value'), message: 'must not be negative' });
+      }
+    }),
+    xLabel: checkOptionalString,
+    yLabel: checkOptionalString,
+  });
+  checkMaxItems(value.data, MAX_CHART_ENTRIES, join(path, 'data'), issues);
+  const total = Array.isArray(value.data) ? value.data.reduce((sum: number, entry) => sum + (isObject(entry) && isFiniteNumber(entry.value) ? entry.value : 0), 0) : 0;
+  if (value.kind === 'pie-chart' && total <= 0) {
+    issues.push({ path: join(path, 'data'), message: 'a pie chart needs at least one positive value' });
+  }
+};
+
+// Figures are drawn straight from these numbers, so anything that can't be drawn is sent back.
+const checkVisual: Validator = (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  checkOptionalString(value.title, join(path, 'title'), issues);
+  switch (value.kind) {
+    case 'graph':
+      checkGraph(value, path, issues);
+      break;
+    case 'number-line':
+      checkNumberLine(value, path, issues);
+      break;
+    case 'geometry':
+      checkObject(value, path, issues, { shapes: checkArray(1, checkGeometryShape) });
+      break;
+    case 'bar-chart':
+    case 'pie-chart':
+      checkChart(value, path, issues);
+      break;
+    default:
+      issues.push({ path: join(path, 'kind'), message: `must be one of ${VISUAL_KINDS.join(', ')}` });
+  }
+};
+
+const checkOptionalVisual: Validator = (value, path, issues) => {
+  if (value !== undefined && value !== null) checkVisual(value, path, issues);
+};
+
+// --- Labs ---
+const MAX_OBSERVATION_PROMPTS = 5;
+
+const checkNumberBetween = (min: number, max: number): Validator => (value, path, issues) => {
+  if (!isFiniteNumber(value) || value < min || value > max) {
+    issues.push({ path, message: `must be a number from ${min} to ${max}, got ${JSON.stringify(value)}` });
+  }
+};
+
+const checkPositiveNumber = (max: number): Validator => (value, path, issues) => {
+  if (!isFiniteNumber(value) || value <= 0 || value > max) {
+    issues.push({ path, message: `must be a number above 0 and at most ${max}, got ${JSON.stringify(value)}` });
+  }
+};
+
+const checkUniqueNames = (value: unknown, path: string, issues: ValidationIssue[]): string[] => {
+  const names = Array.isArray(value) ? value.filter(isObject).map(item => item.name) : [];
+  if (new Set(names).size !== names.length) {
+    issues.push({ path, message: 'must not repeat a name' });
+  }
+  return names.filter((name): name is string => typeof name === 'string');
+};
+
+// The simulations run on these numbers as given, so each is kept to a range the lab can show.
+const checkLabSettings = (simulations: LabSimulationType[]): Validator => (value, path, issues) => {
+  if (!isObject(value)) {
+    issues.push({ path, message: 'must be an object' });
+    return;
+  }
+  if (!isOneOf(simulations, value.simulation)) {
+    issues.push({ path: join(path, 'simulation'), message: `must be one of ${simulations.join(', ')}` });
+    return;
+  }
+  switch (value.simulation) {
+    case 'projectile':
+      checkObject(value, path, issues, {
+        speed: checkPositiveNumber(100),
+        angle: checkNumberBetween(0, 90),
+        gravity: checkPositiveNumber(30),
+        launchHeight: checkNumberBetween(0, 100),
+      });
+      break;
+    case 'density':
+      checkObject(value, path, issues, {
+        objects: checkArray(1, (object, objectPath, objectIssues) =>
+          checkObject(object, objectPath, objectIssues, { name: checkString, mass: checkPositiveNumber(100000), volume: checkPositiveNumber(100000) })),
+        liquids: checkArray(1, (liquid, liquidPath, liquidIssues) =>
+          checkObject(liquid, liquidPath, liquidIssues, { name: checkString, density: checkPositiveNumber(25) })),
+      });
+      checkMaxItems(value.objects, 6, join(path, 'objects'), issues);
+      checkMaxItems(value.liquids, 4, join(path, 'liquids'), issues);
+      checkUniqueNames(value.objects, join(path, 'objects'), issues);
+      checkUniqueNames(value.liquids, join(path, 'liquids'), issues);
+      break;
+    case 'circuit':
+      checkObject(value, path, issues, { voltage: checkPositiveNumber(240), resistors: checkArray(1, checkPositiveNumber(1000)) });
+      checkMaxItems(value.resistors, 4, join(path, 'resistors'), issues);
+      if (value.arrangement !== 'series' && value.arrangement !== 'parallel') {
+        issues.push({ path: join(path, 'arrangement'), message: 'must be series or parallel' });
+      }
+      break;
+    case 'food-web': {
+      checkObject(value, path, issues, {
+        organisms: checkArray(3, (organism, organismPath, organismIssues) => {
+          checkObject(organism, organismPath, organismIssues, { name: checkString });
+          if (isObject(organism) && !isOneOf(FOOD_WEB_ROLES, organism.role)) {
+            organismIssues.push({ path: join(organismPath, 'role'), message: `must be one of ${FOOD_WEB_ROLES.join(', ')}` });
+          }
+        }),
+      });
+      checkMaxItems(value.organisms, 10, join(path, 'organisms'), issues);
+      const names = checkUniqueNames(value.organisms, join(path, 'organisms'), issues);
+      checkArray(2, (link, linkPath, linkIssues) => {
+        if (!isObject(link) || !names.includes(link.prey as string) || !names.includes(link.predator as string) || link.prey === link.predator) {
+          linkIssues.push({ path: linkPath, message: 'must link two different organisms by name, as { prey, predator }' });
+        }
+      })(value.links, join(path, 'links'), issues);
+      break;
+    }
+    case 'phases':
+      checkObject(value, path, issues, {
+        substance: checkString,
+        meltingPoint: checkNumberBetween(-273, 4000),
+        boilingPoint: checkNumberBetween(-273, 4000),
+        startTemperature: checkNumberBetween(-273, 4000),
+      });
+      if (isFiniteNumber(value.meltingPoint) && isFiniteNumber(value.boilingPoint) && value.meltingPoint >= value.boilingPoint) {
+        issues.push({ path: join(path, 'boilingPoint'), message: 'must be above the melting point' });
+      }
+      if (isFiniteNumber(value.startTemperature) && isFiniteNumber(value.boilingPoint) && value.startTemperature >= value.boilingPoint) {
+        issues.push({ path: join(path, 'startTemperature'), message: 'must be below the boiling point, so there is something to heat' });
+      }
+      break;
+  }
+};
+
+const checkLab = (simulations = LAB_SIMULATIONS): Validator => (value, path, issues) => {
+  checkObject(value, path, issues, {
+    title: checkString,
+    goal: checkString,
+    instructions: checkArray(1, checkString),
+    observationPrompts: checkArray(1, checkString),
+    settings: checkLabSettings(simulations),
+  });
+  if (isObject(value)) {
+    checkMaxItems(value.observationPrompts, MAX_OBSERVATION_PROMPTS, join(path, 'observationPrompts'), issues);
+  }
+};
+
+const checkOptions = (value: Record<string, unknown>, path: string, issues: ValidationIssue[]): string[] | null => {
+  checkArray(1, checkString)(value.options, join(path, 'options'), issues);
+  if (!Array.isArray(value.options)) return null;
+  const { options } = value;
+  if (options.length !== QUIZ_OPTION_COUNT) {
+    issues.push({ path: join(path, 'options'), message: `must have exactly ${QUIZ_OPTION_COUNT} options, got ${options.length}` });
+  }
+  if (new Set(options).size !== options.length) {
+    issues.push({ path: join(path, 'options'), message: 'must not contain duplicate options' });
+  }
+  return options;
+};
+
+const isIndexInto = (index: unknown, items: unknown[]): boolean =>
+  Number.isInteger(index) && (index as number) >= 0 && (index as number) < items.length;
+
+const checkDistinctStrings = (min: number, max: number): Validator => (value, path, issues) => {
+  checkArray(min, checkString)(value, path, issues);
+  if (!Array.isArray(value)) return;
+  if (value.length > max) {
+    issues.push({ path, message: `must have at most ${max} items, got ${value.length}` });
+  }
+  if (new Set(value).size !== value.length) {
+    issues.push({ path, message: 'must not contain duplicates' });
+  }
+};
+
+// Plain numbers and fractions only, since that is what isAnswerCorrect compares as a 'number'.
+const NUMERIC_ANSWER_PATTERN = /^-?(\d+(\.\d+)?|\.\d+)(\/\d+)?$/;
+
+// The schema sends every type's fields as optional, so each question is checked against the
+// fields its own type needs and anything else is ignored.
+const checkQuizQuestion = (questionTypes = QUIZ_QUESTION_TYPES): Validator => (value, path, issues) => {
+  checkObject(value, path, issues, { questionText: checkString, visual: checkOptionalVisual });
+  if (!isObject(value)) return;
+  if (!isOneOf(questionTypes, value.type)) {
+    issues.push({ path: join(path, 'type'), message: `must be one of ${questionTypes.join(', ')}` });
+    return;
+  }
+  if (value.fromLab !== undefined && value.fromLab !== null && typeof value.fromLab !== 'boolean') {
+    issues.push({ path: join(path, 'fromLab'), message: 'must be true or false when given' });
+  }
+
+  switch (value.type) {
+    case 'multiple-choice': {
+      const options = checkOptions(value, path, issues);
+      if (options && !isIndexInto(value.correctAnswerIndex, options)) {
+        issues.push({
+          path: join(path, 'correctAnswerIndex'),
+          message: `must be an integer between 0 and ${options.length - 1}, got ${JSON.stringify(value.correctAnswerIndex)}`,
+        });
+      }
+      if (Array.isArray(value.optionVisuals) && value.optionVisuals.length > 0) {
+        checkArray(1, checkVisual)(value.optionVisuals, join(path, 'optionVisuals'), issues);
+        if (options && value.optionVisuals.length !== options.length) {
+          issues.push({ path: join(path, 'optionVisuals'), message: `must have one figure per option (${options.length}), got ${value.optionVisuals.length}` });
+        }
+      }
+      break;
+    }
+    case 'multi-select': {
+      const options = checkOptions(value, path, issues);
+      const indices = value.correctAnswerIndices;
+      if (options && (!Array.isArray(indices) || indices.length === 0 || !indices.every(index => isIndexInto(index, options)) || new Set(indices).size !== indices.length)) {
+        issues.push({
+          path: join(path, 'correctAnswerIndices'),
+          message: `must list one or more different integers between 0 and ${options.length - 1}, got ${JSON.stringify(indices)}`,
+        });
+      }
+      break;
+    }
+    case 'true-false':
+      if (typeof value.answerIsTrue !== 'boolean') {
+        issues.push({ path: join(path, 'answerIsTrue'), message: 'must be true or false' });
+      }
+      break;
+    case 'numeric':
+      if (typeof value.numericAnswer !== 'string' || !NUMERIC_ANSWER_PATTERN.test(value.numericAnswer.trim())) {
+        issues.push({ path: join(path, 'numericAnswer'), message: `must be a plain number or fraction such as "12.5" or "3/4", got ${JSON.stringify(value.numericAnswer)}` });
+      }
+      if (value.unit !== undefined && value.unit !== null && typeof value.unit !== 'string') {
+        issues.push({ path: join(path, 'unit'), message: 'must be a string when given' });
+      }
+      break;
+    case 'fill-blank':
+      checkArray(1, checkString)(value.acceptedAnswers, join(path, 'acceptedAnswers'), issues);
+      if (typeof value.questionText === 'string' && value.questionText.split(BLANK_MARKER).length !== 2) {
+        issues.push({ path: join(path, 'questionText'), message: `must mark exactly one blank with ${BLANK_MARKER}` });
+      }
+      break;
+    case 'ordering':
+      checkDistinctStrings(3, 8)(value.orderedItems, join(path, 'orderedItems'), issues);
+      break;
+    case 'matching': {
+      checkArray(3, (pair, pairPath, pairIssues) =>
+        checkObject(pair, pairPath, pairIssues, { left: checkString, right: checkString }))(value.pairs, join(path, 'pairs'), issues);
+      if (!Array.isArray(value.pairs)) break;
+      const pairs = value.pairs.filter(isObject);
+      if (value.pairs.length > 6) {
+        issues.push({ path: join(path, 'pairs'), message: `must have at most 6 pairs, got ${value.pairs.length}` });
+      }
+      if (new Set(pairs.map(pair => pair.left)).size !== pairs.length || new Set(pairs.map(pair => pair.right)).size !== pairs.length) {
+        issues.push({ path: join(path, 'pairs'), message: 'must not repeat an item on either side' });
+      }
+      break;
+    }
+  }
+};
+
+// New problems must come with hints and a worked solution; lessons saved before those
+// existed have empty lists (see lessonLibrary.ts), so stored lessons only need the arrays.
+const checkPracticeProblem = (requireSolutions: boolean, answerTypes = ANSWER_TYPES): Validator => (value, path, issues) =>
+  checkObject(value, path, issues, {
+    problemText: checkString,
+    answer: checkString,
+    answerType: (answerType, answerTypePath) => {
+      if (!isOneOf(answerTypes, answerType)) {
+        issues.push({ path: answerTypePath, message: `must be one of ${answerTypes.join(', ')}` });
+      }
+    },
+    hints: checkArray(requireSolutions ? 1 : 0, checkString),
+    solutionSteps: checkArray(requireSolutions ? 1 : 0, checkString),
+  });
+
+const checkQuiz = (questionTypes?: QuizQuestionType[]): Validator => (value, path, issues) =>
+  checkObject(value, path, issues, { title: checkString, questions: checkArray(1, checkQuizQuestion(questionTypes)) });
+
+const checkPracticeProblems = (requireSolutions: boolean, answerTypes?: AnswerType[]): Validator => (value, path, issues) =>
+  checkObject(value, path, issues, { title: checkString, problems: checkArray(1, checkPracticeProblem(requireSolutions, answerTypes)) });
+
+// What a new lesson may contain in its subject (see utils/subjectPacks.ts). Anything left out
+// is unrestricted, which is how lessons restored from storage are checked.
+export interface LessonRules {
+  questionTypes?: QuizQuestionType[];
+  answerTypes?: AnswerType[];
+  labSimulations?: LabSimulationType[]; // when given, the lesson must have a lab using one of them
+}
+
+// A lab is only required of new lessons in subjects with labs; other lessons may not have one.
+// When it is, the quiz must ask about it, which is how the lab feeds into the quiz.
+const checkLesson = (requireSolutions: boolean, rules: LessonRules = {}): Validator => (lesson, path, issues) => {
+  const requireLab = !!rules.labSimulations?.length;
+  checkObject(lesson, path, issues, {
+    topic: checkString,
+    introduction: checkString,
+    coreConcept: (concept, conceptPath) =>
+      checkObject(concept, conceptPath, issues, {
+        title: checkString,
+        explanation: checkString,
+        realWorldExamples: checkArray(1, checkExample),
+        visuals: checkOptionalArray(checkVisual),
+      }),
+    quiz: checkQuiz(rules.questionTypes),
+    practiceProblems: checkPracticeProblems(requireSolutions, rules.answerTypes),
+  });
+  if (!isObject(lesson)) return;
+  if (requireLab || (lesson.lab !== undefined && lesson.lab !== null)) {
+    checkLab(requireLab ? rules.labSimulations : LAB_SIMULATIONS)(lesson.lab, join(path, 'lab'), issues);
+  }
+  const questions = isObject(lesson.quiz) && Array.isArray(lesson.quiz.questions) ? lesson.quiz.questions : [];
+  if (requireLab && !questions.some(question => isObject(question) && question.fromLab === true)) {
+    issues.push({ path: join(path, 'quiz.questions'), message: 'must include at least one question marked fromLab about the lab' });
+  }
+};
+
+const runValidator = (validate: Validator, value: unknown, path = ''): ValidationIssue[] => {
+  const issues: ValidationIssue[] = [];
+  validate(value, path, issues);
+  return issues;
+};
+
+export const validateVisual = (value: unknown): ValidationIssue[] => runValidator(checkVisual, value);
+
+export const validateLab = (value: unknown): ValidationIssue[] => runValidator(checkLab(), value, 'lab');
+
+export const validateQuiz = (value: unknown): ValidationIssue[] => runValidator(checkQuiz(), value, 'quiz');
+
+export const validatePracticeProblems = (value: unknown): ValidationIssue[] =>
+  runValidator(checkPracticeProblems(true), value, 'practiceProblems');
+
+export const validateLesson = (value: unknown, rules: LessonRules = {}): ValidationIssue[] =>
+  runValidator(checkLesson(true, rules), value);
+
+export const validateTopicsPayload = (value: unknown): ValidationIssue[] =>
+  runValidator((payload, path, issues) =>
+    checkObject(payload, path, issues, { topics: checkArray(1, checkString) }), value);
+
+export const validateExamplesPayload = (value: unknown): ValidationIssue[] =>
+  runValidator((payload, path, issues) =>
+    checkObject(payload, path, issues, { examples: checkArray(1, checkExample) }), value);
+
+// The model's remedial lesson has one diagnosis per mistake it was sent, in the same order.
+export const validateRemedialPayload = (value: unknown, mistakeCount: number, answerTypes?: AnswerType[]): ValidationIssue[] =>
+  runValidator((payload, path, issues) => {
+    checkObject(payload, path, issues, {
+      title: checkString,
+      explanation: checkString,
+      diagnoses: checkArray(1, (diagnosis, diagnosisPath, diagnosisIssues) =>
+        checkObject(diagnosis, diagnosisPath, diagnosisIssues, { misconception: checkString, explanation: checkString })),
+      practiceProblems: checkPracticeProblems(true, answerTypes),
+    });
+    if (isObject(payload) && Array.isArray(payload.diagnoses) && payload.diagnoses.length !== mistakeCount) {
+      issues.push({ path: 'diagnoses', message: `must have exactly ${mistakeCount} item(s), one per mistake, got ${payload.diagnoses.length}` });
+    }
+  }, value);
+
+export const validateTutorPayload = (value: unknown): ValidationIssue[] =>
+  runValidator((payload, path, issues) => {
+    checkObject(payload, path, issues, { reply: checkString });
+    if (isObject(payload) && typeof payload.offTopic !== 'boolean') {
+      issues.push({ path: join(path, 'offTopic'), message: 'must be true or false' });
+    }
+  }, value);
+
+const checkCurriculumTopic: Validator = (value, path, issues) => {
+  checkObject(value, path, issues, {
+    title: checkString,
+    objectives: checkArray(0, checkString),
+    prerequisites: checkArray(0, checkString),
+  });
+  if (isObject(value) && value.week !== undefined && value.week !== null && !(Number.isInteger(value.week) && (value.week as number) > 0)) {
+    issues.push({ path: join(path, 'week'), message: `must be a positive whole number when given, got ${JSON.stringify(value.week)}` });
+  }
+};
+
+// One part of a syllabus. A part can hold no units at all (e.g. a page of grading policies).
+export const validateCurriculumPartPayload = (value: unknown): ValidationIssue[] =>
+  runValidator((payload, path, issues) => {
+    checkObject(payload, path, issues, {
+      units: checkArray(0, (unit, unitPath, unitIssues) =>
+        checkObject(unit, unitPath, unitIssues, { title: checkString, topics: checkArray(1, checkCurriculumTopic) })),
+    });
+    if (isObject(payload) && payload.courseTitle !== undefined && typeof payload.courseTitle !== 'string') {
+      issues.push({ path: join(path, 'courseTitle'), message: 'must be a string when given' });
+    }
+  }, value);
+
+// A subject pack loaded from a file (utils/subjectPacks.ts). Only the name is required; the
+// rest is checked when given, since the pack is merged with defaults.
+export const validateSubjectPack = (value: unknown): ValidationIssue[] =>
+  runValidator((pack, path, issues) => {
+    checkObject(pack, path, issues, {
+      name: checkString,
+      description: checkOptionalString,
+      skillSubject: checkOptionalString,
+      topicSeeds: checkOptionalArray(checkString),
+      questionTypes: checkOptionalArray(checkOneOf(QUIZ_QUESTION_TYPES)),
+      labSimulations: checkOptionalArray(checkOneOf(LAB_SIMULATIONS)),
+    });
+    if (!isObject(pack)) return;
+    const { gradeRange, prompts, answerChecking } = pack;
+    if (gradeRange !== undefined && !(Array.isArray(gradeRange) && gradeRange.length === 2 && gradeRange.every(grade => GRADE_LEVELS.includes(grade)) && gradeRange[0] <= gradeRange[1])) {
+      issues.push({ path: 'gradeRange', message: `must be [lowest, highest] with grades from ${GRADE_LEVELS[0]} to ${GRADE_LEVELS[GRADE_LEVELS.length - 1]}, got ${JSON.stringify(gradeRange)}` });
+    }
+    if (Array.isArray(pack.questionTypes) && pack.questionTypes.length === 0) {
+      issues.push({ path: 'questionTypes', message: 'must list at least one question type' });
+    }
+    if (prompts !== undefined) {
+      checkObject(prompts, 'prompts', issues, { teacher: checkOptionalString, lessonGuidance: checkOptionalString, topicGuidance: checkOptionalString });
+    }
+    if (answerChecking !== undefined) {
+      checkObject(answerChecking, 'answerChecking', issues, {
+        answerTypes: checkOptionalArray(checkOneOf(ANSWER_TYPES)),
+        fillBlankAs: (fillBlankAs, fillBlankPath) => fillBlankAs !== undefined && checkOneOf(['expression', 'text'])(fillBlankAs, fillBlankPath, issues),
+        tolerance: (tolerance, tolerancePath) => tolerance !== undefined && checkNumberBetween(0, 0.2)(tolerance, tolerancePath, issues),
+      });
+      if (isObject(answerChecking) && Array.isArray(answerChecking.answerTypes) && answerChecking.answerTypes.length === 0) {
+        issues.push({ path: 'answerChecking.answerTypes', message: 'must list at least one answer type' });
+      }
+    }
+  }, value);
+
+// Type guard for callers that already hold parsed data (e.g. lessons restored from storage).
+export const isValidLesson = (value: unknown): value is Lesson => runValidator(checkLesson(false), value).length === 0;
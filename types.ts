@@ -3,26 +3,152 @@ export interface RealWorldExample {
   explanation: string;
 }
 
+// Declarative pictures for lessons and quiz questions, drawn as SVG by components/Visual.tsx.
+// Coordinates are in the figure's own units: graph units, or any consistent scale for geometry.
+export interface VisualPoint {
+  x: number;
+  y: number;
+  label?: string;
+}
+
+export interface GraphParameter {
+  name: string; // one letter used in the expressions, e.g. "m"; shown as a slider
+  min: number;
+  max: number;
+  step: number;
+  value: number;
+}
+
+export interface GraphVisual {
+  kind: 'graph';
+  title?: string;
+  xRange: [number, number];
+  yRange: [number, number];
+  functions: { expression: string; label?: string }[]; // in x, e.g. "m*x + b"
+  points: (VisualPoint & { draggable?: boolean })[];
+  connectPoints?: boolean; // draws the line through the first two points and shows its slope
+  parameters: GraphParameter[];
+}
+
+export interface NumberLineVisual {
+  kind: 'number-line';
+  title?: string;
+  min: number;
+  max: number;
+  tickStep?: number;
+  markers: { value: number; label?: string; open?: boolean }[]; // open circles for strict inequalities
+  ranges: { from: number; to: number }[]; // shaded stretches of the line
+}
+
+export type GeometryShapeType = 'polygon' | 'circle' | 'segment' | 'angle';
+
+export interface GeometryShape {
+  shape: GeometryShapeType;
+  points: VisualPoint[]; // polygon: the vertices; circle: the center; segment: both ends; angle: arm, vertex, arm
+  radius?: number; // circles only
+  label?: string; // a segment's length, a circle's radius or an angle's size
+  sideLabels?: string[]; // polygons: side i runs from vertex i to the next
+  angleLabels?: string[]; // polygons: the angle at vertex i
+}
+
+export interface GeometryVisual {
+  kind: 'geometry';
+  title?: string;
+  shapes: GeometryShape[];
+}
+
+export interface ChartVisual {
+  kind: 'bar-chart' | 'pie-chart';
+  title?: string;
+  data: { label: string; value: number }[];
+  xLabel?: string; // bar charts only
+  yLabel?: string;
+}
+
+export type VisualSpec = GraphVisual | NumberLineVisual | GeometryVisual | ChartVisual;
+
+export type VisualKind = VisualSpec['kind'];
+
 export interface CoreConcept {
   title: string;
   explanation: string;
   realWorldExamples: RealWorldExample[];
+  visuals?: VisualSpec[]; // missing on lessons saved before visuals existed
 }
 
-export interface QuizQuestion {
+export type QuizQuestionType = 'multiple-choice' | 'multi-select' | 'true-false' | 'numeric' | 'fill-blank' | 'ordering' | 'matching';
+
+interface QuizQuestionBase {
   questionText: string;
+  skill?: string; // skill id from utils/skills.ts; missing on lessons saved before skills existed
+  visual?: VisualSpec; // a figure the question refers to
+  fromLab?: boolean; // answered from what the student observed in the lesson's virtual lab
+}
+
+// Lessons saved before other question types existed have no type; they are multiple choice.
+export interface MultipleChoiceQuestion extends QuizQuestionBase {
+  type: 'multiple-choice';
   options: string[];
   correctAnswerIndex: number;
+  optionVisuals?: VisualSpec[]; // one figure per option, for "which graph shows..." questions
+}
+
+export interface MultiSelectQuestion extends QuizQuestionBase {
+  type: 'multi-select';
+  options: string[];
+  correctAnswerIndices: number[]; // every option that must be ticked
+}
+
+export interface TrueFalseQuestion extends QuizQuestionBase {
+  type: 'true-false';
+  answerIsTrue: boolean;
+}
+
+export interface NumericQuestion extends QuizQuestionBase {
+  type: 'numeric';
+  numericAnswer: string; // a plain number or fraction, e.g. "12.5" or "3/4"
+  unit?: string; // shown next to the input, e.g. "cm"
+}
+
+export interface FillBlankQuestion extends QuizQuestionBase {
+  type: 'fill-blank'; // questionText marks the blank with ___
+  acceptedAnswers: string[];
 }
 
+export interface OrderingQuestion extends QuizQuestionBase {
+  type: 'ordering';
+  orderedItems: string[]; // in the correct order; shuffled when shown
+}
+
+export interface MatchingQuestion extends QuizQuestionBase {
+  type: 'matching';
+  pairs: { left: string; right: string }[]; // the right-hand side is shuffled when shown
+}
+
+export type QuizQuestion =
+  | MultipleChoiceQuestion
+  | MultiSelectQuestion
+  | TrueFalseQuestion
+  | NumericQuestion
+  | FillBlankQuestion
+  | OrderingQuestion
+  | MatchingQuestion;
+
 export interface Quiz {
   title: string;
   questions: QuizQuestion[];
 }
 
+// What kind of answer a practice problem expects; drives how answers are compared.
+export type AnswerType = 'number' | 'fraction' | 'percent' | 'measurement' | 'expression' | 'text';
+
 export interface PracticeProblem {
   problemText: string;
   answer: string;
+  answerType: AnswerType;
+  hints: string[]; // revealed one at a time, each a little more direct than the last
+  solutionSteps: string[]; // worked solution, shown after grading
+  skill?: string; // skill id from utils/skills.ts
 }
 
 export interface PracticeProblems {
@@ -30,37 +156,171 @@ export interface PracticeProblems {
   problems: PracticeProblem[];
 }
 
+// School grade a lesson is pitched at, with easy/medium/hard steps inside each grade.
+export type GradeLevel = 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12;
+
+export type DifficultyTier = 'easy' | 'medium' | 'hard';
+
+export interface Difficulty {
+  grade: GradeLevel;
+  tier: DifficultyTier;
+}
+
+// Virtual labs: small simulations run in the browser for science lessons (components/VirtualLab.tsx).
+export type LabSimulationType = 'projectile' | 'density' | 'circuit' | 'food-web' | 'phases';
+
+export interface ProjectileLabSettings {
+  simulation: 'projectile';
+  speed: number; // m/s
+  angle: number; // degrees above the horizontal
+  gravity: number; // m/s²
+  launchHeight: number; // m
+}
+
+export interface DensityLabSettings {
+  simulation: 'density';
+  objects: { name: string; mass: number; volume: number }[]; // g and cm³
+  liquids: { name: string; density: number }[]; // g/cm³
+}
+
+export interface CircuitLabSettings {
+  simulation: 'circuit';
+  voltage: number; // V
+  resistors: number[]; // Ω, each drawn as a bulb
+  arrangement: 'series' | 'parallel';
+}
+
+export type FoodWebRole = 'producer' | 'primary-consumer' | 'secondary-consumer' | 'tertiary-consumer' | 'decomposer';
+
+export interface FoodWebLabSettings {
+  simulation: 'food-web';
+  organisms: { name: string; role: FoodWebRole }[];
+  links: { prey: string; predator: string }[]; // organism names; energy flows from prey to predator
+}
+
+export interface PhasesLabSettings {
+  simulation: 'phases';
+  substance: string;
+  meltingPoint: number; // °C
+  boilingPoint: number; // °C
+  startTemperature: number; // °C
+}
+
+export type LabSettings = ProjectileLabSettings | DensityLabSettings | CircuitLabSettings | FoodWebLabSettings | PhasesLabSettings;
+
+export interface VirtualLab {
+  title: string;
+  goal: string; // what the student is trying to find out
+  instructions: string[];
+  observationPrompts: string[]; // questions the student answers in their lab notebook
+  settings: LabSettings;
+}
+
+// What the student recorded in the lab; the quiz's lab questions show it alongside.
+export interface LabNotebook {
+  readings: string[]; // simulation results saved with "Record"
+  answers: string[]; // one per observation prompt
+}
+
 export interface Lesson {
   topic: string;
   introduction: string;
   coreConcept: CoreConcept;
+  lab?: VirtualLab; // only for subjects with labs
   quiz: Quiz;
   practiceProblems: PracticeProblems;
+  difficulty?: Difficulty; // missing on lessons saved before difficulty levels existed
+  skills?: string[]; // skill ids the lesson teaches, main skill first
 }
 
-export type ActiveTab = 'lesson' | 'quiz' | 'problems';
+// The settings a lesson was generated with; part of the lesson library's cache key.
+export interface GenerationSettings {
+  provider: string;
+  model?: string;
+}
+
+export interface SavedLesson {
+  id: string;
+  profileId: string;
+  cacheKey: string;
+  title: string;
+  subject: Subject;
+  settings: GenerationSettings;
+  lesson: Lesson;
+  tutorChat?: TutorMessage[]; // the student's conversation with the tutor about this lesson
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
+
+export type ActiveTab = 'lesson' | 'lab' | 'quiz' | 'problems';
 
 export type TopicSource = 'manual' | 'upload' | 'khan';
 
-export type Subject = 'Math' | 'Science';
+// A subject is the name of a subject pack (utils/subjectPacks.ts): the built-in ones or a
+// custom pack loaded from a JSON file.
+export type Subject = string;
+
+// Prompt templates may use {subject}, {grade} and {topic}; see fillPromptTemplate.
+export interface SubjectPromptTemplates {
+  teacher: string; // who the model plays, e.g. "an expert chemistry teacher"
+  lessonGuidance: string; // added to lesson prompts
+  topicGuidance: string; // added when asking for a list of topics
+}
+
+// How typed answers are marked in a subject (utils/answerChecker.ts).
+export interface AnswerCheckingStrategy {
+  answerTypes: AnswerType[]; // the answer types its practice problems may use
+  fillBlankAs: 'expression' | 'text'; // words must be compared as text, or "ab" would match "ba"
+  tolerance: number; // relative error accepted in numeric answers, e.g. 0.02 for measured values; 0 for exact
+}
+
+export interface SubjectPack {
+  name: string;
+  description: string;
+  gradeRange: [GradeLevel, GradeLevel]; // lowest and highest grade offered
+  prompts: SubjectPromptTemplates;
+  questionTypes: QuizQuestionType[]; // the quiz question types its lessons may use
+  topicSeeds: string[]; // core topics, used to suggest topic lists
+  answerChecking: AnswerCheckingStrategy;
+  skillSubject?: string; // the subject whose skills (utils/skills.ts) its lessons are tagged with; defaults to its name
+  labSimulations?: LabSimulationType[]; // the virtual labs its lessons may include; none when missing
+  custom?: boolean; // loaded from a file rather than built in
+}
+
+// Which part of a lesson a mistake came from. Quiz and problem mistakes are reviewed separately.
+export type MistakeSource = 'quiz' | 'problems';
 
 export interface Mistake {
   questionText: string;
   userAnswer: string;
   correctAnswer: string;
+  source: MistakeSource;
+}
+
+// One answered quiz question or practice problem, for per-skill mastery tracking
+export interface SkillOutcome {
+  skill: string; // skill id from utils/skills.ts
+  correct: boolean;
+  source: MistakeSource;
 }
 
 // Updated types for progress tracking
 export interface LessonRecord {
   date: string; // ISO date string (e.g., "2023-10-27")
   topic: string;
+  subject: Subject; // the subject pack the lesson was made in
   quizScore: number;
   quizTotal: number;
   quizTimeTaken: number; // in seconds
   problemsScore: number;
   problemsTotal: number;
   problemsTimeTaken: number; // in seconds
+  problemsHintsUsed: number;
+  timerMode: TimerMode; // how the quiz and problems were timed, so times are only compared like with like
+  timeMultiplier: TimeMultiplier;
+  difficulty: Difficulty;
   mistakes: Mistake[];
+  skillOutcomes: SkillOutcome[]; // in the order the questions were asked
 }
 
 export interface UserProgress {
@@ -72,4 +332,147 @@ export interface ProgressStats {
     longestStreak: number;
     lessonsCompleted: number;
     averageScore: number;
-}
\ No newline at end of file
+}
+
+// Spaced-repetition review (SM-2) built from recorded mistakes
+export interface ReviewItem {
+  id: string;
+  source: MistakeSource;
+  topic: string;
+  questionText: string;
+  correctAnswer: string;
+  lastWrongAnswer: string;
+  easeFactor: number;
+  interval: number; // in days
+  repetitions: number; // consecutive successful reviews
+  dueDate: string; // local calendar date (e.g., "2023-10-27")
+  lastReviewedAt?: string; // ISO date string
+}
+
+export interface ReviewDeck {
+  items: ReviewItem[];
+}
+
+// SM-2 quality of recall: 1 = forgot, 3 = hard, 4 = good, 5 = easy
+export type ReviewGrade = 1 | 3 | 4 | 5;
+
+// How quizzes and practice problems are timed (utils/timer.ts):
+// 'standard' is a fixed time for the whole set, 'per-question' shows one question at a time with
+// a fresh countdown for each, and 'untimed' counts up without a limit.
+export type TimerMode = 'standard' | 'per-question' | 'untimed';
+
+// Extended time for students with accommodations; ignored when untimed.
+export type TimeMultiplier = 1 | 1.5 | 2;
+
+export interface TimerSettings {
+  mode: TimerMode;
+  multiplier: TimeMultiplier;
+  allowPause: boolean;
+}
+
+// Student profiles sharing one device
+export interface ProfilePreferences {
+  defaultSubject: Subject;
+  gradeLevel: GradeLevel;
+  hintsCostPoints: boolean; // each hint used takes a quarter point off that problem
+  timer: TimerSettings;
+}
+
+export interface Profile {
+  id: string;
+  name: string;
+  avatar: string; // an emoji
+  pinHash?: string; // SHA-256 of the profile's PIN, if it has one
+  preferences: ProfilePreferences;
+  createdAt: string; // ISO date string
+}
+
+export interface ProfilesState {
+  profiles: Profile[];
+  activeProfileId: string;
+}
+
+// Local log of AI calls, so parents and teachers can see what their API key is being used for
+export type UsageOutcome = 'success' | 'error' | 'aborted';
+
+export interface UsageEntry {
+  timestamp: string; // ISO date string
+  task: string; // what the call was for, e.g. "lesson"
+  provider: string;
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+  latencyMs: number;
+  outcome: UsageOutcome;
+  errorType?: string; // error class name when the call failed, e.g. "QuotaError"
+}
+
+export interface UsageSettings {
+  dailyBudgetUsd: number | null; // null means no limit
+}
+
+// Remedial mini-lessons built from the mistakes in a finished lesson
+export interface MisconceptionDiagnosis {
+  mistake: Mistake;
+  misconception: string; // the likely wrong idea behind the answer, in one sentence
+  explanation: string; // how to think about it instead
+}
+
+export interface RemedialLesson {
+  title: string;
+  explanation: string; // short re-teaching of the ideas the mistakes have in common
+  diagnoses: MisconceptionDiagnosis[];
+  practiceProblems: PracticeProblems;
+}
+
+export interface RemediationRecord {
+  id: string;
+  // The lesson record it was made from; records are identified by date and topic.
+  lessonDate: string; // ISO date string
+  lessonTopic: string;
+  createdAt: string; // ISO date string
+  remedialLesson: RemedialLesson;
+  // Filled in once the student finishes the new practice problems.
+  completedAt?: string; // ISO date string
+  problemsScore?: number;
+  problemsTotal?: number;
+  problemsTimeTaken?: number; // in seconds
+  problemsHintsUsed?: number;
+}
+
+// Follow-up questions about the open lesson
+export type TutorRole = 'student' | 'tutor';
+
+export interface TutorMessage {
+  role: TutorRole;
+  text: string;
+  createdAt: string; // ISO date string
+  offTopic?: boolean; // set on tutor replies that steered the student back to the lesson
+}
+
+// A course outline extracted from an uploaded syllabus, worked through in order
+export interface CurriculumTopic {
+  id: string; // unique within its curriculum, e.g. "u2-t3"
+  title: string;
+  objectives: string[]; // what the student should be able to do afterwards
+  prerequisites: string[]; // ids of topics that should be learned first
+  week?: number; // from the syllabus schedule, when it has one
+}
+
+export interface CurriculumUnit {
+  id: string;
+  title: string;
+  topics: CurriculumTopic[];
+}
+
+export interface Curriculum {
+  id: string;
+  title: string;
+  subject: Subject;
+  grade: GradeLevel;
+  sourceFileName: string;
+  units: CurriculumUnit[];
+  completedTopicIds: string[];
+  createdAt: string; // ISO date string
+  updatedAt: string; // ISO date string
+}
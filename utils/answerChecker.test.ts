@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { isAnswerCorrect } from './answerChecker';
+
+describe('isAnswerCorrect', () => {
+  it.each([
+    ['0.5', '1/2'],
+    ['x = 3', '3'],
+    ['4 + 2x', '2x+4'],
+    ['2(x + 1)', '2x + 2'],
+    ['50%', '0.5'],
+    ['0.33', '1/3'],
+    ['1,000', '1000'],
+    ['−4', '-4'],
+    ['2 × 3', '6'],
+  ])('accepts %s for %s', (user, expected) => {
+    expect(isAnswerCorrect(user, expected)).toBe(true);
+  });
+
+  it.each([
+    ['0.3', '1/3'],
+    ['2x + 3', '2x + 4'],
+    ['x = 4', '3'],
+    ['', '0'],
+  ])('rejects %s for %s', (user, expected) => {
+    expect(isAnswerCorrect(user, expected)).toBe(false);
+  });
+
+  describe('mixed numbers and fraction symbols', () => {
+    it.each([
+      ['1 1/2', '3/2'],
+      ['1 1/2', '1.5'],
+      ['-2 3/4', '-11/4'],
+      ['½', '0.5'],
+      ['1½', '3/2'],
+      ['2 ¾', '2.75'],
+      ['x = 1 1/2', '3/2'],
+    ])('accepts %s for %s', (user, expected) => {
+      expect(isAnswerCorrect(user, expected, 'number')).toBe(true);
+    });
+
+    it('still reads a space before an improper fraction as multiplication', () => {
+      expect(isAnswerCorrect('2 3/2', '3', 'number')).toBe(true);
+    });
+
+    it('rejects a mixed number with the wrong value', () => {
+      expect(isAnswerCorrect('1 1/2', '1/2', 'number')).toBe(false);
+    });
+  });
+
+  describe('inequalities', () => {
+    it.each([
+      ['x>3', 'x > 3'],
+      ['x>=3', 'x >= 3'],
+      ['x ≥ 3', 'x >= 3'],
+      ['x ≤ -1', 'x <= -1'],
+      ['3<x', 'x > 3'],
+      ['-1 >= x', 'x ≤ -1'],
+      ['2x > 6', 'x > 3'],
+      ['x > 1 1/2', 'x > 3/2'],
+      ['x < -2 or x > 3', 'x > 3 or x < -2'],
+    ])('accepts %s for %s', (user, expected) => {
+      expect(isAnswerCorrect(user, expected)).toBe(true);
+    });
+
+    it.each([
+      ['x < 3', 'x > 3'],
+      ['3 > x', 'x > 3'],
+      ['x > 3', 'x >= 3'],
+      ['x > 4', 'x > 3'],
+      ['-x > 3', 'x > 3'],
+      ['3', 'x > 3'],
+      ['1 < x < 5', 'x > 1'],
+    ])('rejects %s for %s', (user, expected) => {
+      expect(isAnswerCorrect(user, expected)).toBe(false);
+    });
+  });
+
+  describe('measurements', () => {
+    it.each([
+      ['12 cm', '12'],
+      ['120 mm', '12 cm'],
+      ['1.5 m', '150 cm'],
+      ['$4.50', '4.5'],
+    ])('accepts %s for %s', (user, expected) => {
+      expect(isAnswerCorrect(user, expected, 'measurement')).toBe(true);
+    });
+
+    it('rejects a quantity of another kind', () => {
+      expect(isAnswerCorrect('12 kg', '12 cm', 'measurement')).toBe(false);
+    });
+  });
+
+  it('accepts values within the tolerance it is given', () => {
+    expect(isAnswerCorrect('9.7', '9.81', 'number', 0.02)).toBe(true);
+    expect(isAnswerCorrect('9.7', '9.81', 'number')).toBe(false);
+  });
+
+  it('compares text answers as text', () => {
+    expect(isAnswerCorrect('  Photosynthesis. ', 'photosynthesis', 'text')).toBe(true);
+    expect(isAnswerCorrect('1/2', '0.5', 'text')).toBe(false);
+  });
+
+  it('matches ordered pairs in order and solution sets in any order', () => {
+    expect(isAnswerCorrect('(1, 2)', '(1, 2)')).toBe(true);
+    expect(isAnswerCorrect('(2, 1)', '(1, 2)')).toBe(false);
+    expect(isAnswerCorrect('x = -2 or x = 2', '2, -2')).toBe(true);
+  });
+});
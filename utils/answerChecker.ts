@@ -0,0 +1,355 @@
+import type { AnswerType } from '../types';
+import { parseExpression, evaluateExpression, collectVariables, containsPercent, normalizeMathSymbols } from './mathExpression';
+import type { MathNode } from './mathExpression';
+
+// Decides whether a student's free-text answer is equivalent to the expected one, so that
+// "0.5" matches "1/2", "x = 3" matches "3", "12 cm" matches "12", "4 + 2x" matches "2x+4"
+// and "3 < x" matches "x > 3".
+
+export const ANSWER_TYPES: AnswerType[] = ['number', 'fraction', 'percent', 'measurement', 'expression', 'text'];
+
+const RELATIVE_TOLERANCE = 1e-6;
+const SAMPLE_POINTS = [0.37, 1.21, 2.59, -1.73, 3.14, 0.83, -2.41];
+const MIN_VALID_SAMPLES = 3;
+
+// --- Units ---
+interface UnitInfo {
+  dimension: string;
+  factor: number; // multiplier to the dimension's base unit
+}
+
+const UNIT_GROUPS: { dimension: string; units: Record<string, number> }[] = [
+  {
+    dimension: 'length',
+    units: {
+      mm: 0.001, millimeter: 0.001, cm: 0.01, centimeter: 0.01, m: 1, meter: 1, metre: 1, km: 1000, kilometer: 1000,
+      in: 0.0254, inch: 0.0254, inches: 0.0254, ft: 0.3048, foot: 0.3048, feet: 0.3048, yd: 0.9144, yard: 0.9144,
+      mi: 1609.344, mile: 1609.344,
+    },
+  },
+  {
+    dimension: 'mass',
+    units: { mg: 0.001, milligram: 0.001, g: 1, gram: 1, kg: 1000, kilogram: 1000, lb: 453.592, pound: 453.592, oz: 28.3495, ounce: 28.3495 },
+  },
+  {
+    dimension: 'time',
+    units: { s: 1, sec: 1, second: 1, min: 60, minute: 60, h: 3600, hr: 3600, hour: 3600, day: 86400, week: 604800 },
+  },
+  {
+    dimension: 'volume',
+    units: { ml: 0.001, milliliter: 0.001, l: 1, liter: 1, litre: 1, gal: 3.78541, gallon: 3.78541 },
+  },
+  {
+    dimension: 'angle',
+    units: { '°': 1, deg: 1, degree: 1 },
+  },
+  {
+    dimension: 'money',
+    units: { $: 1, dollar: 1, cent: 0.01 },
+  },
+];
+
+// Single-letter units collide with variable names ("5m" could be 5·m), so they are only
+// recognised when the problem is known to expect a measurement.
+const isAmbiguousUnit = (unit: string) => /^[a-z]$/.test(unit);
+
+const lookupUnit = (rawUnit: string): UnitInfo | null => {
+  const powerMatch = rawUnit.match(/^(.+?)\^?([23])$/);
+  const base = powerMatch ? powerMatch[1] : rawUnit;
+  const power = powerMatch ? Number(powerMatch[2]) : 1;
+  const singular = base.length > 3 && base.endsWith('s') ? base.slice(0, -1) : base;
+
+  for (const group of UNIT_GROUPS) {
+    const factor = group.units[base] ?? group.units[singular];
+    if (factor !== undefined) {
+      return {
+        dimension: power === 1 ? group.dimension : `${group.dimension}^${power}`,
+        factor: Math.pow(factor, power),
+      };
+    }
+  }
+  return null;
+};
+
+interface ParsedValue {
+  kind: 'value';
+  node: MathNode;
+  unit: string | null;
+  hasPercent: boolean;
+  decimalPlaces: number | null; // set when the answer is a plain decimal like "0.33"
+  assignedVariable?: string; // set when the answer was written as "x = ..."
+}
+
+interface ParsedEquation {
+  kind: 'equation';
+  lhs: MathNode;
+  rhs: MathNode;
+}
+
+// Always stored as lhs < rhs (or <=): "x > 3" and "3 < x" are both { lhs: 3, relation: '<', rhs: x }.
+interface ParsedInequality {
+  kind: 'inequality';
+  lhs: MathNode;
+  relation: '<' | '<=';
+  rhs: MathNode;
+}
+
+type ParsedAnswer = ParsedValue | ParsedEquation | ParsedInequality;
+
+const splitUnit = (text: string, answerType: AnswerType): { expression: string; unit: string | null } => {
+  const dollarMatch = text.match(/^\$\s*(.+)$/);
+  if (dollarMatch) {
+    return { expression: dollarMatch[1], unit: '$' };
+  }
+
+  const match = text.match(/^(.*?[\d)])\s*(°|[a-z]+(?:\^?[23])?)$/);
+  if (!match) {
+    return { expression: text, unit: null };
+  }
+  const [, expression, unit] = match;
+  const isKnown = lookupUnit(unit) !== null;
+  const isPlainWord = unit.length > 1 && !/\d/.test(unit) && !['pi', 'sqrt'].includes(unit);
+
+  if (isAmbiguousUnit(unit) && answerType !== 'measurement') {
+    return { expression: text, unit: null };
+  }
+  if (isKnown || isPlainWord) {
+    return { expression, unit };
+  }
+  return { expression: text, unit: null };
+};
+
+const parseSide = (text: string, answerType: AnswerType): ParsedValue => {
+  const { expression, unit } = splitUnit(text, answerType);
+  const node = parseExpression(expression);
+  const decimalMatch = expression.match(/^-?\d*\.(\d+)$/);
+  return {
+    kind: 'value',
+    node,
+    unit,
+    hasPercent: containsPercent(node),
+    decimalPlaces: decimalMatch ? decimalMatch[1].length : null,
+  };
+};
+
+const parseInequality = (text: string, signs: string[]): ParsedInequality => {
+  if (signs.length !== 1) {
+    throw new Error('Too many inequality signs.');
+  }
+  const [sign] = signs;
+  const [left, right] = text.split(sign).map(side => parseExpression(side.trim()));
+  if (sign === '<' || sign === '<=') {
+    return { kind: 'inequality', lhs: left, relation: sign, rhs: right };
+  }
+  return { kind: 'inequality', lhs: right, relation: sign === '>' ? '<' : '<=', rhs: left };
+};
+
+const parseAnswer = (text: string, answerType: AnswerType): ParsedAnswer => {
+  const inequalitySigns = text.match(/<=|>=|<|>/g);
+  if (inequalitySigns) {
+    return parseInequality(text, inequalitySigns);
+  }
+  const sides = text.split('=');
+  if (sides.length === 1) {
+    return parseSide(text, answerType);
+  }
+  if (sides.length !== 2) {
+    throw new Error('Too many "=" signs.');
+  }
+  const [lhs, rhs] = sides.map(s => s.trim());
+  // "x = 3" or "y = 2x + 1" is just an answer written as an assignment.
+  if (/^[a-z]$/.test(lhs)) {
+    return { ...parseSide(rhs, answerType), assignedVariable: lhs };
+  }
+  return { kind: 'equation', lhs: parseExpression(lhs), rhs: parseExpression(rhs) };
+};
+
+// --- Comparison ---
+const numbersMatch = (a: number, b: number): boolean => {
+  if (!Number.isFinite(a) || !Number.isFinite(b)) return false;
+  return Math.abs(a - b) <= RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b));
+};
+
+const buildScopes = (variables: string[]): Record<string, number>[] =>
+  SAMPLE_POINTS.map((_, sampleIndex) =>
+    Object.fromEntries(
+      variables.map((name, varIndex) => [name, SAMPLE_POINTS[(sampleIndex + varIndex * 3) % SAMPLE_POINTS.length]])
+    )
+  );
+
+// Evaluates both functions at the sample points and checks `predicate` wherever both are defined.
+const agreesOnSamples = (
+  nodes: MathNode[],
+  predicate: (values: number[]) => boolean
+): boolean => {
+  const variables = new Set<string>();
+  nodes.forEach(node => collectVariables(node, variables));
+  const scopes = variables.size === 0 ? [{}] : buildScopes([...variables]);
+
+  let validSamples = 0;
+  for (const scope of scopes) {
+    const values = nodes.map(node => evaluateExpression(node, scope));
+    if (values.some(v => !Number.isFinite(v))) continue;
+    if (!predicate(values)) return false;
+    validSamples++;
+  }
+  return validSamples >= Math.min(MIN_VALID_SAMPLES, scopes.length);
+};
+
+const valuesMatch = (user: ParsedValue, expected: ParsedValue, tolerance: number): boolean => {
+  let scale = 1;
+  if (user.unit && expected.unit) {
+    const userUnit = lookupUnit(user.unit);
+    const expectedUnit = lookupUnit(expected.unit);
+    if (userUnit && expectedUnit) {
+      if (userUnit.dimension !== expectedUnit.dimension) return false;
+      scale = userUnit.factor / expectedUnit.factor;
+    } else if (user.unit.replace(/s$/, '') !== expected.unit.replace(/s$/, '')) {
+      return false;
+    }
+  }
+
+  const compare = (userScale: number) =>
+    agreesOnSamples([user.node, expected.node], ([u, e]) => {
+      const userValue = u * userScale;
+      if (numbersMatch(userValue, e)) return true;
+      // Subjects with measured quantities accept answers within a relative tolerance.
+      if (tolerance > 0 && Math.abs(userValue - e) <= tolerance * Math.abs(e)) return true;
+      // A rounded decimal ("0.33" for 1/3) is fine as long as it is rounded correctly.
+      if (user.decimalPlaces !== null && user.decimalPlaces >= 2) {
+        return Math.abs(userValue - e) <= 0.5 * Math.pow(10, -user.decimalPlaces) + RELATIVE_TOLERANCE;
+      }
+      return false;
+    });
+
+  if (compare(scale)) return true;
+
+  // "50" for "50%" (or the other way round) names the same percentage.
+  if (user.hasPercent !== expected.hasPercent) {
+    return compare(user.hasPercent ? scale * 100 : scale / 100);
+  }
+  return false;
+};
+
+// Checks that the user's residual (lhs - rhs) is the same multiple of the expected one at every
+// sample, and that `isAllowedRatio` accepts that multiple.
+const residualsProportional = (
+  user: { lhs: MathNode; rhs: MathNode },
+  expected: { lhs: MathNode; rhs: MathNode },
+  isAllowedRatio: (ratio: number) => boolean
+): boolean => {
+  let ratio: number | null = null;
+  return agreesOnSamples([user.lhs, user.rhs, expected.lhs, expected.rhs], ([ul, ur, el, er]) => {
+    const userResidual = ul - ur;
+    const expectedResidual = el - er;
+    if (ratio === null) {
+      if (numbersMatch(expectedResidual, 0)) return numbersMatch(userResidual, 0);
+      ratio = userResidual / expectedResidual;
+      return isAllowedRatio(ratio);
+    }
+    return numbersMatch(userResidual, ratio * expectedResidual);
+  });
+};
+
+// Two equations are equivalent if one's residual is a non-zero multiple of the other's.
+const equationsMatch = (user: ParsedEquation, expected: ParsedEquation): boolean =>
+  residualsProportional(user, expected, ratio => !numbersMatch(ratio, 0));
+
+// Two inequalities are equivalent if they are equally strict and one's residual is a positive
+// multiple of the other's, so "x > 3", "3 < x" and "2x > 6" all match.
+const inequalitiesMatch = (user: ParsedInequality, expected: ParsedInequality): boolean =>
+  user.relation === expected.relation && residualsProportional(user, expected, ratio => ratio > 0 && !numbersMatch(ratio, 0));
+
+// "y = 2x + 3" was parsed as a value; turn it back into an equation to compare with "2y = 4x + 6".
+const toEquation = (answer: ParsedValue | ParsedEquation): ParsedEquation | null => {
+  if (answer.kind === 'equation') return answer;
+  if (!answer.assignedVariable) return null;
+  return { kind: 'equation', lhs: { type: 'variable', name: answer.assignedVariable }, rhs: answer.node };
+};
+
+const normalizeText = (text: string): string =>
+  normalizeMathSymbols(text)
+    .toLowerCase()
+    .trim()
+    .replace(/^["']|["']$/g, '')
+    .replace(/\.$/, '')
+    .replace(/(\d),(\d{3})\b/g, '$1$2')
+    .replace(/\s+/g, ' ');
+
+const partsMatch = (userPart: string, expectedPart: string, answerType: AnswerType, tolerance: number): boolean => {
+  if (normalizeText(userPart) === normalizeText(expectedPart)) return true;
+  if (answerType === 'text') return false;
+
+  try {
+    const user = parseAnswer(normalizeText(userPart), answerType);
+    const expected = parseAnswer(normalizeText(expectedPart), answerType);
+    if (user.kind === 'value' && expected.kind === 'value') return valuesMatch(user, expected, tolerance);
+    if (user.kind === 'inequality' && expected.kind === 'inequality') return inequalitiesMatch(user, expected);
+    if (user.kind === 'inequality' || expected.kind === 'inequality') return false;
+    const userEquation = toEquation(user);
+    const expectedEquation = toEquation(expected);
+    return userEquation !== null && expectedEquation !== null && equationsMatch(userEquation, expectedEquation);
+  } catch {
+    // Anything we can't parse has already been compared as plain text.
+    return false;
+  }
+};
+
+// Splits "2, -2", "x = 2 or x = -2" into an unordered set and "(1, 2)" into an ordered tuple.
+const splitParts = (text: string): { parts: string[]; ordered: boolean } => {
+  const normalized = normalizeText(text);
+  const tupleMatch = normalized.match(/^\((.*)\)$/);
+  const body = tupleMatch ? tupleMatch[1] : normalized;
+
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+
+  if (tupleMatch && parts.length > 1) {
+    return { parts: parts.map(p => p.trim()), ordered: true };
+  }
+  if (tupleMatch) {
+    return { parts: [normalized], ordered: true };
+  }
+  return {
+    parts: parts.flatMap(p => p.split(/\s+(?:or|and)\s+/)).map(p => p.trim()).filter(Boolean),
+    ordered: false,
+  };
+};
+
+// `tolerance` is the relative error accepted in numeric values (see AnswerCheckingStrategy); 0 means exact.
+export const isAnswerCorrect = (userAnswer: string, expectedAnswer: string, answerType: AnswerType = 'expression', tolerance = 0): boolean => {
+  if (!userAnswer.trim()) return false;
+  if (normalizeText(userAnswer) === normalizeText(expectedAnswer)) return true;
+  if (answerType === 'text') return false;
+
+  const user = splitParts(userAnswer);
+  const expected = splitParts(expectedAnswer);
+
+  if (user.parts.length !== expected.parts.length) {
+    return false;
+  }
+
+  if (expected.ordered) {
+    return expected.parts.every((part, index) => partsMatch(user.parts[index], part, answerType, tolerance));
+  }
+
+  const unmatched = [...expected.parts];
+  return user.parts.every(userPart => {
+    const matchIndex = unmatched.findIndex(expectedPart => partsMatch(userPart, expectedPart, answerType, tolerance));
+    if (matchIndex === -1) return false;
+    unmatched.splice(matchIndex, 1);
+    return true;
+  });
+};
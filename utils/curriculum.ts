@@ -0,0 +1,144 @@
+import type { Curriculum, CurriculumTopic, CurriculumUnit, GradeLevel, Subject } from '../types';
+import { profileStorageKey } from './profiles';
+
+// Curricula built from uploaded syllabi. The model reads a long syllabus a part at a time;
+// the parts are merged here into one outline (units → topics → objectives), and the student's
+// place in it is tracked as topics are completed.
+
+const CURRICULUM_STORAGE_KEY = 'algebro-curricula';
+
+// The outline of one part of a syllabus, as the model returns it. Prerequisites are topic
+// titles; they become topic ids once every part has been read.
+export interface CurriculumOutlinePart {
+  courseTitle?: string;
+  units: {
+    title: string;
+    topics: { title: string; objectives: string[]; prerequisites: string[]; week?: number | null }[];
+  }[];
+}
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+const normalizeTitle = (title: string): string => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+// --- Storage ---
+// Stored per profile, since each student works through a curriculum at their own pace.
+export const loadCurricula = (): Curriculum[] => {
+  try {
+    const serializedState = localStorage.getItem(profileStorageKey(CURRICULUM_STORAGE_KEY));
+    if (serializedState === null) {
+      return [];
+    }
+    const parsed = JSON.parse(serializedState);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.error("Could not load curricula:", err);
+    return [];
+  }
+};
+
+export const saveCurricula = (curricula: Curriculum[]): void => {
+  try {
+    localStorage.setItem(profileStorageKey(CURRICULUM_STORAGE_KEY), JSON.stringify(curricula));
+  } catch (err) {
+    console.error("Could not save curricula:", err);
+  }
+};
+
+// --- Building ---
+// A unit that runs over a part boundary comes back once per part, so units with the same title
+// as the one before are joined, and a topic repeated within a unit is kept once.
+export const buildCurriculum = (
+  parts: CurriculumOutlinePart[],
+  details: { subject: Subject; grade: GradeLevel; sourceFileName: string }
+): Curriculum => {
+  const units: { title: string; topics: CurriculumOutlinePart['units'][number]['topics'] }[] = [];
+  parts.flatMap(part => part.units).forEach(unit => {
+    const previous = units[units.length - 1];
+    if (previous && normalizeTitle(previous.title) === normalizeTitle(unit.title)) {
+      previous.topics.push(...unit.topics);
+    } else {
+      units.push({ title: unit.title.trim(), topics: [...unit.topics] });
+    }
+  });
+
+  // Topic ids are assigned first so prerequisites (given as titles) can be pointed at them.
+  const idsByTitle = new Map<string, string>();
+  const prerequisiteTitles = new Map<string, string[]>();
+  const builtUnits: CurriculumUnit[] = units.map((unit, unitIndex) => {
+    const topics: CurriculumTopic[] = [];
+    unit.topics.forEach(topic => {
+      const key = normalizeTitle(topic.title);
+      const existing = topics.find(candidate => normalizeTitle(candidate.title) === key);
+      if (existing) {
+        existing.objectives = [...new Set([...existing.objectives, ...topic.objectives])];
+        prerequisiteTitles.get(existing.id)?.push(...topic.prerequisites);
+        return;
+      }
+      const id = `u${unitIndex + 1}-t${topics.length + 1}`;
+      if (!idsByTitle.has(key)) idsByTitle.set(key, id);
+      prerequisiteTitles.set(id, [...topic.prerequisites]);
+      topics.push({ id, title: topic.title.trim(), objectives: topic.objectives, prerequisites: [], ...(topic.week ? { week: topic.week } : {}) });
+    });
+    return { id: `u${unitIndex + 1}`, title: unit.title, topics };
+  });
+
+  // Prerequisites that don't name a topic in the outline (or name the topic itself) are dropped.
+  builtUnits.forEach(unit => unit.topics.forEach(topic => {
+    const ids = (prerequisiteTitles.get(topic.id) ?? []).map(title => idsByTitle.get(normalizeTitle(title)));
+    topic.prerequisites = [...new Set(ids)].filter((id): id is string => !!id && id !== topic.id);
+  }));
+
+  const now = new Date().toISOString();
+  const courseTitle = parts.map(part => part.courseTitle?.trim()).find(Boolean);
+  return {
+    id: createId(),
+    title: courseTitle || details.sourceFileName.replace(/\.[^.]+$/, ''),
+    subject: details.subject,
+    grade: details.grade,
+    sourceFileName: details.sourceFileName,
+    units: builtUnits,
+    completedTopicIds: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// --- Progress ---
+export const curriculumTopics = (curriculum: Curriculum): CurriculumTopic[] =>
+  curriculum.units.flatMap(unit => unit.topics);
+
+export const findCurriculumTopic = (curriculum: Curriculum, title: string): CurriculumTopic | undefined =>
+  curriculumTopics(curriculum).find(topic => normalizeTitle(topic.title) === normalizeTitle(title));
+
+export const getCurriculumProgress = (curriculum: Curriculum): { completed: number; total: number; percent: number } => {
+  const topics = curriculumTopics(curriculum);
+  const completed = topics.filter(topic => curriculum.completedTopicIds.includes(topic.id)).length;
+  return { completed, total: topics.length, percent: topics.length > 0 ? Math.round((completed / topics.length) * 100) : 0 };
+};
+
+// The first topic, in syllabus order, that hasn't been completed.
+export const getNextCurriculumTopic = (curriculum: Curriculum): CurriculumTopic | undefined =>
+  curriculumTopics(curriculum).find(topic => !curriculum.completedTopicIds.includes(topic.id));
+
+// Prerequisites of a topic the student hasn't completed yet.
+export const getMissingPrerequisites = (curriculum: Curriculum, topic: CurriculumTopic): CurriculumTopic[] => {
+  const topics = curriculumTopics(curriculum);
+  return topic.prerequisites
+    .filter(id => !curriculum.completedTopicIds.includes(id))
+    .map(id => topics.find(candidate => candidate.id === id))
+    .filter((candidate): candidate is CurriculumTopic => !!candidate);
+};
+
+export const markCurriculumTopicComplete = (curricula: Curriculum[], curriculumId: string, topicId: string): Curriculum[] =>
+  curricula.map(curriculum =>
+    curriculum.id === curriculumId && !curriculum.completedTopicIds.includes(topicId)
+      ? { ...curriculum, completedTopicIds: [...curriculum.completedTopicIds, topicId], updatedAt: new Date().toISOString() }
+      : curriculum
+  );
+
+export const deleteCurriculum = (curricula: Curriculum[], curriculumId: string): Curriculum[] =>
+  curricula.filter(curriculum => curriculum.id !== curriculumId);
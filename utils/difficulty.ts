@@ -0,0 +1,61 @@
+import type { Difficulty, DifficultyTier, GradeLevel, LessonRecord } from '../types';
+
+export const GRADE_LEVELS: GradeLevel[] = [5, 6, 7, 8, 9, 10, 11, 12];
+export const DIFFICULTY_TIERS: DifficultyTier[] = ['easy', 'medium', 'hard'];
+
+// Before difficulty levels existed, topic lists were pitched at 7th grade.
+export const DEFAULT_DIFFICULTY: Difficulty = { grade: 7, tier: 'medium' };
+
+const TIER_GUIDANCE: Record<DifficultyTier, string> = {
+  easy: 'Keep numbers small, use one-step problems and familiar contexts, and explain each step.',
+  medium: 'Aim at what a typical student in this grade can do.',
+  hard: 'Use multi-step problems and less familiar contexts that stretch a strong student.',
+};
+
+const ordinal = (n: number): string => {
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+};
+
+export const formatGrade = (grade: GradeLevel): string => `${ordinal(grade)} grade`;
+
+// e.g. "8th grade · hard"
+export const formatDifficulty = ({ grade, tier }: Difficulty): string => `${formatGrade(grade)} · ${tier}`;
+
+// Sentence for generation prompts describing who the content is for.
+export const describeDifficultyForPrompt = ({ grade, tier }: Difficulty): string =>
+  `The student is in ${formatGrade(grade)}. Pitch everything at ${tier} difficulty for that grade: ${TIER_GUIDANCE[tier]}`;
+
+// --- Adapting to results ---
+const isSameTopic = (a: string, b: string): boolean => {
+  const normalize = (topic: string) => topic.trim().toLowerCase().replace(/\s+/g, ' ');
+  const [x, y] = [normalize(a), normalize(b)];
+  return x === y || x.includes(y) || y.includes(x);
+};
+
+const scoreRatio = (record: LessonRecord): number => {
+  const total = record.quizTotal + record.problemsTotal;
+  return total > 0 ? (record.quizScore + record.problemsScore) / total : 0;
+};
+
+const stepTier = (tier: DifficultyTier, step: 1 | -1): DifficultyTier =>
+  DIFFICULTY_TIERS[Math.min(DIFFICULTY_TIERS.length - 1, Math.max(0, DIFFICULTY_TIERS.indexOf(tier) + step))];
+
+// Picks the difficulty for the next lesson on a topic from earlier lessons on it at the same
+// grade: two perfect scores in a row at the same tier step up a tier, scoring under half steps down.
+export const recommendDifficulty = (records: LessonRecord[], topic: string, grade: GradeLevel): Difficulty => {
+  const history = records.filter(record => record.difficulty.grade === grade && isSameTopic(record.topic, topic));
+  if (history.length === 0) {
+    return { grade, tier: DEFAULT_DIFFICULTY.tier };
+  }
+
+  const last = history[history.length - 1];
+  const recent = history.slice(-2);
+  if (recent.length === 2 && recent.every(record => record.difficulty.tier === last.difficulty.tier && scoreRatio(record) === 1)) {
+    return { grade, tier: stepTier(last.difficulty.tier, 1) };
+  }
+  if (scoreRatio(last) < 0.5) {
+    return { grade, tier: stepTier(last.difficulty.tier, -1) };
+  }
+  return last.difficulty;
+};
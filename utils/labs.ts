@@ -0,0 +1,237 @@
+import type {
+  CircuitLabSettings, FoodWebLabSettings, FoodWebRole, LabNotebook, LabSettings, LabSimulationType, PhasesLabSettings, VirtualLab,
+} from '../types';
+import { isObject } from './typeGuards';
+
+// The models behind the virtual labs in science lessons (each subject pack lists the ones it uses).
+// Each simulation is a small, exact calculation so the numbers a student records can be checked
+// against the quiz.
+
+export const LAB_SIMULATIONS: LabSimulationType[] = ['projectile', 'density', 'circuit', 'food-web', 'phases'];
+
+export const LAB_SIMULATION_NAMES: Record<LabSimulationType, string> = {
+  projectile: 'Projectile motion',
+  density: 'Density and buoyancy',
+  circuit: 'Simple circuits',
+  'food-web': 'Food web',
+  phases: 'Phases of matter',
+};
+
+export const FOOD_WEB_ROLES: FoodWebRole[] = ['producer', 'primary-consumer', 'secondary-consumer', 'tertiary-consumer', 'decomposer'];
+
+export const createEmptyNotebook = (lab: VirtualLab): LabNotebook => ({ readings: [], answers: lab.observationPrompts.map(() => '') });
+
+// --- Normalizing ---
+// The model sends the settings of every simulation in one flat object (see the lesson schema);
+// only those for the lab's simulation are kept. Labs are validated first, so the fields only
+// need picking out here.
+const objectsIn = (value: unknown): Record<string, unknown>[] => (Array.isArray(value) ? value.filter(isObject) : []);
+
+const normalizeSettings = (raw: unknown): LabSettings => {
+  const fields = isObject(raw) ? raw : {};
+  const simulation = fields.simulation as LabSimulationType;
+  switch (simulation) {
+    case 'projectile':
+      return {
+        simulation,
+        speed: fields.speed as number,
+        angle: fields.angle as number,
+        gravity: (fields.gravity as number | undefined) ?? 9.8,
+        launchHeight: (fields.launchHeight as number | undefined) ?? 0,
+      };
+    case 'density':
+      return {
+        simulation,
+        objects: objectsIn(fields.objects).map(object => ({ name: object.name as string, mass: object.mass as number, volume: object.volume as number })),
+        liquids: objectsIn(fields.liquids).map(liquid => ({ name: liquid.name as string, density: liquid.density as number })),
+      };
+    case 'circuit':
+      return {
+        simulation,
+        voltage: fields.voltage as number,
+        resistors: fields.resistors as number[],
+        arrangement: fields.arrangement as CircuitLabSettings['arrangement'],
+      };
+    case 'food-web':
+      return {
+        simulation,
+        organisms: objectsIn(fields.organisms).map(organism => ({ name: organism.name as string, role: organism.role as FoodWebRole })),
+        links: objectsIn(fields.links).map(link => ({ prey: link.prey as string, predator: link.predator as string })),
+      };
+    case 'phases':
+      return {
+        simulation,
+        substance: fields.substance as string,
+        meltingPoint: fields.meltingPoint as number,
+        boilingPoint: fields.boilingPoint as number,
+        startTemperature: fields.startTemperature as number,
+      };
+  }
+};
+
+export const normalizeLab = (raw: unknown): VirtualLab => {
+  const fields = isObject(raw) ? raw : {};
+  return {
+    title: fields.title as string,
+    goal: fields.goal as string,
+    instructions: fields.instructions as string[],
+    observationPrompts: fields.observationPrompts as string[],
+    settings: normalizeSettings(fields.settings),
+  };
+};
+
+// --- Projectile motion ---
+export interface ProjectileResult {
+  flightTime: number; // s
+  range: number; // m
+  maxHeight: number; // m
+  path: { x: number; y: number }[];
+}
+
+const PATH_SAMPLES = 60;
+
+export const simulateProjectile = (speed: number, angle: number, gravity: number, launchHeight: number): ProjectileResult => {
+  const radians = (angle * Math.PI) / 180;
+  const vx = speed * Math.cos(radians);
+  const vy = speed * Math.sin(radians);
+  const flightTime = (vy + Math.sqrt(vy * vy + 2 * gravity * launchHeight)) / gravity;
+  const path = Array.from({ length: PATH_SAMPLES + 1 }, (_, i) => {
+    const t = (flightTime * i) / PATH_SAMPLES;
+    return { x: vx * t, y: Math.max(0, launchHeight + vy * t - 0.5 * gravity * t * t) };
+  });
+  return { flightTime, range: vx * flightTime, maxHeight: launchHeight + (vy > 0 ? (vy * vy) / (2 * gravity) : 0), path };
+};
+
+// --- Density and buoyancy ---
+export type BuoyancyOutcome = 'floats' | 'sinks' | 'suspended';
+
+export const describeBuoyancy = (objectDensity: number, liquidDensity: number): { outcome: BuoyancyOutcome; submergedFraction: number } => {
+  const ratio = objectDensity / liquidDensity;
+  // Within 1% of the liquid's density the object neither rises nor sinks.
+  const outcome: BuoyancyOutcome = Math.abs(ratio - 1) <= 0.01 ? 'suspended' : ratio < 1 ? 'floats' : 'sinks';
+  return { outcome, submergedFraction: Math.min(1, ratio) };
+};
+
+// --- Circuits ---
+export interface CircuitResult {
+  totalResistance: number; // Ω
+  current: number; // A, from the battery
+  bulbs: { resistance: number; voltage: number; current: number; power: number }[];
+}
+
+export const analyzeCircuit = ({ voltage, resistors, arrangement }: Omit<CircuitLabSettings, 'simulation'>, isClosed: boolean): CircuitResult => {
+  const totalResistance = arrangement === 'series'
+    ? resistors.reduce((sum, resistance) => sum + resistance, 0)
+    : 1 / resistors.reduce((sum, resistance) => sum + 1 / resistance, 0);
+  if (!isClosed) {
+    return { totalResistance, current: 0, bulbs: resistors.map(resistance => ({ resistance, voltage: 0, current: 0, power: 0 })) };
+  }
+  const current = voltage / totalResistance;
+  const bulbs = resistors.map(resistance => {
+    const bulbCurrent = arrangement === 'series' ? current : voltage / resistance;
+    return { resistance, voltage: bulbCurrent * resistance, current: bulbCurrent, power: bulbCurrent * bulbCurrent * resistance };
+  });
+  return { totalResistance, current, bulbs };
+};
+
+// --- Food webs ---
+export type PopulationChange = 'gone' | 'up' | 'down' | 'same';
+
+const FOOD_WEB_STEPS = 3;
+const FOOD_WEB_THRESHOLD = 0.1;
+
+// A simple model of a change rippling through the web: predators of a species follow its
+// numbers (more food, more predators) and its prey go the other way, weakening at each step.
+export const simulateFoodWebChange = (
+  { organisms, links }: Omit<FoodWebLabSettings, 'simulation'>,
+  changed: string,
+  change: 'remove' | 'increase' | 'decrease'
+): Record<string, PopulationChange> => {
+  const effects = new Map<string, number>(organisms.map(organism => [organism.name, 0]));
+  effects.set(changed, change === 'increase' ? 1 : -1);
+  let frontier = new Map([[changed, effects.get(changed)!]]);
+  for (let step = 0; step < FOOD_WEB_STEPS && frontier.size > 0; step++) {
+    const next = new Map<string, number>();
+    frontier.forEach((effect, name) => {
+      links.forEach(link => {
+        const neighbour = link.prey === name ? link.predator : link.predator === name ? link.prey : null;
+        if (!neighbour || neighbour === changed) return;
+        const push = (link.prey === name ? effect : -effect) * 0.5;
+        next.set(neighbour, (next.get(neighbour) ?? 0) + push);
+      });
+    });
+    next.forEach((effect, name) => effects.set(name, (effects.get(name) ?? 0) + effect));
+    frontier = next;
+  }
+  return Object.fromEntries(organisms.map(({ name }) => {
+    if (name === changed && change === 'remove') return [name, 'gone'];
+    const effect = effects.get(name) ?? 0;
+    return [name, effect > FOOD_WEB_THRESHOLD ? 'up' : effect < -FOOD_WEB_THRESHOLD ? 'down' : 'same'];
+  }));
+};
+
+// --- Phases of matter ---
+export type PhaseState = 'solid' | 'melting' | 'liquid' | 'boiling' | 'gas';
+
+export interface HeatingCurve {
+  totalHeat: number;
+  // Where each stage ends, in units of heat added; one unit warms the substance by 1 °C.
+  stages: { state: PhaseState; untilHeat: number; fromTemperature: number; toTemperature: number }[];
+}
+
+const GAS_HEADROOM = 50; // °C the gas is heated past its boiling point
+
+// Changing state takes heat without warming the substance: the plateaus of a heating curve.
+// Boiling takes longer than melting, as it does for real substances.
+export const buildHeatingCurve = ({ meltingPoint, boilingPoint, startTemperature }: Omit<PhasesLabSettings, 'simulation' | 'substance'>): HeatingCurve => {
+  const liquidRange = boilingPoint - meltingPoint;
+  const meltingHeat = Math.max(20, liquidRange * 0.4);
+  const boilingHeat = Math.max(40, liquidRange * 1.2);
+  const stages: HeatingCurve['stages'] = [];
+  let heat = 0;
+  const addStage = (state: PhaseState, length: number, fromTemperature: number, toTemperature: number) => {
+    if (length <= 0) return;
+    heat += length;
+    stages.push({ state, untilHeat: heat, fromTemperature, toTemperature });
+  };
+  if (startTemperature < meltingPoint) addStage('solid', meltingPoint - startTemperature, startTemperature, meltingPoint);
+  if (startTemperature <= meltingPoint) addStage('melting', meltingHeat, meltingPoint, meltingPoint);
+  if (startTemperature < boilingPoint) addStage('liquid', boilingPoint - Math.max(startTemperature, meltingPoint), Math.max(startTemperature, meltingPoint), boilingPoint);
+  addStage('boiling', boilingHeat, boilingPoint, boilingPoint);
+  addStage('gas', boilingPoint + GAS_HEADROOM - Math.max(startTemperature, boilingPoint), Math.max(startTemperature, boilingPoint), boilingPoint + GAS_HEADROOM);
+  return { totalHeat: heat, stages };
+};
+
+export const stateAtHeat = (curve: HeatingCurve, heat: number): { state: PhaseState; temperature: number } => {
+  let stageStart = 0;
+  for (const stage of curve.stages) {
+    if (heat <= stage.untilHeat) {
+      const progress = (heat - stageStart) / (stage.untilHeat - stageStart);
+      return { state: stage.state, temperature: stage.fromTemperature + (stage.toTemperature - stage.fromTemperature) * progress };
+    }
+    stageStart = stage.untilHeat;
+  }
+  const last = curve.stages[curve.stages.length - 1];
+  return { state: last.state, temperature: last.toTemperature };
+};
+
+// --- Describing ---
+// The lab's setup in a few lines, for prompts (e.g. the tutor's copy of the lesson).
+export const describeLab = (lab: VirtualLab): string => {
+  const { settings } = lab;
+  const setup = (() => {
+    switch (settings.simulation) {
+      case 'projectile':
+        return `launch speed ${settings.speed} m/s at ${settings.angle}°, gravity ${settings.gravity} m/s², launch height ${settings.launchHeight} m`;
+      case 'density':
+        return `objects: ${settings.objects.map(object => `${object.name} (${object.mass} g, ${object.volume} cm³)`).join(', ')}; liquids: ${settings.liquids.map(liquid => `${liquid.name} (${liquid.density} g/cm³)`).join(', ')}`;
+      case 'circuit':
+        return `${settings.voltage} V battery with bulbs of ${settings.resistors.join(', ')} Ω in ${settings.arrangement}`;
+      case 'food-web':
+        return `${settings.links.map(link => `${link.prey} → ${link.predator}`).join(', ')}`;
+      case 'phases':
+        return `${settings.substance}, melts at ${settings.meltingPoint} °C and boils at ${settings.boilingPoint} °C, starting at ${settings.startTemperature} °C`;
+    }
+  })();
+  return `${LAB_SIMULATION_NAMES[settings.simulation]} lab "${lab.title}": ${lab.goal}\nSetup: ${setup}`;
+};
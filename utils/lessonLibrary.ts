@@ -0,0 +1,213 @@
+import type { Difficulty, GenerationSettings, Lesson, SavedLesson, Subject, TutorMessage } from '../types';
+import { isValidLesson } from '../services/validation';
+import { getActiveProfileId, DEFAULT_PROFILE_ID } from './profiles';
+import { DEFAULT_DIFFICULTY } from './difficulty';
+import { normalizeQuizQuestion } from './quizQuestions';
+
+// Generated lessons are kept in IndexedDB (they are too big for localStorage) so they survive
+// a refresh, can be re-opened offline and double as a cache in front of generateLesson.
+// Each profile has its own library.
+
+const DB_NAME = 'algebro-lesson-library';
+const DB_VERSION = 2;
+const STORE_NAME = 'lessons';
+const CACHE_KEY_INDEX = 'cacheKey';
+const PROFILE_INDEX = 'profileId';
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!;
+      if (event.oldVersion < 1) {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        store.createIndex(CACHE_KEY_INDEX, 'cacheKey', { unique: false });
+      }
+      if (event.oldVersion < 2) {
+        // v2: lessons belong to a profile. Lessons saved before profiles go to the default one.
+        const store = transaction.objectStore(STORE_NAME);
+        store.createIndex(PROFILE_INDEX, 'profileId', { unique: false });
+        store.openCursor().onsuccess = (cursorEvent) => {
+          const cursor = (cursorEvent.target as IDBRequest<IDBCursorWithValue | null>).result;
+          if (!cursor) return;
+          if (!cursor.value.profileId) {
+            cursor.update({
+              ...cursor.value,
+              profileId: DEFAULT_PROFILE_ID,
+              cacheKey: `${DEFAULT_PROFILE_ID}::${cursor.value.cacheKey}`,
+            });
+          }
+          cursor.continue();
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs a single request against the lesson store and resolves with its result.
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const buildCacheKey = (topic: string, subject: Subject, difficulty: Difficulty, settings: GenerationSettings): string =>
+  [
+    getActiveProfileId(),
+    subject,
+    topic.trim().toLowerCase().replace(/\s+/g, ' '),
+    difficulty.grade,
+    difficulty.tier,
+    settings.provider,
+    settings.model ?? '',
+  ].join('::');
+
+// Practice problems saved before hints and worked solutions existed get empty ones, and quiz
+// questions saved before other question types existed become multiple choice.
+const withProblemDefaults = (saved: SavedLesson): SavedLesson => {
+  const problems = saved.lesson?.practiceProblems?.problems;
+  const questions = saved.lesson?.quiz?.questions;
+  if (!Array.isArray(problems) || !Array.isArray(questions)) return saved;
+  return {
+    ...saved,
+    lesson: {
+      ...saved.lesson,
+      quiz: { ...saved.lesson.quiz, questions: questions.map(question => (question && typeof question === 'object' ? normalizeQuizQuestion(question) : question)) },
+      practiceProblems: {
+        ...saved.lesson.practiceProblems,
+        problems: problems.map(problem => ({ ...problem, hints: problem?.hints ?? [], solutionSteps: problem?.solutionSteps ?? [] })),
+      },
+    },
+  };
+};
+
+const byMostRecent = (a: SavedLesson, b: SavedLesson) => b.updatedAt.localeCompare(a.updatedAt);
+
+export const listSavedLessons = async (): Promise<SavedLesson[]> => {
+  try {
+    const lessons = await withStore('readonly', store =>
+      store.index(PROFILE_INDEX).getAll(getActiveProfileId()) as IDBRequest<SavedLesson[]>
+    );
+    // Skip anything that no longer matches the Lesson shape rather than crashing the viewer.
+    return lessons.map(withProblemDefaults).filter(saved => isValidLesson(saved.lesson)).sort(byMostRecent);
+  } catch (err) {
+    console.error("Could not load saved lessons:", err);
+    return [];
+  }
+};
+
+export const findCachedLesson = async (
+  topic: string,
+  subject: Subject,
+  difficulty: Difficulty,
+  settings: GenerationSettings
+): Promise<SavedLesson | null> => {
+  try {
+    const cacheKey = buildCacheKey(topic, subject, difficulty, settings);
+    const matches = await withStore('readonly', store =>
+      store.index(CACHE_KEY_INDEX).getAll(cacheKey) as IDBRequest<SavedLesson[]>
+    );
+    return matches.map(withProblemDefaults).filter(saved => isValidLesson(saved.lesson)).sort(byMostRecent)[0] ?? null;
+  } catch (err) {
+    console.error("Could not read the lesson cache:", err);
+    return null;
+  }
+};
+
+// Saves a freshly generated lesson. The topic the student asked for (not the model's title
+// for it) goes into the cache key, so asking again for the same topic hits the cache.
+export const saveLesson = async (
+  requestedTopic: string,
+  subject: Subject,
+  settings: GenerationSettings,
+  lesson: Lesson
+): Promise<SavedLesson | null> => {
+  const now = new Date().toISOString();
+  const saved: SavedLesson = {
+    id: createId(),
+    profileId: getActiveProfileId(),
+    cacheKey: buildCacheKey(requestedTopic, subject, lesson.difficulty ?? DEFAULT_DIFFICULTY, settings),
+    title: lesson.topic,
+    subject,
+    settings,
+    lesson,
+    createdAt: now,
+    updatedAt: now,
+  };
+  try {
+    await withStore('readwrite', store => store.put(saved));
+    return saved;
+  } catch (err) {
+    console.error("Could not save lesson:", err);
+    return null;
+  }
+};
+
+export const duplicateSavedLesson = async (saved: SavedLesson): Promise<SavedLesson | null> => {
+  const now = new Date().toISOString();
+  const copy: SavedLesson = {
+    ...saved,
+    id: createId(),
+    title: `${saved.title} (copy)`,
+    tutorChat: undefined, // the copy starts a fresh conversation
+    createdAt: now,
+    updatedAt: now,
+  };
+  try {
+    await withStore('readwrite', store => store.put(copy));
+    return copy;
+  } catch (err) {
+    console.error("Could not duplicate lesson:", err);
+    return null;
+  }
+};
+
+// Keeps the tutor conversation with its lesson. updatedAt is left alone so chatting doesn't
+// reorder the library.
+export const saveTutorChat = async (id: string, tutorChat: TutorMessage[]): Promise<void> => {
+  try {
+    const saved = await withStore('readonly', store => store.get(id) as IDBRequest<SavedLesson | undefined>);
+    if (!saved) return;
+    await withStore('readwrite', store => store.put({ ...saved, tutorChat }));
+  } catch (err) {
+    console.error("Could not save the tutor chat:", err);
+  }
+};
+
+export const deleteSavedLesson = async (id: string): Promise<void> => {
+  try {
+    await withStore('readwrite', store => store.delete(id));
+  } catch (err) {
+    console.error("Could not delete lesson:", err);
+  }
+};
+
+// Used when a profile is deleted.
+export const deleteProfileLessons = async (profileId: string): Promise<void> => {
+  try {
+    const ids = await withStore('readonly', store => store.index(PROFILE_INDEX).getAllKeys(profileId));
+    for (const id of ids) {
+      await withStore('readwrite', store => store.delete(id));
+    }
+  } catch (err) {
+    console.error("Could not delete the profile's lessons:", err);
+  }
+};
@@ -0,0 +1,89 @@
+import type { Lesson, LessonRecord, Mistake, SkillOutcome } from '../types';
+import { getSkill, inferSkill, type Skill } from './skills';
+
+// Per-skill mastery using Bayesian knowledge tracing. Each skill has a probability that the
+// student has learned it; every answer on that skill updates it (a right answer might be a
+// lucky guess, a wrong one might be a slip), and each practice opportunity gives a chance
+// to learn it.
+
+const BKT_PARAMS = {
+  initial: 0.3, // P(L0): already knows the skill before the first question
+  learn: 0.15, // P(T): learns it from one practice opportunity
+  slip: 0.1, // P(S): knows it but answers wrong
+  // P(G): guesses right without knowing it; most quiz questions are picked from a few options
+  guess: { quiz: 0.25, problems: 0.1 },
+};
+
+const MASTERED_THRESHOLD = 0.95;
+const WEAK_THRESHOLD = 0.6;
+const MIN_OBSERVATIONS = 3; // a skill isn't called weak or mastered on one or two answers
+
+export type MasteryStatus = 'weak' | 'learning' | 'mastered';
+
+export interface SkillMastery {
+  skill: Skill;
+  probability: number; // 0-1, chance the skill has been learned
+  observations: number;
+  correct: number;
+  lastPracticed: string; // ISO date string of the latest record with this skill
+  status: MasteryStatus;
+}
+
+export const updateMastery = (probability: number, outcome: SkillOutcome): number => {
+  const { slip, learn } = BKT_PARAMS;
+  const guess = BKT_PARAMS.guess[outcome.source];
+  const posterior = outcome.correct
+    ? (probability * (1 - slip)) / (probability * (1 - slip) + (1 - probability) * guess)
+    : (probability * slip) / (probability * slip + (1 - probability) * (1 - guess));
+  return posterior + (1 - posterior) * learn;
+};
+
+const statusFor = (probability: number, observations: number): MasteryStatus => {
+  if (observations < MIN_OBSERVATIONS) return 'learning';
+  if (probability >= MASTERED_THRESHOLD) return 'mastered';
+  return probability < WEAK_THRESHOLD ? 'weak' : 'learning';
+};
+
+// Replays every recorded answer in order. Skills are sorted weakest first.
+export const calculateMastery = (records: LessonRecord[]): SkillMastery[] => {
+  const bySkill = new Map<string, Omit<SkillMastery, 'status'>>();
+  records.forEach(record => {
+    record.skillOutcomes.forEach(outcome => {
+      const skill = getSkill(outcome.skill);
+      if (!skill) return;
+      const current = bySkill.get(skill.id) ?? { skill, probability: BKT_PARAMS.initial, observations: 0, correct: 0, lastPracticed: record.date };
+      bySkill.set(skill.id, {
+        skill,
+        probability: updateMastery(current.probability, outcome),
+        observations: current.observations + 1,
+        correct: current.correct + (outcome.correct ? 1 : 0),
+        lastPracticed: record.date,
+      });
+    });
+  });
+  return [...bySkill.values()]
+    .map(mastery => ({ ...mastery, status: statusFor(mastery.probability, mastery.observations) }))
+    .sort((a, b) => a.probability - b.probability);
+};
+
+export const getWeakSkills = (mastery: SkillMastery[]): SkillMastery[] =>
+  mastery.filter(entry => entry.status === 'weak');
+
+// Which of the lesson's questions and problems were answered correctly, by skill. A question
+// counts as wrong if it appears among the mistakes; untagged ones go to the lesson's topic skill.
+export const buildSkillOutcomes = (lesson: Lesson, mistakes: Mistake[], subject: string): SkillOutcome[] => {
+  const fallback = lesson.skills?.[0] ?? inferSkill(lesson.topic, subject);
+  const missed = (source: Mistake['source'], text: string) =>
+    mistakes.some(mistake => mistake.source === source && mistake.questionText === text);
+
+  const outcomes: SkillOutcome[] = [];
+  lesson.quiz.questions.forEach(question => {
+    const skill = question.skill ?? fallback;
+    if (skill) outcomes.push({ skill, correct: !missed('quiz', question.questionText), source: 'quiz' });
+  });
+  lesson.practiceProblems.problems.forEach(problem => {
+    const skill = problem.skill ?? fallback;
+    if (skill) outcomes.push({ skill, correct: !missed('problems', problem.problemText), source: 'problems' });
+  });
+  return outcomes;
+};
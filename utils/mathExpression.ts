@@ -0,0 +1,303 @@
+// A tiny parser/evaluator for the kind of math a 7th grader types into an answer box:
+// numbers, fractions, mixed numbers, percents, + - * / ^, parentheses, implicit multiplication ("2x"),
+// single-letter variables, pi and a handful of functions (sqrt, abs, ...).
+
+export type MathNode =
+  | { type: 'number'; value: number }
+  | { type: 'variable'; name: string }
+  | { type: 'unary'; op: '-' | '+'; arg: MathNode }
+  | { type: 'binary'; op: '+' | '-' | '*' | '/' | '^'; left: MathNode; right: MathNode }
+  | { type: 'percent'; arg: MathNode }
+  | { type: 'call'; fn: MathFunction; arg: MathNode };
+
+type MathFunction = 'sqrt' | 'abs' | 'sin' | 'cos' | 'tan' | 'ln' | 'log';
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'ident'; name: string }
+  | { kind: 'op'; value: string };
+
+const FUNCTIONS: Record<MathFunction, (x: number) => number> = {
+  sqrt: Math.sqrt,
+  abs: Math.abs,
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  ln: Math.log,
+  log: Math.log10,
+};
+
+const CONSTANTS: Record<string, number> = {
+  pi: Math.PI,
+};
+
+const VULGAR_FRACTIONS: Record<string, string> = {
+  '½': '1/2', '⅓': '1/3', '⅔': '2/3', '¼': '1/4', '¾': '3/4', '⅕': '1/5', '⅖': '2/5', '⅗': '3/5', '⅘': '4/5',
+  '⅙': '1/6', '⅚': '5/6', '⅐': '1/7', '⅛': '1/8', '⅜': '3/8', '⅝': '5/8', '⅞': '7/8', '⅑': '1/9', '⅒': '1/10',
+};
+
+const VULGAR_FRACTION_PATTERN = new RegExp(`(\\d)?([${Object.keys(VULGAR_FRACTIONS).join('')}])`, 'g');
+
+// Normalizes the unicode symbols students (and the on-screen keypad) tend to produce.
+// "1½" becomes the mixed number "1 1/2".
+export const normalizeMathSymbols = (input: string): string =>
+  input
+    .replace(VULGAR_FRACTION_PATTERN, (_, whole: string | undefined, symbol: string) =>
+      whole ? `${whole} ${VULGAR_FRACTIONS[symbol]}` : VULGAR_FRACTIONS[symbol])
+    .replace(/⁄/g, '/')
+    .replace(/[×·∙]/g, '*')
+    .replace(/÷/g, '/')
+    .replace(/≤/g, '<=')
+    .replace(/≥/g, '>=')
+    .replace(/[−–—]/g, '-')
+    .replace(/²/g, '^2')
+    .replace(/³/g, '^3')
+    .replace(/π/g, 'pi')
+    .replace(/√/g, 'sqrt');
+
+const tokenize = (input: string): Token[] => {
+  const tokens: Token[] = [];
+  const source = normalizeMathSymbols(input).toLowerCase();
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    // A whole number followed by a proper fraction is a mixed number: "1 1/2" is 1 + 1/2, not 1 · 1/2.
+    const mixed = source.slice(i).match(/^(\d+)\s+(\d+)\s*\/\s*(\d+)(?![\d.])/);
+    if (mixed && Number(mixed[2]) < Number(mixed[3])) {
+      const [whole, numerator, denominator] = mixed.slice(1).map(Number);
+      tokens.push(
+        { kind: 'op', value: '(' },
+        { kind: 'number', value: whole },
+        { kind: 'op', value: '+' },
+        { kind: 'number', value: numerator },
+        { kind: 'op', value: '/' },
+        { kind: 'number', value: denominator },
+        { kind: 'op', value: ')' },
+      );
+      i += mixed[0].length;
+      continue;
+    }
+
+    if (/[\d.]/.test(char)) {
+      const match = source.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+      if (!match) {
+        throw new Error(`Unexpected "${char}" in expression.`);
+      }
+      tokens.push({ kind: 'number', value: parseFloat(match[0]) });
+      i += match[0].length;
+      continue;
+    }
+
+    if (/[a-z]/.test(char)) {
+      const match = source.slice(i).match(/^[a-z]+/)!;
+      const word = match[0];
+      i += word.length;
+      if (word in FUNCTIONS || word in CONSTANTS) {
+        tokens.push({ kind: 'ident', name: word });
+      } else if (word.length > 2) {
+        // Longer words are prose, not algebra; callers fall back to comparing them as text.
+        throw new Error(`Unknown word "${word}" in expression.`);
+      } else {
+        // Two-letter words are products of variables ("xy" -> x * y).
+        for (const letter of word) {
+          tokens.push({ kind: 'ident', name: letter });
+        }
+      }
+      continue;
+    }
+
+    if ('+-*/^()%'.includes(char)) {
+      tokens.push({ kind: 'op', value: char });
+      i++;
+      continue;
+    }
+
+    throw new Error(`Unexpected "${char}" in expression.`);
+  }
+
+  return tokens;
+};
+
+// Recursive-descent parser. Precedence, lowest first: + -, * / (and implicit), unary -, ^, %.
+export const parseExpression = (input: string): MathNode => {
+  const tokens = tokenize(input);
+  if (tokens.length === 0) {
+    throw new Error('Expression is empty.');
+  }
+  let position = 0;
+
+  const peek = (): Token | undefined => tokens[position];
+
+  const isOp = (value: string): boolean => {
+    const token = peek();
+    return token?.kind === 'op' && token.value === value;
+  };
+
+  const takeOp = <T extends string>(): T => (tokens[position++] as { value: string }).value as T;
+
+  const expectOp = (value: string): void => {
+    if (!isOp(value)) {
+      throw new Error(`Expected "${value}" in expression.`);
+    }
+    position++;
+  };
+
+  const parseSum = (): MathNode => {
+    let node = parseProduct();
+    while (isOp('+') || isOp('-')) {
+      const op = takeOp<'+' | '-'>();
+      node = { type: 'binary', op, left: node, right: parseProduct() };
+    }
+    return node;
+  };
+
+  const parseProduct = (): MathNode => {
+    let node = parseUnary();
+    for (;;) {
+      if (isOp('*') || isOp('/')) {
+        const op = takeOp<'*' | '/'>();
+        node = { type: 'binary', op, left: node, right: parseUnary() };
+        continue;
+      }
+      // Implicit multiplication: "2x", "3(x + 1)", "(a)(b)", "2pi".
+      const next = peek();
+      if (next && (next.kind === 'number' || next.kind === 'ident' || (next.kind === 'op' && next.value === '('))) {
+        node = { type: 'binary', op: '*', left: node, right: parsePower() };
+        continue;
+      }
+      return node;
+    }
+  };
+
+  const parseUnary = (): MathNode => {
+    if (isOp('-') || isOp('+')) {
+      const op = takeOp<'-' | '+'>();
+      return { type: 'unary', op, arg: parseUnary() };
+    }
+    return parsePower();
+  };
+
+  const parsePower = (): MathNode => {
+    const base = parsePostfix();
+    if (isOp('^')) {
+      position++;
+      return { type: 'binary', op: '^', left: base, right: parseUnary() };
+    }
+    return base;
+  };
+
+  const parsePostfix = (): MathNode => {
+    let node = parsePrimary();
+    while (isOp('%')) {
+      position++;
+      node = { type: 'percent', arg: node };
+    }
+    return node;
+  };
+
+  const parseGroup = (): MathNode => {
+    expectOp('(');
+    const node = parseSum();
+    expectOp(')');
+    return node;
+  };
+
+  const parsePrimary = (): MathNode => {
+    const token = peek();
+    if (!token) {
+      throw new Error('Unexpected end of expression.');
+    }
+
+    if (token.kind === 'op') {
+      if (token.value === '(') {
+        return parseGroup();
+      }
+      throw new Error(`Unexpected "${token.value}" in expression.`);
+    }
+
+    position++;
+    if (token.kind === 'number') {
+      return { type: 'number', value: token.value };
+    }
+    if (token.name in FUNCTIONS) {
+      // Allow "sqrt 9" as well as "sqrt(9)".
+      const arg = isOp('(') ? parseGroup() : parsePower();
+      return { type: 'call', fn: token.name as MathFunction, arg };
+    }
+    if (token.name in CONSTANTS) {
+      return { type: 'number', value: CONSTANTS[token.name] };
+    }
+    return { type: 'variable', name: token.name };
+  };
+
+  const node = parseSum();
+  if (position < tokens.length) {
+    throw new Error('Unexpected trailing input in expression.');
+  }
+  return node;
+};
+
+export const evaluateExpression = (node: MathNode, scope: Record<string, number> = {}): number => {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'variable':
+      return node.name in scope ? scope[node.name] : NaN;
+    case 'unary':
+      return node.op === '-' ? -evaluateExpression(node.arg, scope) : evaluateExpression(node.arg, scope);
+    case 'percent':
+      return evaluateExpression(node.arg, scope) / 100;
+    case 'call':
+      return FUNCTIONS[node.fn](evaluateExpression(node.arg, scope));
+    case 'binary': {
+      const left = evaluateExpression(node.left, scope);
+      const right = evaluateExpression(node.right, scope);
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return left / right;
+        case '^': return Math.pow(left, right);
+      }
+    }
+  }
+};
+
+export const collectVariables = (node: MathNode, variables: Set<string> = new Set()): Set<string> => {
+  switch (node.type) {
+    case 'variable':
+      variables.add(node.name);
+      break;
+    case 'unary':
+    case 'percent':
+    case 'call':
+      collectVariables(node.arg, variables);
+      break;
+    case 'binary':
+      collectVariables(node.left, variables);
+      collectVariables(node.right, variables);
+      break;
+  }
+  return variables;
+};
+
+export const containsPercent = (node: MathNode): boolean => {
+  switch (node.type) {
+    case 'percent':
+      return true;
+    case 'unary':
+    case 'call':
+      return containsPercent(node.arg);
+    case 'binary':
+      return containsPercent(node.left) || containsPercent(node.right);
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,108 @@
+import { normalizeMathSymbols } from './mathExpression';
+
+// Helpers for the math answer box (components/MathInput.tsx): a canonical form for what the
+// student typed, and a LaTeX preview of it so they can check "(x+1)/2" means what they think.
+
+// Unicode symbols become the ASCII the answer checker parses, and whitespace is tidied.
+export const normalizeMathAnswer = (input: string): string =>
+  normalizeMathSymbols(input).replace(/\s+/g, ' ').trim();
+
+type Piece = { kind: 'atom'; latex: string; bare: string } | { kind: 'op'; value: string };
+
+const OPERATOR_LATEX: Record<string, string> = {
+  '*': '\\cdot ', '^': '^{\\square}', '+': '+', '-': '-', '=': '=', '<': '<', '>': '>', '<=': '\\le ', '>=': '\\ge ', ',': ',',
+};
+
+// Loosely converts a typed answer to LaTeX: a/b becomes a fraction, ^ a superscript,
+// sqrt(...) a root and pi the symbol. It never throws on half-typed input; anything it
+// can't place is shown as typed.
+export const mathAnswerToLatex = (input: string): string => {
+  const source = normalizeMathAnswer(input);
+  let i = 0;
+
+  const parseSequence = (insideGroup: boolean): string => {
+    const pieces: Piece[] = [];
+    const pushAtom = (latex: string, bare: string = latex) => pieces.push({ kind: 'atom', latex, bare });
+
+    while (i < source.length) {
+      const char = source[i];
+      if (char === ')') {
+        i++;
+        if (insideGroup) break;
+        pushAtom(')');
+        continue;
+      }
+      if (char === '(') {
+        i++;
+        const inner = parseSequence(true);
+        pushAtom(`\\left(${inner}\\right)`, inner);
+        continue;
+      }
+      const number = source.slice(i).match(/^(\d+\.?\d*|\.\d+)/);
+      if (number) {
+        i += number[0].length;
+        pushAtom(number[0]);
+        continue;
+      }
+      const word = source.slice(i).match(/^[a-zA-Z]+/);
+      if (word) {
+        i += word[0].length;
+        const name = word[0];
+        if ((name === 'sqrt' || name === 'abs') && source[i] === '(') {
+          i++;
+          const inner = parseSequence(true);
+          pushAtom(name === 'sqrt' ? `\\sqrt{${inner}}` : `\\left|${inner}\\right|`);
+        } else if (name === 'sqrt') {
+          // "√9" without brackets
+          const radicand = source.slice(i).match(/^\s*(\d+\.?\d*|[a-z])/i);
+          i += radicand?.[0].length ?? 0;
+          pushAtom(`\\sqrt{${radicand?.[1] ?? '\\square'}}`);
+        } else if (name === 'pi') {
+          pushAtom('\\pi');
+        } else if (name.length > 1) {
+          pushAtom(`\\,\\mathrm{${name}}`); // a unit such as cm or kg
+        } else {
+          pushAtom(name);
+        }
+        continue;
+      }
+      const relation = source.slice(i).match(/^[<>]=/);
+      if (relation) {
+        i += relation[0].length;
+        pieces.push({ kind: 'op', value: relation[0] });
+        continue;
+      }
+      i++;
+      if (char === ' ') continue;
+      if (char === '/' || char in OPERATOR_LATEX) {
+        pieces.push({ kind: 'op', value: char });
+      } else if (char === '%') {
+        pushAtom('\\%');
+      } else if (char === '°') {
+        pushAtom('^{\\circ}');
+      } else {
+        pushAtom(`\\text{${char.replace(/[\\{}$&#_~^]/g, '')}}`);
+      }
+    }
+
+    // Exponents bind tighter than fractions: 2^3/4 is (2^3)/4.
+    const combine = (op: string, build: (left: Piece & { kind: 'atom' }, right: Piece & { kind: 'atom' }) => string) => {
+      for (let index = 1; index < pieces.length - 1; index++) {
+        const [left, middle, right] = [pieces[index - 1], pieces[index], pieces[index + 1]];
+        if (middle.kind === 'op' && middle.value === op && left.kind === 'atom' && right.kind === 'atom') {
+          const latex = build(left, right);
+          pieces.splice(index - 1, 3, { kind: 'atom', latex, bare: latex });
+          index--;
+        }
+      }
+    };
+    combine('^', (base, exponent) => `{${base.latex}}^{${exponent.bare}}`);
+    combine('/', (numerator, denominator) => `\\frac{${numerator.bare}}{${denominator.bare}}`);
+
+    return pieces
+      .map(piece => (piece.kind === 'atom' ? piece.latex : OPERATOR_LATEX[piece.value] ?? piece.value))
+      .join('');
+  };
+
+  return parseSequence(false);
+};
@@ -0,0 +1,167 @@
+import type { Profile, ProfilePreferences, ProfilesState } from '../types';
+import { DEFAULT_TIMER_SETTINGS } from './timer';
+
+const PROFILES_STORAGE_KEY = 'algebro-profiles';
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+// Per-student data lives under these keys, suffixed with the profile id (see profileStorageKey).
+// Before profiles existed they were stored unsuffixed; migrateLegacyData moves them over.
+const PROFILE_SCOPED_KEYS = ['algebro-user-progress', 'algebro-user-progress-quarantine', 'algebro-review-deck', 'algebro-remediations', 'algebro-curricula'];
+
+export const PROFILE_AVATARS = ['🦊', '🐼', '🐸', '🦉', '🐙', '🦄', '🐯', '🐧'];
+
+const DEFAULT_PREFERENCES: ProfilePreferences = {
+  defaultSubject: 'Math',
+  gradeLevel: 7,
+  hintsCostPoints: false,
+  timer: DEFAULT_TIMER_SETTINGS,
+};
+
+const createDefaultProfile = (): Profile => ({
+  id: DEFAULT_PROFILE_ID,
+  name: 'Student',
+  avatar: PROFILE_AVATARS[0],
+  preferences: DEFAULT_PREFERENCES,
+  createdAt: new Date().toISOString(),
+});
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// --- Storage ---
+const saveProfilesState = (state: ProfilesState): void => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(state));
+  } catch (err) {
+    console.error("Could not save profiles:", err);
+  }
+};
+
+// Moves data saved by the single-user version of the app into the default profile.
+const migrateLegacyData = (): void => {
+  PROFILE_SCOPED_KEYS.forEach(key => {
+    const legacyValue = localStorage.getItem(key);
+    if (legacyValue === null) return;
+    const scopedKey = `${key}:${DEFAULT_PROFILE_ID}`;
+    if (localStorage.getItem(scopedKey) === null) {
+      localStorage.setItem(scopedKey, legacyValue);
+    }
+    localStorage.removeItem(key);
+  });
+};
+
+export const loadProfilesState = (): ProfilesState => {
+  try {
+    const serializedState = localStorage.getItem(PROFILES_STORAGE_KEY);
+    if (serializedState === null) {
+      migrateLegacyData();
+      const initialState = { profiles: [createDefaultProfile()], activeProfileId: DEFAULT_PROFILE_ID };
+      saveProfilesState(initialState);
+      return initialState;
+    }
+    const savedState: ProfilesState = JSON.parse(serializedState);
+    // Fill in preferences added after a profile was created.
+    const state = {
+      ...savedState,
+      profiles: savedState.profiles.map(p => ({ ...p, preferences: { ...DEFAULT_PREFERENCES, ...p.preferences } })),
+    };
+    if (!state.profiles.some(p => p.id === state.activeProfileId)) {
+      return { ...state, activeProfileId: state.profiles[0]?.id ?? DEFAULT_PROFILE_ID };
+    }
+    return state;
+  } catch (err) {
+    console.error("Could not load profiles:", err);
+    return { profiles: [createDefaultProfile()], activeProfileId: DEFAULT_PROFILE_ID };
+  }
+};
+
+export const getActiveProfileId = (): string => loadProfilesState().activeProfileId;
+
+export const getActiveProfile = (): Profile => {
+  const state = loadProfilesState();
+  return state.profiles.find(p => p.id === state.activeProfileId) ?? createDefaultProfile();
+};
+
+export const profileStorageKey = (baseKey: string, profileId: string = getActiveProfileId()): string =>
+  `${baseKey}:${profileId}`;
+
+// --- PINs ---
+const hashPin = async (profileId: string, pin: string): Promise<string> => {
+  const data = new TextEncoder().encode(`${profileId}:${pin}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const verifyProfilePin = async (profile: Profile, pin: string): Promise<boolean> =>
+  !profile.pinHash || (await hashPin(profile.id, pin)) === profile.pinHash;
+
+// --- Profile management ---
+const updateProfile = (profileId: string, update: (profile: Profile) => Profile): ProfilesState => {
+  const state = loadProfilesState();
+  const updatedState = {
+    ...state,
+    profiles: state.profiles.map(p => (p.id === profileId ? update(p) : p)),
+  };
+  saveProfilesState(updatedState);
+  return updatedState;
+};
+
+export const createProfile = async (name: string, avatar: string, pin?: string): Promise<ProfilesState> => {
+  const state = loadProfilesState();
+  const id = createId();
+  const profile: Profile = {
+    id,
+    name: name.trim(),
+    avatar,
+    preferences: DEFAULT_PREFERENCES,
+    createdAt: new Date().toISOString(),
+    ...(pin && { pinHash: await hashPin(id, pin) }),
+  };
+  const updatedState = { ...state, profiles: [...state.profiles, profile] };
+  saveProfilesState(updatedState);
+  return updatedState;
+};
+
+export const switchProfile = (profileId: string): ProfilesState => {
+  const state = loadProfilesState();
+  const updatedState = { ...state, activeProfileId: profileId };
+  saveProfilesState(updatedState);
+  return updatedState;
+};
+
+export const renameProfile = (profileId: string, name: string): ProfilesState =>
+  updateProfile(profileId, profile => ({ ...profile, name: name.trim() }));
+
+export const setProfilePin = async (profileId: string, pin: string | null): Promise<ProfilesState> => {
+  const pinHash = pin ? await hashPin(profileId, pin) : undefined;
+  return updateProfile(profileId, ({ pinHash: _previous, ...profile }) => (pinHash ? { ...profile, pinHash } : profile));
+};
+
+export const updateProfilePreferences = (profileId: string, preferences: Partial<ProfilePreferences>): ProfilesState =>
+  updateProfile(profileId, profile => ({ ...profile, preferences: { ...profile.preferences, ...preferences } }));
+
+// Removes the profile and everything stored for it. The last remaining profile can't be deleted.
+export const deleteProfile = (profileId: string): ProfilesState => {
+  const state = loadProfilesState();
+  if (state.profiles.length <= 1) {
+    return state;
+  }
+  const profiles = state.profiles.filter(p => p.id !== profileId);
+  const updatedState = {
+    profiles,
+    // Prefer handing the device to a profile that doesn't need a PIN.
+    activeProfileId: state.activeProfileId === profileId
+      ? (profiles.find(p => !p.pinHash) ?? profiles[0]).id
+      : state.activeProfileId,
+  };
+  try {
+    PROFILE_SCOPED_KEYS.forEach(key => localStorage.removeItem(profileStorageKey(key, profileId)));
+  } catch (err) {
+    console.error("Could not remove profile data:", err);
+  }
+  saveProfilesState(updatedState);
+  return updatedState;
+};
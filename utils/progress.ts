@@ -1,7 +1,12 @@
 import type { UserProgress, ProgressStats, LessonRecord } from '../types';
+import type { ProviderId, ProviderSettings } from '../services/providers/types';
+import { profileStorageKey } from './profiles';
+import { PROGRESS_VERSION, migrateProgress, partitionRecords, type StoredProgress } from './progressSchema';
 
 const PROGRESS_STORAGE_KEY = 'algebro-user-progress';
+const PROGRESS_QUARANTINE_STORAGE_KEY = 'algebro-user-progress-quarantine';
 const API_KEY_STORAGE_KEY = 'algebro-api-key';
+const PROVIDER_SETTINGS_STORAGE_KEY = 'algebro-provider-settings';
 
 // --- API Key Management ---
 export const saveApiKey = (apiKey: string): void => {
@@ -21,25 +26,106 @@ export const loadApiKey = (): string | null => {
   }
 };
 
+// --- AI Provider Settings ---
+// LLM_PROVIDER (from .env.local) picks the default provider before the user has chosen one.
+const DEFAULT_PROVIDER = (process.env.LLM_PROVIDER as ProviderId | undefined) || 'gemini';
+
+export const saveProviderSettings = (settings: ProviderSettings): void => {
+  try {
+    localStorage.setItem(PROVIDER_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Could not save provider settings:", err);
+  }
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const serializedSettings = localStorage.getItem(PROVIDER_SETTINGS_STORAGE_KEY);
+    if (serializedSettings === null) {
+      return { provider: DEFAULT_PROVIDER };
+    }
+    return JSON.parse(serializedSettings);
+  } catch (err) {
+    console.error("Could not load provider settings:", err);
+    return { provider: DEFAULT_PROVIDER };
+  }
+};
+
 
 // --- User Progress Management ---
+// Progress is stored per profile (see utils/profiles.ts) in the versioned format described in
+// utils/progressSchema.ts. Older data is migrated on load and written back in the current format.
+// Anything that can't be read is moved to a quarantine key instead of being thrown away.
+interface QuarantinedProgress {
+  quarantinedAt: string; // ISO date string
+  reason: string;
+  data: string; // the raw JSON that couldn't be loaded
+}
+
+const quarantineProgress = (data: unknown, reason: string): void => {
+  console.error("Quarantined saved progress:", reason);
+  try {
+    const key = profileStorageKey(PROGRESS_QUARANTINE_STORAGE_KEY);
+    const entries: QuarantinedProgress[] = JSON.parse(localStorage.getItem(key) ?? '[]');
+    entries.push({
+      quarantinedAt: new Date().toISOString(),
+      reason,
+      data: typeof data === 'string' ? data : JSON.stringify(data),
+    });
+    localStorage.setItem(key, JSON.stringify(entries));
+  } catch (err) {
+    console.error("Could not quarantine saved progress:", err);
+  }
+};
+
+export const loadQuarantinedProgress = (): QuarantinedProgress[] => {
+  try {
+    return JSON.parse(localStorage.getItem(profileStorageKey(PROGRESS_QUARANTINE_STORAGE_KEY)) ?? '[]');
+  } catch (err) {
+    console.error("Could not load quarantined progress:", err);
+    return [];
+  }
+};
+
 export const loadUserProgress = (): UserProgress => {
+  let serializedState: string | null;
   try {
-    const serializedState = localStorage.getItem(PROGRESS_STORAGE_KEY);
-    if (serializedState === null) {
-      return { records: [] };
-    }
-    return JSON.parse(serializedState);
+    serializedState = localStorage.getItem(profileStorageKey(PROGRESS_STORAGE_KEY));
   } catch (err) {
     console.error("Could not load user progress:", err);
     return { records: [] };
   }
+  if (serializedState === null) {
+    return { records: [] };
+  }
+
+  let savedVersion: unknown;
+  let stored: StoredProgress;
+  try {
+    const parsed = JSON.parse(serializedState);
+    savedVersion = parsed?.version;
+    stored = migrateProgress(parsed);
+  } catch (err) {
+    quarantineProgress(serializedState, err instanceof Error ? err.message : String(err));
+    saveUserProgress({ records: [] });
+    return { records: [] };
+  }
+
+  const { valid, invalid } = partitionRecords(stored.records);
+  if (invalid.length > 0) {
+    quarantineProgress(invalid, `${invalid.length} lesson record(s) did not match the current format.`);
+  }
+  const progress = { records: valid };
+  if (invalid.length > 0 || savedVersion !== PROGRESS_VERSION) {
+    saveUserProgress(progress);
+  }
+  return progress;
 };
 
 export const saveUserProgress = (progress: UserProgress): void => {
   try {
-    const serializedState = JSON.stringify(progress);
-    localStorage.setItem(PROGRESS_STORAGE_KEY, serializedState);
+    const stored: StoredProgress = { version: PROGRESS_VERSION, records: progress.records };
+    localStorage.setItem(profileStorageKey(PROGRESS_STORAGE_KEY), JSON.stringify(stored));
   } catch (err) {
     console.error("Could not save user progress:", err);
   }
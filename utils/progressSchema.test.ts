@@ -0,0 +1,203 @@
+import { readFileSync } from 'node:fs';
+import { assert, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PROGRESS_VERSION, ProgressSchemaError, migrateProgress, partitionRecords } from './progressSchema';
+import { loadQuarantinedProgress, loadUserProgress } from './progress';
+import { profileStorageKey } from './profiles';
+import { isObject } from './typeGuards';
+import { createMemoryStorage } from '../test/memoryStorage';
+
+// Each fixture is progress exactly as an older version of the app saved it.
+const loadFixture = (version: number): unknown =>
+  JSON.parse(readFileSync(new URL(`./__fixtures__/progress/v${version}.json`, import.meta.url), 'utf8'));
+
+const outcomes = (skill: string, source: 'quiz' | 'problems', ...correct: boolean[]) =>
+  correct.map(isCorrect => ({ skill, correct: isCorrect, source }));
+
+// What each fixture's records look like once migrated to the current version.
+const EXPECTED_RECORDS: Record<number, object[]> = {
+  0: [{
+    date: '2024-09-02T15:04:11.000Z',
+    topic: 'Adding Fractions',
+    subject: 'Math',
+    quizScore: 3, quizTotal: 5, quizTimeTaken: 0,
+    problemsScore: 2, problemsTotal: 3, problemsTimeTaken: 0, problemsHintsUsed: 0,
+    mistakes: [],
+    difficulty: { grade: 7, tier: 'medium' },
+    skillOutcomes: [
+      ...outcomes('fractions', 'quiz', false, false, true, true, true),
+      ...outcomes('fractions', 'problems', false, true, true),
+    ],
+    timerMode: 'standard', timeMultiplier: 1,
+  }],
+  1: [{
+    date: '2024-10-14T16:20:00.000Z',
+    topic: 'Solving Two-Step Equations',
+    subject: 'Math',
+    quizScore: 4, quizTotal: 5, quizTimeTaken: 212,
+    problemsScore: 2, problemsTotal: 3, problemsTimeTaken: 405, problemsHintsUsed: 0,
+    mistakes: [
+      { questionText: 'Solve 2x + 3 = 11', userAnswer: 'x = 3', correctAnswer: 'x = 4', source: 'quiz' },
+      { questionText: 'Solve 5x - 4 = 21', userAnswer: 'No answer', correctAnswer: '5', source: 'problems' },
+    ],
+    difficulty: { grade: 7, tier: 'medium' },
+    skillOutcomes: [
+      ...outcomes('linear-equations', 'quiz', false, true, true, true, true),
+      ...outcomes('linear-equations', 'problems', false, true, true),
+    ],
+    timerMode: 'standard', timeMultiplier: 1,
+  }],
+  2: [{
+    date: '2024-11-05T18:45:30.000Z',
+    topic: 'States of Matter',
+    subject: 'Science',
+    quizScore: 5, quizTotal: 5, quizTimeTaken: 180,
+    problemsScore: 1, problemsTotal: 2, problemsTimeTaken: 300, problemsHintsUsed: 0,
+    mistakes: [
+      { questionText: 'What happens to particles when a solid melts?', userAnswer: 'They stop', correctAnswer: 'They move faster', source: 'problems' },
+    ],
+    difficulty: { grade: 7, tier: 'medium' },
+    skillOutcomes: [
+      ...outcomes('matter', 'quiz', true, true, true, true, true),
+      ...outcomes('matter', 'problems', false, true),
+    ],
+    timerMode: 'standard', timeMultiplier: 1,
+  }],
+  3: [{
+    date: '2025-01-20T14:00:00.000Z',
+    topic: 'Percents and Discounts',
+    subject: 'Math',
+    quizScore: 2, quizTotal: 4, quizTimeTaken: 240,
+    problemsScore: 3, problemsTotal: 3, problemsTimeTaken: 500, problemsHintsUsed: 0,
+    mistakes: [
+      { questionText: 'What is 20% of 50?', userAnswer: '5', correctAnswer: '10', source: 'quiz' },
+      { questionText: 'What is 25% of 80?', userAnswer: '25', correctAnswer: '20', source: 'quiz' },
+    ],
+    difficulty: { grade: 6, tier: 'easy' },
+    skillOutcomes: [
+      ...outcomes('percents', 'quiz', false, false, true, true),
+      ...outcomes('percents', 'problems', true, true, true),
+    ],
+    timerMode: 'standard', timeMultiplier: 1,
+  }],
+  4: [{
+    date: '2025-03-11T17:30:00.000Z',
+    topic: 'Photosynthesis',
+    subject: 'Science',
+    quizScore: 4, quizTotal: 4, quizTimeTaken: 150,
+    problemsScore: 1.75, problemsTotal: 2, problemsTimeTaken: 320, problemsHintsUsed: 1,
+    mistakes: [],
+    difficulty: { grade: 8, tier: 'hard' },
+    skillOutcomes: [
+      ...outcomes('cells', 'quiz', true, true, true, true),
+      ...outcomes('cells', 'problems', true, true),
+    ],
+    timerMode: 'standard', timeMultiplier: 1,
+  }],
+  5: [{
+    date: '2025-06-02T16:10:00.000Z',
+    topic: 'Slope-Intercept Form',
+    subject: 'Math',
+    quizScore: 1, quizTotal: 2, quizTimeTaken: 95,
+    problemsScore: 1, problemsTotal: 1, problemsTimeTaken: 140, problemsHintsUsed: 0,
+    mistakes: [
+      { questionText: 'What is the slope of y = 3x + 2?', userAnswer: '2', correctAnswer: '3', source: 'quiz' },
+    ],
+    difficulty: { grade: 9, tier: 'medium' },
+    skillOutcomes: [
+      ...outcomes('linear-functions', 'quiz', false, true),
+      ...outcomes('linear-functions', 'problems', true),
+    ],
+    timerMode: 'standard', timeMultiplier: 1,
+  }],
+  6: [
+    {
+      date: '2025-09-15T15:45:00.000Z',
+      topic: 'Food Webs',
+      subject: 'Science',
+      quizScore: 3, quizTotal: 3, quizTimeTaken: 410,
+      problemsScore: 0, problemsTotal: 1, problemsTimeTaken: 600, problemsHintsUsed: 2,
+      mistakes: [
+        { questionText: 'Which organism is a producer?', userAnswer: 'Rabbit', correctAnswer: 'Grass', source: 'problems' },
+      ],
+      difficulty: { grade: 6, tier: 'medium' },
+      skillOutcomes: [
+        ...outcomes('ecosystems', 'quiz', true, true, true),
+        ...outcomes('ecosystems', 'problems', false),
+      ],
+      timerMode: 'untimed', timeMultiplier: 1,
+    },
+    {
+      // No skills to go by, so it's counted as Math.
+      date: '2025-09-16T15:45:00.000Z',
+      topic: 'Study Skills',
+      subject: 'Math',
+      quizScore: 2, quizTotal: 2, quizTimeTaken: 60,
+      problemsScore: 1, problemsTotal: 1, problemsTimeTaken: 90, problemsHintsUsed: 0,
+      mistakes: [],
+      difficulty: { grade: 7, tier: 'easy' },
+      skillOutcomes: [],
+      timerMode: 'standard', timeMultiplier: 1.5,
+    },
+  ],
+};
+
+const FIXTURE_VERSIONS = Object.keys(EXPECTED_RECORDS).map(Number);
+
+describe('migrateProgress', () => {
+  it.each(FIXTURE_VERSIONS)('brings v%i progress up to the current version', version => {
+    const migrated = migrateProgress(loadFixture(version));
+
+    expect(migrated.version).toBe(PROGRESS_VERSION);
+    expect(migrated.records).toEqual(EXPECTED_RECORDS[version]);
+    expect(partitionRecords(migrated.records).invalid).toEqual([]);
+  });
+
+  it('leaves current progress unchanged', () => {
+    const current = migrateProgress(loadFixture(0));
+    expect(migrateProgress(JSON.parse(JSON.stringify(current)))).toEqual(current);
+  });
+
+  it('rejects progress from a newer version or without records', () => {
+    expect(() => migrateProgress({ version: PROGRESS_VERSION + 1, records: [] })).toThrow(ProgressSchemaError);
+    expect(() => migrateProgress({ version: -1, records: [] })).toThrow(ProgressSchemaError);
+    expect(() => migrateProgress({ lessons: [] })).toThrow(ProgressSchemaError);
+  });
+});
+
+describe('loadUserProgress', () => {
+  const progressKey = () => profileStorageKey('algebro-user-progress');
+
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createMemoryStorage());
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('quarantines records that do not match the current format and keeps the rest', () => {
+    const fixture = loadFixture(3);
+    assert(isObject(fixture) && Array.isArray(fixture.records) && isObject(fixture.records[0]));
+    const brokenRecord = { ...fixture.records[0], topic: 'Broken', quizScore: 'three' };
+    localStorage.setItem(progressKey(), JSON.stringify({ ...fixture, records: [...fixture.records, brokenRecord, null] }));
+
+    expect(loadUserProgress().records).toEqual(EXPECTED_RECORDS[3]);
+
+    const quarantined = loadQuarantinedProgress();
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0].reason).toBe('2 lesson record(s) did not match the current format.');
+    expect(JSON.parse(quarantined[0].data)).toEqual([expect.objectContaining({ topic: 'Broken', quizScore: 'three' }), null]);
+  });
+
+  it('saves migrated progress back in the current format', () => {
+    localStorage.setItem(progressKey(), JSON.stringify(loadFixture(0)));
+    loadUserProgress();
+
+    expect(JSON.parse(localStorage.getItem(progressKey())!)).toEqual({ version: PROGRESS_VERSION, records: EXPECTED_RECORDS[0] });
+    expect(loadQuarantinedProgress()).toEqual([]);
+  });
+
+  it('quarantines progress that cannot be read at all', () => {
+    localStorage.setItem(progressKey(), '{"records": [');
+
+    expect(loadUserProgress().records).toEqual([]);
+    expect(loadQuarantinedProgress()).toEqual([expect.objectContaining({ data: '{"records": [' })]);
+  });
+});
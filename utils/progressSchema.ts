@@ -0,0 +1,176 @@
+import type { Difficulty, LessonRecord, Mistake, MistakeSource, SkillOutcome, UserProgress } from '../types';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_TIERS, GRADE_LEVELS } from './difficulty';
+import { getSkill, inferSkill } from './skills';
+import { TIME_MULTIPLIERS, TIMER_MODES } from './timer';
+import { isObject, isOneOf } from './typeGuards';
+
+// Progress is saved as { version, records }. Whenever the shape of a LessonRecord changes,
+// bump PROGRESS_VERSION and add a migration from the previous version to the end of MIGRATIONS.
+// Data saved before versioning existed (a bare { records }) counts as version 0.
+
+export const PROGRESS_VERSION = 7;
+
+export interface StoredProgress extends UserProgress {
+  version: number;
+}
+
+type Migration = (data: { version: number; records: unknown[] }) => { version: number; records: unknown[] };
+
+const MISTAKE_SOURCES: MistakeSource[] = ['quiz', 'problems'];
+
+// Applies a migration to each record. Anything that isn't an object is passed through untouched
+// and ends up in quarantine.
+const migrateRecords = (records: unknown[], migrate: (record: Record<string, unknown>) => Record<string, unknown>): unknown[] =>
+  records.map(record => (isObject(record) ? migrate(record) : record));
+
+// MIGRATIONS[n] upgrades version n to version n + 1.
+const MIGRATIONS: Migration[] = [
+  // v1: records saved before mistakes and timings were tracked get empty defaults.
+  ({ records }) => ({
+    version: 1,
+    records: migrateRecords(records, record => ({
+      ...record,
+      quizTimeTaken: record.quizTimeTaken ?? 0,
+      problemsTimeTaken: record.problemsTimeTaken ?? 0,
+      mistakes: record.mistakes ?? [],
+    })),
+  }),
+  // v2: every mistake notes where it came from. Older records saved quiz mistakes first,
+  // one per wrong answer, followed by the practice problem mistakes.
+  ({ records }) => ({
+    version: 2,
+    records: migrateRecords(records, record => {
+      const quizMistakeCount = Number(record.quizTotal) - Number(record.quizScore);
+      return {
+        ...record,
+        mistakes: Array.isArray(record.mistakes)
+          ? record.mistakes.map((mistake: unknown, index) => (isObject(mistake)
+              ? { ...mistake, source: mistake.source ?? (index < quizMistakeCount ? 'quiz' : 'problems') }
+              : mistake))
+          : record.mistakes,
+      };
+    }),
+  }),
+  // v3: lessons have a difficulty. Earlier lessons were pitched at the old fixed level.
+  ({ records }) => ({
+    version: 3,
+    records: migrateRecords(records, record => ({ ...record, difficulty: record.difficulty ?? DEFAULT_DIFFICULTY })),
+  }),
+  // v4: hint usage is tracked. There were no hints before.
+  ({ records }) => ({
+    version: 4,
+    records: migrateRecords(records, record => ({ ...record, problemsHintsUsed: record.problemsHintsUsed ?? 0 })),
+  }),
+  // v5: answers are tracked per skill. Older records only have scores, so each one is placed on
+  // the skill its topic suggests, with its wrong answers ahead of its right ones. Records whose
+  // topic matches no skill get no outcomes.
+  ({ records }) => ({
+    version: 5,
+    records: migrateRecords(records, record => {
+      const skill = typeof record.topic === 'string' ? inferSkill(record.topic) : null;
+      const outcomes = (source: MistakeSource, score: unknown, total: number): SkillOutcome[] => {
+        const correct = Math.min(total, Math.round(Number(score)));
+        return Array.from({ length: total }, (_, index) => ({ skill: skill!, correct: index >= total - correct, source }));
+      };
+      const { quizTotal, problemsTotal } = record;
+      return {
+        ...record,
+        skillOutcomes: record.skillOutcomes ?? (skill && isCount(quizTotal) && isCount(problemsTotal)
+          ? [...outcomes('quiz', record.quizScore, quizTotal), ...outcomes('problems', record.problemsScore, problemsTotal)]
+          : []),
+      };
+    }),
+  }),
+  // v6: the timer mode is recorded. Every earlier lesson had the standard timer.
+  ({ records }) => ({
+    version: 6,
+    records: migrateRecords(records, record => ({ ...record, timerMode: record.timerMode ?? 'standard', timeMultiplier: record.timeMultiplier ?? 1 })),
+  }),
+  // v7: every record names its subject. Earlier lessons were Math or Science, which the skills they
+  // were tagged with tell apart; the ones without skills are counted as Math, the default subject.
+  ({ records }) => ({
+    version: 7,
+    records: migrateRecords(records, record => {
+      const skills = Array.isArray(record.skillOutcomes) ? record.skillOutcomes.filter(isObject).map(outcome => outcome.skill) : [];
+      const skillSubject = skills.map(skill => (typeof skill === 'string' ? getSkill(skill)?.subject : undefined)).find(Boolean);
+      return { ...record, subject: record.subject ?? skillSubject ?? 'Math' };
+    }),
+  }),
+];
+
+export class ProgressSchemaError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProgressSchemaError';
+  }
+}
+
+// Brings parsed progress data of any known version up to PROGRESS_VERSION.
+export const migrateProgress = (data: unknown): StoredProgress => {
+  if (!isObject(data) || !Array.isArray(data.records)) {
+    throw new ProgressSchemaError('Saved progress has no list of records.');
+  }
+  const version = data.version ?? 0;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 0) {
+    throw new ProgressSchemaError(`Saved progress has an invalid version: ${version}.`);
+  }
+  if (version > PROGRESS_VERSION) {
+    throw new ProgressSchemaError(`Saved progress is from a newer version of the app (v${version}).`);
+  }
+
+  let migrated: { version: number; records: unknown[] } = { version, records: data.records };
+  while (migrated.version < PROGRESS_VERSION) {
+    migrated = MIGRATIONS[migrated.version](migrated);
+  }
+  return migrated as StoredProgress;
+};
+
+// --- Validation ---
+const isString = (value: unknown): value is string => typeof value === 'string';
+const isCount = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+const isValidMistake = (value: unknown): value is Mistake =>
+  isObject(value) &&
+  isString(value.questionText) &&
+  isString(value.userAnswer) &&
+  isString(value.correctAnswer) &&
+  isOneOf(MISTAKE_SOURCES, value.source);
+
+const isValidSkillOutcome = (value: unknown): value is SkillOutcome =>
+  isObject(value) &&
+  isString(value.skill) &&
+  typeof value.correct === 'boolean' &&
+  isOneOf(MISTAKE_SOURCES, value.source);
+
+const isValidDifficulty = (value: unknown): value is Difficulty =>
+  isObject(value) &&
+  isOneOf(GRADE_LEVELS, value.grade) &&
+  isOneOf(DIFFICULTY_TIERS, value.tier);
+
+export const isValidLessonRecord = (value: unknown): value is LessonRecord =>
+  isObject(value) &&
+  isString(value.date) && !Number.isNaN(new Date(value.date).getTime()) &&
+  isString(value.topic) &&
+  isString(value.subject) && value.subject.trim() !== '' &&
+  isCount(value.quizScore) && isCount(value.quizTotal) && isCount(value.quizTimeTaken) &&
+  isCount(value.problemsScore) && isCount(value.problemsTotal) && isCount(value.problemsTimeTaken) &&
+  isCount(value.problemsHintsUsed) &&
+  isOneOf(TIMER_MODES, value.timerMode) && isOneOf(TIME_MULTIPLIERS, value.timeMultiplier) &&
+  isValidDifficulty(value.difficulty) &&
+  Array.isArray(value.mistakes) && value.mistakes.every(isValidMistake) &&
+  Array.isArray(value.skillOutcomes) && value.skillOutcomes.every(isValidSkillOutcome);
+
+// Splits migrated records into the ones that match the current schema and the ones that don't.
+export const partitionRecords = (records: unknown[]): { valid: LessonRecord[]; invalid: unknown[] } => {
+  const valid: LessonRecord[] = [];
+  const invalid: unknown[] = [];
+  records.forEach(record => {
+    if (isValidLessonRecord(record)) {
+      valid.push(record);
+    } else {
+      invalid.push(record);
+    }
+  });
+  return { valid, invalid };
+};
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { exportProgressCsv } from './progressTransfer';
+import type { LessonRecord, Mistake } from '../types';
+
+const record = (mistakes: Mistake[]): LessonRecord => ({
+  date: '2025-09-15T15:45:00.000Z',
+  topic: 'Integers',
+  subject: 'Math',
+  quizScore: 1, quizTotal: 2, quizTimeTaken: 120,
+  problemsScore: 0, problemsTotal: 1, problemsTimeTaken: 200, problemsHintsUsed: 0,
+  timerMode: 'standard', timeMultiplier: 1,
+  difficulty: { grade: 7, tier: 'medium' },
+  mistakes,
+  skillOutcomes: [],
+});
+
+const mistake = (userAnswer: string, correctAnswer = '5'): Mistake =>
+  ({ questionText: 'What is 2 + 3?', userAnswer, correctAnswer, source: 'quiz' });
+
+// The last three columns of each data row: question, student answer, correct answer.
+const mistakeCells = (csv: string): string[][] =>
+  csv.split('\r\n').slice(1).map(row => row.split(',').slice(-3));
+
+describe('exportProgressCsv', () => {
+  it('writes one row per mistake under a header', () => {
+    const csv = exportProgressCsv({ records: [record([mistake('6'), mistake('4')])] });
+
+    const [header, ...rows] = csv.split('\r\n');
+    expect(header.split(',').slice(-4)).toEqual(['mistakeSource', 'questionText', 'userAnswer', 'correctAnswer']);
+    expect(rows).toHaveLength(2);
+    expect(rows[0]).toBe('2025-09-15T15:45:00.000Z,Integers,Math,1,2,120,0,1,200,0,standard,1,7,medium,,quiz,What is 2 + 3?,6,5');
+  });
+
+  it('quotes cells with commas, quotes or line breaks', () => {
+    const csv = exportProgressCsv({ records: [record([mistake('5, I think', 'say "5"')])] });
+
+    expect(csv).toContain(',"5, I think","say ""5"""');
+  });
+
+  it('keeps cells a spreadsheet would run as formulas from being run', () => {
+    const csv = exportProgressCsv({
+      records: [record([
+        mistake('=HYPERLINK("http://example.com","5")'),
+        mistake('+1', '-4'),
+        mistake('@SUM(A1)'),
+      ])],
+    });
+
+    expect(csv).toContain(`,"'=HYPERLINK(""http://example.com"",""5"")",5`);
+    expect(mistakeCells(csv).slice(1)).toEqual([
+      ['What is 2 + 3?', "'+1", "'-4"],
+      ['What is 2 + 3?', "'@SUM(A1)", '5'],
+    ]);
+  });
+});
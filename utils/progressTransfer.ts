@@ -0,0 +1,105 @@
+import type { LessonRecord, UserProgress } from '../types';
+import { loadUserProgress, saveUserProgress } from './progress';
+import { PROGRESS_VERSION, migrateProgress, partitionRecords, type StoredProgress } from './progressSchema';
+
+// Moving progress in and out of the app: JSON backups that can be imported on another
+// device, and CSV for spreadsheets. CSV is export-only.
+
+export type ImportMode = 'merge' | 'replace';
+
+export interface ProgressImport {
+  records: LessonRecord[];
+  skipped: number; // records in the file that didn't match the current format
+}
+
+// --- Export ---
+// Backups use the same versioned format as localStorage, so importing an old backup
+// goes through the same migrations as loading old saved data.
+export const exportProgressJson = (progress: UserProgress): string => {
+  const stored: StoredProgress = { version: PROGRESS_VERSION, records: progress.records };
+  return JSON.stringify(stored, null, 2);
+};
+
+const CSV_COLUMNS = [
+  'date', 'topic', 'subject',
+  'quizScore', 'quizTotal', 'quizTimeTaken',
+  'problemsScore', 'problemsTotal', 'problemsTimeTaken', 'problemsHintsUsed',
+  'timerMode', 'timeMultiplier',
+  'grade', 'difficulty', 'skills',
+  'mistakeSource', 'questionText', 'userAnswer', 'correctAnswer',
+];
+
+// Student answers and model-written text can start with "=", "+", "-" or "@", which a
+// spreadsheet would run as a formula; a leading "'" makes it show the text instead.
+const escapeCsvValue = (value: string | number): string => {
+  const text = typeof value === 'string' && /^[=+\-@\t\r]/.test(value) ? `'${value}` : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// One row per mistake, with the lesson's scores repeated on each. Lessons without
+// mistakes still get a row, with the mistake columns left empty.
+export const exportProgressCsv = (progress: UserProgress): string => {
+  const rows = progress.records.flatMap(record => {
+    const lessonColumns = [
+      record.date, record.topic, record.subject,
+      record.quizScore, record.quizTotal, record.quizTimeTaken,
+      record.problemsScore, record.problemsTotal, record.problemsTimeTaken, record.problemsHintsUsed,
+      record.timerMode, record.timeMultiplier,
+      record.difficulty.grade, record.difficulty.tier,
+      [...new Set(record.skillOutcomes.map(outcome => outcome.skill))].join(' '),
+    ];
+    if (record.mistakes.length === 0) {
+      return [[...lessonColumns, '', '', '', '']];
+    }
+    return record.mistakes.map(mistake => [
+      ...lessonColumns, mistake.source, mistake.questionText, mistake.userAnswer, mistake.correctAnswer,
+    ]);
+  });
+  return [CSV_COLUMNS, ...rows].map(row => row.map(escapeCsvValue).join(',')).join('\r\n');
+};
+
+// --- Import ---
+export const parseProgressImport = (json: string): ProgressImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("That file isn't a progress backup. Please choose a .json file exported from Alge-Bro.");
+  }
+
+  let stored: StoredProgress;
+  try {
+    stored = migrateProgress(parsed);
+  } catch (err) {
+    throw new Error(`This backup can't be imported: ${err instanceof Error ? err.message : String(err)}`);
+  }
+
+  const { valid, invalid } = partitionRecords(stored.records);
+  if (valid.length === 0 && invalid.length > 0) {
+    throw new Error("None of the lessons in this backup could be read.");
+  }
+  return { records: valid, skipped: invalid.length };
+};
+
+// Two records describe the same lesson if they were finished at the same time on the same topic.
+const recordKey = (record: LessonRecord): string =>
+  `${record.date}|${record.topic.trim().toLowerCase()}`;
+
+const dedupeRecords = (records: LessonRecord[]): LessonRecord[] => {
+  const byKey = new Map<string, LessonRecord>();
+  records.forEach(record => {
+    const key = recordKey(record);
+    if (!byKey.has(key)) {
+      byKey.set(key, record);
+    }
+  });
+  return [...byKey.values()].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+};
+
+// Saves imported records for the active profile. Merging keeps the existing copy of a duplicate.
+export const importProgress = (imported: ProgressImport, mode: ImportMode): UserProgress => {
+  const existing = mode === 'merge' ? loadUserProgress().records : [];
+  const updatedProgress = { records: dedupeRecords([...existing, ...imported.records]) };
+  saveUserProgress(updatedProgress);
+  return updatedProgress;
+};
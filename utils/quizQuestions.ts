@@ -0,0 +1,186 @@
+import type { AnswerCheckingStrategy, MatchingQuestion, Quiz, QuizQuestion, QuizQuestionType } from '../types';
+import { isAnswerCorrect } from './answerChecker';
+import { describeVisual, normalizeVisual } from './visuals';
+import { isObject } from './typeGuards';
+
+// Per-type logic for quiz questions: what the student's answer looks like, how it is graded,
+// and how both sides are written out for mistakes, reviews and the tutor.
+
+export const QUIZ_QUESTION_TYPES: QuizQuestionType[] = ['multiple-choice', 'multi-select', 'true-false', 'numeric', 'fill-blank', 'ordering', 'matching'];
+
+export const BLANK_MARKER = '___';
+
+export type QuizAnswer =
+  | { type: 'multiple-choice'; choice: number | null }
+  | { type: 'multi-select'; choices: number[] }
+  | { type: 'true-false'; value: boolean | null }
+  | { type: 'numeric'; text: string }
+  | { type: 'fill-blank'; text: string }
+  | { type: 'ordering'; order: number[] } // indices into orderedItems, in the student's order
+  | { type: 'matching'; matches: (number | null)[] }; // for each pair, the index of the right side chosen for its left side
+
+// --- Normalizing ---
+// The model answers with one flat object per question (the response schema can't express a
+// union), so only the fields belonging to the question's type are kept. Questions without a
+// type are multiple choice, as every question was before other types existed. Questions are
+// validated first, so the fields only need picking out here.
+export const normalizeQuizQuestion = (raw: unknown): QuizQuestion => {
+  const fields = isObject(raw) ? raw : {};
+  const base = {
+    questionText: fields.questionText as string,
+    ...(typeof fields.skill === 'string' && { skill: fields.skill }),
+    ...(isObject(fields.visual) && { visual: normalizeVisual(fields.visual) }),
+    ...(fields.fromLab === true && { fromLab: true }),
+  };
+  switch (fields.type ?? 'multiple-choice') {
+    case 'multi-select':
+      return { ...base, type: 'multi-select', options: fields.options as string[], correctAnswerIndices: fields.correctAnswerIndices as number[] };
+    case 'true-false':
+      return { ...base, type: 'true-false', answerIsTrue: fields.answerIsTrue as boolean };
+    case 'numeric':
+      return { ...base, type: 'numeric', numericAnswer: fields.numericAnswer as string, ...(typeof fields.unit === 'string' && fields.unit && { unit: fields.unit }) };
+    case 'fill-blank':
+      return { ...base, type: 'fill-blank', acceptedAnswers: fields.acceptedAnswers as string[] };
+    case 'ordering':
+      return { ...base, type: 'ordering', orderedItems: fields.orderedItems as string[] };
+    case 'matching':
+      return { ...base, type: 'matching', pairs: fields.pairs as MatchingQuestion['pairs'] };
+    default:
+      return {
+        ...base,
+        type: 'multiple-choice',
+        options: fields.options as string[],
+        correctAnswerIndex: fields.correctAnswerIndex as number,
+        ...(Array.isArray(fields.optionVisuals) && fields.optionVisuals.length > 0 && { optionVisuals: fields.optionVisuals.map(normalizeVisual) }),
+      };
+  }
+};
+
+export const normalizeQuiz = (quiz: Quiz): Quiz => ({ ...quiz, questions: quiz.questions.map(normalizeQuizQuestion) });
+
+// --- Answers ---
+const hashString = (input: string): number => {
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0;
+  }
+  return hash >>> 0;
+};
+
+// A shuffle that is the same every time for the same question, and never the original order.
+export const shuffledIndices = (count: number, seed: string): number[] => {
+  const indices = Array.from({ length: count }, (_, index) => index);
+  let state = hashString(seed) || 1;
+  for (let i = count - 1; i > 0; i--) {
+    state = (state * 1103515245 + 12345) >>> 0;
+    const j = state % (i + 1);
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  if (count > 1 && indices.every((value, index) => value === index)) {
+    indices.push(indices.shift()!);
+  }
+  return indices;
+};
+
+export const createEmptyAnswer = (question: QuizQuestion): QuizAnswer => {
+  switch (question.type) {
+    case 'multiple-choice': return { type: 'multiple-choice', choice: null };
+    case 'multi-select': return { type: 'multi-select', choices: [] };
+    case 'true-false': return { type: 'true-false', value: null };
+    case 'numeric': return { type: 'numeric', text: '' };
+    case 'fill-blank': return { type: 'fill-blank', text: '' };
+    case 'ordering': return { type: 'ordering', order: shuffledIndices(question.orderedItems.length, question.questionText) };
+    case 'matching': return { type: 'matching', matches: question.pairs.map(() => null) };
+  }
+};
+
+const sameSet = (a: number[], b: number[]): boolean =>
+  a.length === b.length && a.every(value => b.includes(value));
+
+// Typed answers are marked the way the lesson's subject asks (its subject pack); without one,
+// fill-ins are compared as math and numbers must be exact.
+export const isQuizAnswerCorrect = (question: QuizQuestion, answer: QuizAnswer, answerChecking?: AnswerCheckingStrategy): boolean => {
+  const tolerance = answerChecking?.tolerance ?? 0;
+  switch (question.type) {
+    case 'multiple-choice':
+      return answer.type === 'multiple-choice' && answer.choice === question.correctAnswerIndex;
+    case 'multi-select':
+      return answer.type === 'multi-select' && sameSet(answer.choices, question.correctAnswerIndices);
+    case 'true-false':
+      return answer.type === 'true-false' && answer.value === question.answerIsTrue;
+    case 'numeric':
+      return answer.type === 'numeric' && isAnswerCorrect(answer.text, question.numericAnswer, 'number', tolerance);
+    case 'fill-blank':
+      return answer.type === 'fill-blank' && question.acceptedAnswers.some(accepted => isAnswerCorrect(answer.text, accepted, answerChecking?.fillBlankAs ?? 'expression', tolerance));
+    case 'ordering':
+      return answer.type === 'ordering' && answer.order.every((itemIndex, position) => itemIndex === position);
+    case 'matching':
+      return answer.type === 'matching' && answer.matches.every((rightIndex, pairIndex) => rightIndex === pairIndex);
+  }
+};
+
+// --- Formatting ---
+const NO_ANSWER = 'No answer';
+
+export const formatQuizAnswer = (question: QuizQuestion, answer: QuizAnswer): string => {
+  switch (answer.type) {
+    case 'multiple-choice':
+      return question.type === 'multiple-choice' && answer.choice !== null ? question.options[answer.choice] : NO_ANSWER;
+    case 'multi-select':
+      return question.type === 'multi-select' && answer.choices.length > 0
+        ? [...answer.choices].sort((a, b) => a - b).map(index => question.options[index]).join('; ')
+        : NO_ANSWER;
+    case 'true-false':
+      return answer.value === null ? NO_ANSWER : answer.value ? 'True' : 'False';
+    case 'numeric':
+      return answer.text.trim() ? `${answer.text.trim()}${question.type === 'numeric' && question.unit ? ` ${question.unit}` : ''}` : NO_ANSWER;
+    case 'fill-blank':
+      return answer.text.trim() || NO_ANSWER;
+    case 'ordering':
+      return question.type === 'ordering' ? answer.order.map(index => question.orderedItems[index]).join(' → ') : NO_ANSWER;
+    case 'matching':
+      return question.type === 'matching' && answer.matches.some(match => match !== null)
+        ? question.pairs.map((pair, index) => `${pair.left} → ${answer.matches[index] === null ? '?' : question.pairs[answer.matches[index]!].right}`).join('; ')
+        : NO_ANSWER;
+  }
+};
+
+export const formatCorrectAnswer = (question: QuizQuestion): string => {
+  switch (question.type) {
+    case 'multiple-choice': return question.options[question.correctAnswerIndex];
+    case 'multi-select': return [...question.correctAnswerIndices].sort((a, b) => a - b).map(index => question.options[index]).join('; ');
+    case 'true-false': return question.answerIsTrue ? 'True' : 'False';
+    case 'numeric': return `${question.numericAnswer}${question.unit ? ` ${question.unit}` : ''}`;
+    case 'fill-blank': return question.acceptedAnswers[0];
+    case 'ordering': return question.orderedItems.join(' → ');
+    case 'matching': return question.pairs.map(pair => `${pair.left} → ${pair.right}`).join('; ');
+  }
+};
+
+const describeQuestionText = (question: QuizQuestion): string => {
+  const letter = (index: number) => String.fromCharCode(65 + index);
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'multi-select': {
+      const optionVisuals = question.type === 'multiple-choice' ? question.optionVisuals : undefined;
+      const options = question.options.map((option, index) => `${letter(index)}) ${option}${optionVisuals ? ` ${describeVisual(optionVisuals[index])}` : ''}`);
+      return `${question.questionText}${question.type === 'multi-select' ? ' (select all that apply)' : ''}\n   ${options.join('  ')}`;
+    }
+    case 'true-false':
+      return `True or false: ${question.questionText}`;
+    case 'numeric':
+      return `${question.questionText}${question.unit ? ` (answer in ${question.unit})` : ''}`;
+    case 'fill-blank':
+      return `Fill in the blank: ${question.questionText}`;
+    case 'ordering':
+      return `${question.questionText} (put in order)\n   ${shuffledIndices(question.orderedItems.length, question.questionText).map(index => question.orderedItems[index]).join(' | ')}`;
+    case 'matching':
+      return `${question.questionText} (match each item)\n   ${question.pairs.map(pair => pair.left).join(' | ')}\n   with: ${shuffledIndices(question.pairs.length, question.questionText).map(index => question.pairs[index].right).join(' | ')}`;
+  }
+};
+
+// The question as the student sees it, in plain text (e.g. for the tutor's prompt).
+export const describeQuizQuestion = (question: QuizQuestion): string => {
+  const description = describeQuestionText(question);
+  return question.visual ? `${description}\n   ${describeVisual(question.visual)}` : description;
+};
@@ -0,0 +1,144 @@
+import type { LessonRecord } from '../types';
+import { calculateMastery, type SkillMastery } from './mastery';
+import { getSkill, inferSkill } from './skills';
+
+// Picks what to study next. Topics already studied are suggested for review when the last
+// attempt went badly, was slow, or is getting old; new topics come from the current topic list
+// (Khan Academy or an uploaded syllabus), in list order, favouring the student's weak skills.
+
+export type RecommendationKind = 'review' | 'new';
+
+export interface TopicRecommendation {
+  topic: string;
+  reason: string;
+  kind: RecommendationKind;
+}
+
+export interface RecommendationInput {
+  records: LessonRecord[];
+  candidateTopics: string[]; // the current topic list, in curriculum order
+  candidateSource: string; // how to refer to that list, e.g. "syllabus"
+  subject: string;
+  excludeTopic?: string; // usually the lesson that was just finished
+  now?: Date;
+}
+
+const RECOMMENDATION_COUNT = 3;
+const MAX_REVIEWS = 2; // leave room for something new when the list has new topics
+const REVIEW_AFTER_DAYS = 7;
+const MIN_REVIEW_SCORE = 0.6; // reviews scoring below this aren't worth suggesting
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const normalizeTopic = (topic: string): string => topic.trim().toLowerCase();
+
+const scorePercent = (record: LessonRecord): number => {
+  const total = record.quizTotal + record.problemsTotal;
+  return total > 0 ? (record.quizScore + record.problemsScore) / total : 1;
+};
+
+const secondsPerQuestion = (record: LessonRecord): number => {
+  const questions = record.quizTotal + record.problemsTotal;
+  return questions > 0 ? (record.quizTimeTaken + record.problemsTimeTaken) / questions : 0;
+};
+
+// Times are only compared between lessons timed the same way: a student with double time or no
+// limit isn't slow just because they took longer than they did with the standard timer.
+const timingKey = (record: LessonRecord): string => `${record.timerMode}:${record.timeMultiplier}`;
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const formatMinutes = (seconds: number): string => `${Math.max(1, Math.round(seconds / 60))} min`;
+
+type ScoredRecommendation = TopicRecommendation & { score: number };
+
+// The record's skills, or its topic's skill for records without outcomes.
+const recordSkills = (record: LessonRecord): string[] => {
+  const skills = [...new Set(record.skillOutcomes.map(outcome => outcome.skill))];
+  const inferred = inferSkill(record.topic);
+  return skills.length > 0 ? skills : inferred ? [inferred] : [];
+};
+
+const scoreReviews = (input: RecommendationInput, masteryBySkill: Map<string, SkillMastery>, now: Date): ScoredRecommendation[] => {
+  const latestByTopic = new Map<string, LessonRecord>();
+  input.records.forEach(record => latestByTopic.set(normalizeTopic(record.topic), record));
+  const typicalPaces = new Map<string, number>();
+  input.records.forEach(record => {
+    const key = timingKey(record);
+    if (typicalPaces.has(key)) return;
+    const paces = input.records.filter(other => timingKey(other) === key).map(secondsPerQuestion);
+    typicalPaces.set(key, median(paces.filter(pace => pace > 0)));
+  });
+
+  return [...latestByTopic.entries()].flatMap(([key, record]) => {
+    if (input.excludeTopic && key === normalizeTopic(input.excludeTopic)) return [];
+    const skills = recordSkills(record);
+    // Skip topics from another subject; topics with no known skill are kept.
+    if (skills.length > 0 && !skills.some(skill => getSkill(skill)?.subject === input.subject)) return [];
+
+    const percent = scorePercent(record);
+    const daysSince = Math.floor((now.getTime() - new Date(record.date).getTime()) / DAY_MS);
+    const pace = secondsPerQuestion(record);
+    const typicalPace = typicalPaces.get(timingKey(record)) ?? 0;
+    const isSlow = typicalPace > 0 && pace > typicalPace * 1.5;
+    const weakSkill = skills.map(skill => masteryBySkill.get(skill)).find(mastery => mastery?.status === 'weak');
+    const isDue = daysSince >= REVIEW_AFTER_DAYS && percent < 0.9;
+
+    // Each factor adds to the score; the largest one explains the suggestion.
+    const factors: { weight: number; reason: string }[] = [
+      { weight: (1 - percent) * 3, reason: `You scored ${Math.round(percent * 100)}% here last time. Another go will help it click.` },
+      { weight: Math.min(record.mistakes.length, 5) * 0.2, reason: `You had ${record.mistakes.length} mistake${record.mistakes.length === 1 ? '' : 's'} to learn from last time.` },
+      { weight: isDue ? Math.min(daysSince / (REVIEW_AFTER_DAYS * 2), 1.5) : 0, reason: `It's been ${daysSince} days since you studied this. A quick review will help it stick.` },
+      { weight: isSlow ? 0.5 : 0, reason: `This took you about ${formatMinutes(pace * (record.quizTotal + record.problemsTotal))}, longer than usual. Practice will build speed.` },
+      { weight: weakSkill ? 1 : 0, reason: `It practises ${weakSkill?.skill.name}, one of your skills to work on.` },
+    ];
+    const score = factors.reduce((total, factor) => total + factor.weight, 0);
+    if (score < MIN_REVIEW_SCORE) return [];
+    const main = factors.reduce((best, factor) => (factor.weight > best.weight ? factor : best));
+    return [{ topic: record.topic, reason: main.reason, kind: 'review' as const, score }];
+  });
+};
+
+const scoreNewTopics = (input: RecommendationInput, masteryBySkill: Map<string, SkillMastery>): ScoredRecommendation[] => {
+  const studied = new Set(input.records.map(record => normalizeTopic(record.topic)));
+  const isStudied = (topic: string) => studied.has(normalizeTopic(topic));
+
+  return input.candidateTopics.flatMap((topic, index) => {
+    if (isStudied(topic) || (input.excludeTopic && normalizeTopic(topic) === normalizeTopic(input.excludeTopic))) return [];
+    const skillId = inferSkill(topic, input.subject);
+    const mastery = skillId ? masteryBySkill.get(skillId) : undefined;
+    if (mastery?.status === 'mastered') return [];
+
+    const previous = input.candidateTopics[index - 1];
+    let reason = `Next new topic on your ${input.candidateSource}.`;
+    let score = 1.5 - index * 0.05; // earlier topics in the list come first
+    if (mastery?.status === 'weak') {
+      reason = `It builds up ${mastery.skill.name}, one of your skills to work on.`;
+      score += 1;
+    } else if (previous && isStudied(previous)) {
+      reason = `It comes right after "${previous}" on your ${input.candidateSource}.`;
+      score += 0.5;
+    }
+    return [{ topic, reason, kind: 'new' as const, score }];
+  });
+};
+
+export const recommendNextTopics = (input: RecommendationInput): TopicRecommendation[] => {
+  const now = input.now ?? new Date();
+  const masteryBySkill = new Map(calculateMastery(input.records).map(mastery => [mastery.skill.id, mastery]));
+  const reviews = scoreReviews(input, masteryBySkill, now).sort((a, b) => b.score - a.score);
+  const newTopics = scoreNewTopics(input, masteryBySkill).sort((a, b) => b.score - a.score);
+
+  const reviewCount = newTopics.length > 0 ? Math.min(MAX_REVIEWS, reviews.length) : RECOMMENDATION_COUNT;
+  const picked = [...reviews.slice(0, reviewCount), ...newTopics].slice(0, RECOMMENDATION_COUNT);
+  // Top up with remaining reviews when the list ran out of new topics.
+  const extra = reviews.slice(reviewCount, reviewCount + RECOMMENDATION_COUNT - picked.length);
+  return [...picked, ...extra]
+    .sort((a, b) => b.score - a.score)
+    .map(({ topic, reason, kind }) => ({ topic, reason, kind }));
+};
@@ -0,0 +1,81 @@
+import type { LessonRecord, RemedialLesson, RemediationRecord } from '../types';
+import { profileStorageKey } from './profiles';
+
+// Remedial mini-lessons made from a finished lesson's mistakes. Each one is stored with the
+// lesson record it came from (by date and topic, which is how records are told apart) and the
+// student's result once they have worked through its practice problems.
+
+const REMEDIATION_STORAGE_KEY = 'algebro-remediations';
+
+const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+// --- Storage ---
+// Stored per profile, alongside its progress.
+export const loadRemediations = (): RemediationRecord[] => {
+  try {
+    const serializedState = localStorage.getItem(profileStorageKey(REMEDIATION_STORAGE_KEY));
+    if (serializedState === null) {
+      return [];
+    }
+    const parsed = JSON.parse(serializedState);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.error("Could not load remediations:", err);
+    return [];
+  }
+};
+
+export const saveRemediations = (remediations: RemediationRecord[]): void => {
+  try {
+    localStorage.setItem(profileStorageKey(REMEDIATION_STORAGE_KEY), JSON.stringify(remediations));
+  } catch (err) {
+    console.error("Could not save remediations:", err);
+  }
+};
+
+// --- Records ---
+export const addRemediation = (
+  remediations: RemediationRecord[],
+  record: LessonRecord,
+  remedialLesson: RemedialLesson
+): { remediations: RemediationRecord[]; remediation: RemediationRecord } => {
+  const remediation: RemediationRecord = {
+    id: createId(),
+    lessonDate: record.date,
+    lessonTopic: record.topic,
+    createdAt: new Date().toISOString(),
+    remedialLesson,
+  };
+  return { remediations: [...remediations, remediation], remediation };
+};
+
+export interface RemediationResult {
+  score: number;
+  total: number;
+  timeTaken: number; // in seconds
+  hintsUsed: number;
+}
+
+export const completeRemediation = (
+  remediations: RemediationRecord[],
+  id: string,
+  result: RemediationResult
+): RemediationRecord[] =>
+  remediations.map(remediation =>
+    remediation.id === id
+      ? {
+          ...remediation,
+          completedAt: new Date().toISOString(),
+          problemsScore: result.score,
+          problemsTotal: result.total,
+          problemsTimeTaken: result.timeTaken,
+          problemsHintsUsed: result.hintsUsed,
+        }
+      : remediation
+  );
+
+export const remediationsForRecord = (remediations: RemediationRecord[], record: LessonRecord): RemediationRecord[] =>
+  remediations.filter(remediation => remediation.lessonDate === record.date && remediation.lessonTopic === record.topic);
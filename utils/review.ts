@@ -0,0 +1,148 @@
+import type { UserProgress, ReviewDeck, ReviewItem, ReviewGrade, MistakeSource } from '../types';
+import { profileStorageKey } from './profiles';
+
+const REVIEW_STORAGE_KEY = 'algebro-review-deck';
+
+const INITIAL_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+
+// --- Dates ---
+// Reviews are scheduled in whole local calendar days, like the streaks in progress.ts.
+export const toDateKey = (date: Date): string => {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+};
+
+const addDays = (dateKey: string, days: number): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return toDateKey(new Date(year, month - 1, day + days));
+};
+
+// --- Storage ---
+// The deck is stored per profile, alongside its progress.
+export const loadReviewDeck = (): ReviewDeck => {
+  try {
+    const serializedState = localStorage.getItem(profileStorageKey(REVIEW_STORAGE_KEY));
+    if (serializedState === null) {
+      return { items: [] };
+    }
+    return JSON.parse(serializedState);
+  } catch (err) {
+    console.error("Could not load review deck:", err);
+    return { items: [] };
+  }
+};
+
+export const saveReviewDeck = (deck: ReviewDeck): void => {
+  try {
+    localStorage.setItem(profileStorageKey(REVIEW_STORAGE_KEY), JSON.stringify(deck));
+  } catch (err) {
+    console.error("Could not save review deck:", err);
+  }
+};
+
+// --- Deck building ---
+// Stable id so the same question missed twice maps to one card per source.
+const hashString = (input: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < input.length; i++) {
+    hash = ((hash << 5) + hash + input.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+export const buildReviewItemId = (source: MistakeSource, topic: string, questionText: string): string =>
+  `${source}-${hashString(`${topic}|${questionText}`)}`;
+
+// Adds a card for every recorded mistake that isn't in the deck yet. A card that already
+// exists is sent back to the start of its schedule if the mistake is newer than its last review.
+export const syncReviewDeck = (progress: UserProgress): ReviewDeck => {
+  const deck = loadReviewDeck();
+  const itemsById = new Map(deck.items.map(item => [item.id, item]));
+  let changed = false;
+
+  progress.records.forEach(record => {
+    record.mistakes.forEach(mistake => {
+      const { source } = mistake;
+      const id = buildReviewItemId(source, record.topic, mistake.questionText);
+      const existing = itemsById.get(id);
+      const mistakeDate = toDateKey(new Date(record.date));
+
+      if (!existing) {
+        itemsById.set(id, {
+          id,
+          source,
+          topic: record.topic,
+          questionText: mistake.questionText,
+          correctAnswer: mistake.correctAnswer,
+          lastWrongAnswer: mistake.userAnswer,
+          easeFactor: INITIAL_EASE_FACTOR,
+          interval: 0,
+          repetitions: 0,
+          dueDate: mistakeDate,
+        });
+        changed = true;
+      } else if (existing.lastReviewedAt && new Date(existing.lastReviewedAt) < new Date(record.date)) {
+        itemsById.set(id, {
+          ...existing,
+          lastWrongAnswer: mistake.userAnswer,
+          repetitions: 0,
+          interval: 0,
+          dueDate: mistakeDate,
+          lastReviewedAt: record.date,
+        });
+        changed = true;
+      }
+    });
+  });
+
+  const updatedDeck = { ...deck, items: [...itemsById.values()] };
+  if (changed) {
+    saveReviewDeck(updatedDeck);
+  }
+  return updatedDeck;
+};
+
+// --- Scheduling (SM-2) ---
+export const scheduleReview = (item: ReviewItem, grade: ReviewGrade, today: string = toDateKey(new Date())): ReviewItem => {
+  const easeFactor = Math.max(
+    MIN_EASE_FACTOR,
+    item.easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+  );
+
+  let repetitions: number;
+  let interval: number;
+  if (grade < 3) {
+    repetitions = 0;
+    interval = 1;
+  } else {
+    repetitions = item.repetitions + 1;
+    interval = repetitions === 1 ? 1 : repetitions === 2 ? 6 : Math.round(item.interval * easeFactor);
+  }
+
+  return {
+    ...item,
+    easeFactor,
+    repetitions,
+    interval,
+    dueDate: addDays(today, interval),
+    lastReviewedAt: new Date().toISOString(),
+  };
+};
+
+export const recordReview = (itemId: string, grade: ReviewGrade): ReviewDeck => {
+  const deck = loadReviewDeck();
+  const updatedDeck = {
+    ...deck,
+    items: deck.items.map(item => (item.id === itemId ? scheduleReview(item, grade) : item)),
+  };
+  saveReviewDeck(updatedDeck);
+  return updatedDeck;
+};
+
+export const getDueItems = (deck: ReviewDeck, source?: MistakeSource, today: string = toDateKey(new Date())): ReviewItem[] =>
+  deck.items
+    .filter(item => item.dueDate <= today && (!source || item.source === source))
+    .sort((a, b) => a.dueDate.localeCompare(b.dueDate));
@@ -0,0 +1,87 @@
+import katex from 'katex';
+
+// Turns model-written text into HTML: LaTeX between \( \) or \[ \] (or $$ $$) is typeset with
+// KaTeX, and a small subset of markdown is supported (**bold**, *italic*, `code`, bullet and
+// numbered lists, paragraphs). Single $ is left alone because it is mostly used for money.
+// Everything else is HTML-escaped, so the output is safe to inject. Math that KaTeX can't
+// parse is shown as its source instead.
+
+const MATH_PATTERN = /\\\[([\s\S]+?)\\\]|\$\$([\s\S]+?)\$\$|\\\(([\s\S]+?)\\\)/g;
+const PLACEHOLDER_PATTERN = /\u0000(\d+)\u0000/g;
+
+export const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const renderMath = (tex: string, displayMode: boolean): string => {
+  try {
+    return katex.renderToString(tex, { displayMode, throwOnError: true });
+  } catch {
+    return `<code>${escapeHtml(tex)}</code>`;
+  }
+};
+
+const renderInlineMarkdown = (escaped: string): string =>
+  escaped
+    .replace(/`([^`]+)`/g, '<code>$1</code>')
+    .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+    .replace(/\*([^*\s][^*]*)\*/g, '<em>$1</em>');
+
+const BULLET_PATTERN = /^\s*[-*•]\s+/;
+const NUMBERED_PATTERN = /^\s*\d+[.)]\s+/;
+
+// Groups lines into paragraphs and lists. Lines inside a paragraph keep their line breaks.
+const renderBlocks = (escaped: string): string => {
+  const blocks: string[] = [];
+  let paragraph: string[] = [];
+  let list: { tag: 'ul' | 'ol'; items: string[] } | null = null;
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) blocks.push(`<p>${paragraph.map(renderInlineMarkdown).join('<br>')}</p>`);
+    paragraph = [];
+  };
+  const flushList = () => {
+    if (list) blocks.push(`<${list.tag}>${list.items.map(item => `<li>${renderInlineMarkdown(item)}</li>`).join('')}</${list.tag}>`);
+    list = null;
+  };
+
+  escaped.split(/\r?\n/).forEach(line => {
+    const listTag = BULLET_PATTERN.test(line) ? 'ul' : NUMBERED_PATTERN.test(line) ? 'ol' : null;
+    if (listTag) {
+      flushParagraph();
+      if (list?.tag !== listTag) flushList();
+      list ??= { tag: listTag, items: [] };
+      list.items.push(line.replace(listTag === 'ul' ? BULLET_PATTERN : NUMBERED_PATTERN, ''));
+    } else if (line.trim() === '') {
+      flushParagraph();
+      flushList();
+    } else {
+      flushList();
+      paragraph.push(line);
+    }
+  });
+  flushParagraph();
+  flushList();
+  return blocks.join('');
+};
+
+// `inline` is for short strings such as quiz options: no paragraphs or lists, just line breaks.
+export const renderRichText = (text: string, { inline = false }: { inline?: boolean } = {}): string => {
+  try {
+    const math: string[] = [];
+    const withPlaceholders = text.replace(MATH_PATTERN, (_match, display: string, displayDollars: string, inlineTex: string) => {
+      math.push(inlineTex !== undefined ? renderMath(inlineTex, false) : renderMath(display ?? displayDollars, true));
+      return `\u0000${math.length - 1}\u0000`;
+    });
+    const escaped = escapeHtml(withPlaceholders);
+    const html = inline ? renderInlineMarkdown(escaped).replace(/\r?\n/g, '<br>') : renderBlocks(escaped);
+    return html.replace(PLACEHOLDER_PATTERN, (_match, index: string) => math[Number(index)]);
+  } catch (err) {
+    console.error("Could not render rich text:", err);
+    return escapeHtml(text).replace(/\r?\n/g, '<br>');
+  }
+};
@@ -0,0 +1,106 @@
+import type { Lesson } from '../types';
+import { getSubjectPack } from './subjectPacks';
+
+// The skill taxonomy. Lessons, quiz questions and practice problems are tagged with skill ids
+// from this list, so progress on "Ratios" and "ratios and rates" counts towards the same skill.
+// Keywords are used to place untagged content (older lessons and records) on a skill.
+
+export interface Skill {
+  id: string;
+  name: string;
+  subject: string;
+  keywords: string[]; // lowercase word stems; matched at the start of a word
+}
+
+export const SKILLS: Skill[] = [
+  // Math
+  { id: 'number-sense', name: 'Number Sense & Place Value', subject: 'Math', keywords: ['place value', 'rounding', 'whole number', 'factor', 'multiple', 'prime', 'divisib', 'gcf', 'lcm'] },
+  { id: 'fractions', name: 'Fractions', subject: 'Math', keywords: ['fraction', 'numerator', 'denominator', 'mixed number'] },
+  { id: 'decimals', name: 'Decimals', subject: 'Math', keywords: ['decimal'] },
+  { id: 'ratios-rates', name: 'Ratios, Rates & Proportions', subject: 'Math', keywords: ['ratio', 'rate', 'proportion', 'unit price', 'scale'] },
+  { id: 'percents', name: 'Percents', subject: 'Math', keywords: ['percent', 'discount', 'sales tax', 'simple interest', 'compound interest', 'markup'] },
+  { id: 'integers', name: 'Integers & Rational Numbers', subject: 'Math', keywords: ['negative', 'integer', 'rational number', 'absolute value', 'number line', 'opposite'] },
+  { id: 'exponents-roots', name: 'Exponents & Roots', subject: 'Math', keywords: ['exponent', 'power', 'square root', 'cube root', 'scientific notation', 'radical'] },
+  { id: 'expressions', name: 'Algebraic Expressions', subject: 'Math', keywords: ['expression', 'variable', 'like term', 'distributive', 'simplif', 'evaluat'] },
+  { id: 'linear-equations', name: 'Linear Equations', subject: 'Math', keywords: ['equation', 'solve for', 'solving', 'one-step', 'two-step', 'multi-step'] },
+  { id: 'inequalities', name: 'Inequalities', subject: 'Math', keywords: ['inequalit'] },
+  { id: 'linear-functions', name: 'Functions & Linear Graphs', subject: 'Math', keywords: ['function', 'slope', 'intercept', 'linear', 'graph', 'coordinate', 'plane'] },
+  { id: 'systems', name: 'Systems of Equations', subject: 'Math', keywords: ['system', 'systems of equations', 'simultaneous', 'substitution', 'elimination'] },
+  { id: 'polynomials-quadratics', name: 'Polynomials & Quadratics', subject: 'Math', keywords: ['polynomial', 'quadratic', 'factoring', 'parabola', 'binomial', 'trinomial'] },
+  { id: 'geometry-measurement', name: 'Area, Perimeter & Volume', subject: 'Math', keywords: ['area', 'perimeter', 'volume', 'surface area', 'circumference', 'circle', 'measurement', 'unit conversion'] },
+  { id: 'angles-shapes', name: 'Angles, Triangles & Shapes', subject: 'Math', keywords: ['angle', 'triangle', 'polygon', 'congruen', 'similar', 'transformation', 'parallel', 'quadrilateral'] },
+  { id: 'pythagorean', name: 'Pythagorean Theorem & Trigonometry', subject: 'Math', keywords: ['pythagor', 'hypotenuse', 'trigonometr', 'sine', 'cosine', 'tangent'] },
+  { id: 'statistics', name: 'Data & Statistics', subject: 'Math', keywords: ['statistic', 'average', 'median', 'data', 'histogram', 'box plot', 'scatter'] },
+  { id: 'probability', name: 'Probability', subject: 'Math', keywords: ['probabilit', 'chance', 'outcome', 'random', 'combination', 'permutation'] },
+
+  // Science
+  { id: 'scientific-method', name: 'Scientific Method', subject: 'Science', keywords: ['scientific method', 'hypothes', 'experiment', 'variable', 'observation', 'measurement'] },
+  { id: 'matter', name: 'Matter & Its Properties', subject: 'Science', keywords: ['matter', 'state', 'solid', 'liquid', 'gas', 'density', 'mass', 'mixture', 'solution'] },
+  { id: 'atoms-elements', name: 'Atoms & the Periodic Table', subject: 'Science', keywords: ['atom', 'element', 'periodic', 'proton', 'neutron', 'electron', 'molecule'] },
+  { id: 'chemical-reactions', name: 'Chemical Reactions', subject: 'Science', keywords: ['chemical', 'reaction', 'compound', 'acid', 'ph scale'] },
+  { id: 'forces-motion', name: 'Forces & Motion', subject: 'Science', keywords: ['force', 'motion', 'newton', 'speed', 'velocity', 'acceleration', 'gravity', 'friction'] },
+  { id: 'energy', name: 'Energy', subject: 'Science', keywords: ['energy', 'heat', 'thermal', 'kinetic', 'potential', 'temperature'] },
+  { id: 'waves-electricity', name: 'Waves, Light & Electricity', subject: 'Science', keywords: ['wave', 'light', 'sound', 'electric', 'circuit', 'magnet', 'current'] },
+  { id: 'cells', name: 'Cells & Body Systems', subject: 'Science', keywords: ['cell', 'organism', 'organ system', 'tissue', 'body system', 'photosynthesis', 'respiration', 'microorganism'] },
+  { id: 'genetics', name: 'Genetics & Heredity', subject: 'Science', keywords: ['genes', 'genetic', 'dna', 'heredit', 'inherit', 'trait', 'evolution', 'natural selection', 'adaptation'] },
+  { id: 'ecosystems', name: 'Ecosystems', subject: 'Science', keywords: ['ecosystem', 'food chain', 'food web', 'habitat', 'population', 'biome', 'producer', 'consumer'] },
+  { id: 'earth-space', name: 'Earth & Space', subject: 'Science', keywords: ['earth', 'rock', 'plate', 'weather', 'climate', 'water cycle', 'solar system', 'planet', 'moon', 'stars'] },
+];
+
+const SKILLS_BY_ID = new Map(SKILLS.map(skill => [skill.id, skill]));
+
+export const getSkill = (id: string): Skill | undefined => SKILLS_BY_ID.get(id);
+
+// Subject packs without skills of their own borrow another subject's (Chemistry uses Science's).
+export const skillsForSubject = (subject: string): Skill[] => {
+  const skillSubject = getSubjectPack(subject).skillSubject ?? subject;
+  return SKILLS.filter(skill => skill.subject === skillSubject);
+};
+
+const startsWord = (text: string, keyword: string): boolean => {
+  for (let index = text.indexOf(keyword); index !== -1; index = text.indexOf(keyword, index + 1)) {
+    if (index === 0 || !/[a-z]/.test(text[index - 1])) return true;
+  }
+  return false;
+};
+
+// The skill whose keywords best match the text, preferring the given subject's skills.
+// Longer matches count for more, so "rational numbers" beats the "ratio" in it.
+export const inferSkill = (text: string, subject?: string): string | null => {
+  const lower = text.toLowerCase();
+  const subjectSkills = subject ? skillsForSubject(subject) : [];
+  let bestId: string | null = null;
+  let bestScore = 0;
+  (subjectSkills.length > 0 ? subjectSkills : SKILLS).forEach(skill => {
+    const score = skill.keywords
+      .filter(keyword => startsWord(lower, keyword))
+      .reduce((total, keyword) => total + keyword.length, 0);
+    if (score > bestScore) {
+      bestId = skill.id;
+      bestScore = score;
+    }
+  });
+  return bestId;
+};
+
+// Makes every skill tag on a lesson a known id. A missing or unknown tag falls back to the
+// lesson's main skill (its first tagged skill, or the one its topic suggests), and only then to
+// the question's own wording.
+export const tagLessonSkills = (lesson: Lesson, subject: string): Lesson => {
+  const known = (id: unknown): id is string => typeof id === 'string' && SKILLS_BY_ID.has(id);
+  const topicSkill = inferSkill(lesson.topic, subject);
+  const lessonSkills = (lesson.skills ?? []).filter(known);
+  const fallback = lessonSkills[0] ?? topicSkill;
+  const tag = (skill: unknown, text: string) => (known(skill) ? skill : fallback ?? inferSkill(text, subject) ?? undefined);
+
+  const questions = lesson.quiz.questions.map(question => ({ ...question, skill: tag(question.skill, question.questionText) }));
+  const problems = lesson.practiceProblems.problems.map(problem => ({ ...problem, skill: tag(problem.skill, problem.problemText) }));
+  const taggedSkills = [...questions, ...problems].map(item => item.skill).filter(known);
+
+  return {
+    ...lesson,
+    skills: lessonSkills.length > 0 ? lessonSkills : [...new Set(topicSkill ? [topicSkill] : taggedSkills)],
+    quiz: { ...lesson.quiz, questions },
+    practiceProblems: { ...lesson.practiceProblems, problems },
+  };
+};
@@ -0,0 +1,262 @@
+import type { AnswerCheckingStrategy, GradeLevel, LabSimulationType, Subject, SubjectPack } from '../types';
+import { ANSWER_TYPES } from './answerChecker';
+import { GRADE_LEVELS } from './difficulty';
+import { QUIZ_QUESTION_TYPES } from './quizQuestions';
+import { LAB_SIMULATIONS } from './labs';
+import { formatValidationIssue, validateSubjectPack } from '../services/validation';
+
+// Subjects are data-driven: each pack says which grades it covers, how the model is prompted,
+// which quiz question types its lessons use, where topic lists start from and how answers are
+// marked. Built-in packs live here; custom ones are loaded from a JSON file and kept on this device.
+
+const CUSTOM_PACKS_STORAGE_KEY = 'algebro-subject-packs';
+
+const EXACT_MATH: AnswerCheckingStrategy = { answerTypes: ANSWER_TYPES, fillBlankAs: 'expression', tolerance: 0 };
+
+export const BUILT_IN_SUBJECT_PACKS: SubjectPack[] = [
+  {
+    name: 'Math',
+    description: 'Arithmetic through algebra, geometry and data.',
+    gradeRange: [5, 12],
+    prompts: {
+      teacher: 'an expert math teacher',
+      lessonGuidance: 'Work every example through step by step.',
+      topicGuidance: 'Base them on the Khan Academy curriculum.',
+    },
+    questionTypes: QUIZ_QUESTION_TYPES,
+    topicSeeds: [
+      'Proportional Relationships', 'Rates and Percentages', 'Negative Numbers: Addition and Subtraction',
+      'Negative Numbers: Multiplication and Division', 'Expressions and Equations', 'Inequalities',
+      'Geometry: Scale Drawings', 'Area and Circumference of Circles', 'Angles and Triangles',
+      'Surface Area and Volume', 'Statistics: Random Sampling', 'Probability',
+      'Ratios and Unit Rates', 'Two-Step Equations', 'Comparing Data Sets',
+    ],
+    answerChecking: EXACT_MATH,
+  },
+  {
+    name: 'Science',
+    description: 'General science: life, earth and physical science.',
+    gradeRange: [5, 12],
+    prompts: {
+      teacher: 'an expert science teacher',
+      lessonGuidance: 'Connect the idea to something the student can observe or test.',
+      topicGuidance: 'Base them on the Khan Academy curriculum.',
+    },
+    questionTypes: QUIZ_QUESTION_TYPES,
+    topicSeeds: [
+      'Cells and Cell Structures', 'Photosynthesis and Respiration', 'Ecosystems and Food Webs',
+      'Genetics and Heredity', 'Natural Selection', 'Earth\'s Layers', 'Plate Tectonics',
+      'The Rock Cycle', 'Weather and Climate', 'The Water Cycle', 'Chemical Reactions',
+      'Atoms and Molecules', 'States of Matter', 'Forces and Motion', 'Energy Transfer',
+    ],
+    answerChecking: { answerTypes: ANSWER_TYPES, fillBlankAs: 'text', tolerance: 0.01 },
+    labSimulations: LAB_SIMULATIONS,
+  },
+  {
+    name: 'Chemistry',
+    description: 'Atoms, bonding, reactions and the mole.',
+    gradeRange: [8, 12],
+    prompts: {
+      teacher: 'an expert chemistry teacher',
+      lessonGuidance: 'Write chemical formulas and equations with subscripts in LaTeX (e.g. \\(\\text{H}_2\\text{O}\\)) and always give units with quantities.',
+      topicGuidance: 'Follow a typical {grade} chemistry course.',
+    },
+    questionTypes: QUIZ_QUESTION_TYPES,
+    topicSeeds: [
+      'Atoms and Atomic Structure', 'The Periodic Table', 'Chemical Bonding', 'Chemical Formulas',
+      'Balancing Chemical Equations', 'The Mole and Molar Mass', 'Stoichiometry', 'States of Matter',
+      'Gas Laws', 'Solutions and Concentration', 'Acids and Bases', 'Reaction Rates',
+      'Chemical Equilibrium', 'Energy in Reactions', 'Density',
+    ],
+    // Formulas such as "NaCl" are marked as text; calculated quantities within 2%.
+    answerChecking: { answerTypes: ['number', 'percent', 'measurement', 'text'], fillBlankAs: 'text', tolerance: 0.02 },
+    skillSubject: 'Science',
+    labSimulations: ['density', 'phases'],
+  },
+  {
+    name: 'Physics',
+    description: 'Motion, forces, energy, waves and electricity.',
+    gradeRange: [8, 12],
+    prompts: {
+      teacher: 'an expert physics teacher',
+      lessonGuidance: 'Use SI units, state the formula before substituting numbers, and use g = 9.8 m/s² unless the topic says otherwise.',
+      topicGuidance: 'Follow a typical {grade} physics course.',
+    },
+    questionTypes: QUIZ_QUESTION_TYPES,
+    topicSeeds: [
+      'Speed, Velocity and Acceleration', 'Newton\'s Laws of Motion', 'Projectile Motion', 'Forces and Free-Body Diagrams',
+      'Work and Power', 'Kinetic and Potential Energy', 'Conservation of Energy', 'Momentum',
+      'Waves and Sound', 'Light and Reflection', 'Electric Circuits', 'Ohm\'s Law',
+      'Magnetism', 'Density and Buoyancy', 'Heat and Temperature',
+    ],
+    answerChecking: { answerTypes: ANSWER_TYPES, fillBlankAs: 'text', tolerance: 0.02 },
+    skillSubject: 'Science',
+    labSimulations: ['projectile', 'circuit', 'density', 'phases'],
+  },
+  {
+    name: 'Biology',
+    description: 'Cells, genetics, evolution and ecosystems.',
+    gradeRange: [6, 12],
+    prompts: {
+      teacher: 'an expert biology teacher',
+      lessonGuidance: 'Define each new term the first time it is used, and describe processes as a sequence of steps.',
+      topicGuidance: 'Follow a typical {grade} life science or biology course.',
+    },
+    // Biology quizzes test vocabulary and processes rather than calculations.
+    questionTypes: QUIZ_QUESTION_TYPES.filter(type => type !== 'numeric'),
+    topicSeeds: [
+      'Cell Structure', 'Cell Division', 'Photosynthesis', 'Cellular Respiration',
+      'DNA and Protein Synthesis', 'Genetics and Punnett Squares', 'Natural Selection', 'Classification of Living Things',
+      'Food Chains and Food Webs', 'Ecosystems and Biomes', 'Human Body Systems', 'The Immune System',
+      'Microorganisms', 'Plant Structure', 'Homeostasis',
+    ],
+    answerChecking: { answerTypes: ['number', 'fraction', 'percent', 'text'], fillBlankAs: 'text', tolerance: 0 },
+    skillSubject: 'Science',
+    labSimulations: ['food-web'],
+  },
+  {
+    name: 'Statistics',
+    description: 'Collecting, summarizing and reasoning about data.',
+    gradeRange: [6, 12],
+    prompts: {
+      teacher: 'an expert statistics teacher',
+      lessonGuidance: 'Work from small, realistic data sets the student could summarize by hand, and show them in charts.',
+      topicGuidance: 'Follow a typical {grade} statistics and probability course.',
+    },
+    questionTypes: QUIZ_QUESTION_TYPES,
+    topicSeeds: [
+      'Mean, Median and Mode', 'Range and Interquartile Range', 'Box Plots', 'Histograms',
+      'Scatter Plots and Correlation', 'Lines of Best Fit', 'Standard Deviation', 'Random Sampling',
+      'Basic Probability', 'Compound Events', 'Normal Distribution', 'Two-Way Tables',
+      'Comparing Data Sets', 'Experiments and Surveys', 'Misleading Graphs',
+    ],
+    // Rounded statistics (e.g. a standard deviation) are accepted within 1%.
+    answerChecking: { answerTypes: ['number', 'fraction', 'percent', 'measurement', 'text'], fillBlankAs: 'expression', tolerance: 0.01 },
+    skillSubject: 'Math',
+  },
+  {
+    name: 'Pre-Algebra',
+    description: 'Integers, fractions, ratios and first equations.',
+    gradeRange: [5, 8],
+    prompts: {
+      teacher: 'an expert pre-algebra teacher',
+      lessonGuidance: 'Keep the numbers small and friendly, and work every example through step by step.',
+      topicGuidance: 'Follow a typical pre-algebra course.',
+    },
+    questionTypes: QUIZ_QUESTION_TYPES,
+    topicSeeds: [
+      'Order of Operations', 'Integers and Absolute Value', 'Adding and Subtracting Integers', 'Multiplying and Dividing Integers',
+      'Fractions and Decimals', 'Ratios and Rates', 'Percents', 'Exponents',
+      'Square Roots', 'Variables and Expressions', 'Combining Like Terms', 'The Distributive Property',
+      'One-Step Equations', 'Two-Step Equations', 'Inequalities on a Number Line',
+    ],
+    answerChecking: EXACT_MATH,
+    skillSubject: 'Math',
+  },
+];
+
+// What a subject without a pack gets (e.g. a lesson saved under a custom pack that has since
+// been removed), and the defaults for anything a custom pack leaves out.
+const buildDefaultPack = (name: string): SubjectPack => ({
+  name,
+  description: '',
+  gradeRange: [GRADE_LEVELS[0], GRADE_LEVELS[GRADE_LEVELS.length - 1]],
+  prompts: {
+    teacher: `an expert ${name} teacher`,
+    lessonGuidance: '',
+    topicGuidance: '',
+  },
+  questionTypes: QUIZ_QUESTION_TYPES,
+  topicSeeds: [],
+  answerChecking: { answerTypes: ANSWER_TYPES, fillBlankAs: 'text', tolerance: 0 },
+});
+
+// --- Storage ---
+// Custom packs are shared by every profile on the device, like the provider settings.
+export const loadCustomSubjectPacks = (): SubjectPack[] => {
+  try {
+    const serializedState = localStorage.getItem(CUSTOM_PACKS_STORAGE_KEY);
+    if (serializedState === null) {
+      return [];
+    }
+    const parsed = JSON.parse(serializedState);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (err) {
+    console.error("Could not load subject packs:", err);
+    return [];
+  }
+};
+
+const saveCustomSubjectPacks = (packs: SubjectPack[]): void => {
+  try {
+    localStorage.setItem(CUSTOM_PACKS_STORAGE_KEY, JSON.stringify(packs));
+  } catch (err) {
+    console.error("Could not save subject packs:", err);
+  }
+};
+
+// A custom pack with the same name as an earlier one replaces it.
+export const addCustomSubjectPack = (pack: SubjectPack): SubjectPack[] => {
+  const packs = [...loadCustomSubjectPacks().filter(existing => existing.name !== pack.name), pack];
+  saveCustomSubjectPacks(packs);
+  return packs;
+};
+
+export const removeCustomSubjectPack = (name: string): SubjectPack[] => {
+  const packs = loadCustomSubjectPacks().filter(pack => pack.name !== name);
+  saveCustomSubjectPacks(packs);
+  return packs;
+};
+
+// --- Lookup ---
+export const listSubjectPacks = (): SubjectPack[] => [...BUILT_IN_SUBJECT_PACKS, ...loadCustomSubjectPacks()];
+
+export const getSubjectPack = (subject: Subject): SubjectPack =>
+  listSubjectPacks().find(pack => pack.name === subject) ?? buildDefaultPack(subject);
+
+export const gradesForPack = (pack: SubjectPack): GradeLevel[] =>
+  GRADE_LEVELS.filter(grade => grade >= pack.gradeRange[0] && grade <= pack.gradeRange[1]);
+
+// The nearest grade the pack offers.
+export const clampGrade = (pack: SubjectPack, grade: GradeLevel): GradeLevel =>
+  Math.min(Math.max(grade, pack.gradeRange[0]), pack.gradeRange[1]) as GradeLevel;
+
+export const labSimulationsFor = (subject: Subject): LabSimulationType[] => getSubjectPack(subject).labSimulations ?? [];
+
+export const fillPromptTemplate = (template: string, values: { subject?: string; grade?: string; topic?: string }): string =>
+  template.replace(/\{(subject|grade|topic)\}/g, (placeholder, key: keyof typeof values) => values[key] ?? placeholder);
+
+// --- Loading from a file ---
+// Anything a pack file leaves out falls back to the defaults, so a pack can be as small as
+// { "name": "Astronomy", "topicSeeds": [...] }.
+export const parseSubjectPack = (json: string): SubjectPack => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("That file isn't a subject pack. Please choose a .json file.");
+  }
+  const issues = validateSubjectPack(parsed);
+  if (issues.length > 0) {
+    throw new Error(`This subject pack can't be loaded: ${issues.map(formatValidationIssue).join('; ')}`);
+  }
+
+  const raw = parsed as Record<string, any>;
+  const name = String(raw.name).trim();
+  if (BUILT_IN_SUBJECT_PACKS.some(pack => pack.name.toLowerCase() === name.toLowerCase())) {
+    throw new Error(`"${name}" is already a built-in subject. Please give the pack another name.`);
+  }
+  const defaults = buildDefaultPack(name);
+  return {
+    name,
+    description: raw.description ?? defaults.description,
+    gradeRange: raw.gradeRange ?? defaults.gradeRange,
+    prompts: { ...defaults.prompts, ...raw.prompts },
+    questionTypes: raw.questionTypes ?? defaults.questionTypes,
+    topicSeeds: raw.topicSeeds ?? defaults.topicSeeds,
+    answerChecking: { ...defaults.answerChecking, ...raw.answerChecking },
+    ...(raw.skillSubject && { skillSubject: raw.skillSubject }),
+    ...(raw.labSimulations?.length > 0 && { labSimulations: raw.labSimulations }),
+    custom: true,
+  };
+};
@@ -0,0 +1,56 @@
+import type { LessonRecord, TimeMultiplier, TimerMode, TimerSettings } from '../types';
+
+// Time limits for quizzes and practice problems, from the student's timer settings
+// (see TimerSettings in types.ts and components/SessionTimer.tsx).
+
+export type TimedActivity = 'quiz' | 'problems';
+
+export const TIMER_MODES: TimerMode[] = ['standard', 'per-question', 'untimed'];
+export const TIME_MULTIPLIERS: TimeMultiplier[] = [1, 1.5, 2];
+
+export const DEFAULT_TIMER_SETTINGS: TimerSettings = { mode: 'standard', multiplier: 1, allowPause: false };
+
+const STANDARD_SECONDS: Record<TimedActivity, number> = { quiz: 300, problems: 600 }; // 5 and 10 minutes
+// 'per-question' gives each question its own countdown of this long; time left on one isn't carried over.
+const SECONDS_PER_QUESTION: Record<TimedActivity, number> = { quiz: 60, problems: 180 };
+
+export const TIMER_MODE_NAMES: Record<TimerMode, string> = {
+  standard: 'Standard',
+  'per-question': 'Per question',
+  untimed: 'Untimed',
+};
+
+export const TIMER_MODE_DESCRIPTIONS: Record<TimerMode, string> = {
+  standard: 'One clock for the whole set: 5 minutes for a quiz, 10 for practice problems',
+  'per-question': 'One question at a time, each with its own clock: 1 minute per quiz question, 3 per problem',
+  untimed: 'No time limit; the clock counts up',
+};
+
+// The limit in seconds, for the whole set or (per-question) for each question; null when untimed.
+export const timeLimitFor = ({ mode, multiplier }: TimerSettings, activity: TimedActivity): number | null => {
+  if (mode === 'untimed') return null;
+  const base = mode === 'per-question' ? SECONDS_PER_QUESTION[activity] : STANDARD_SECONDS[activity];
+  return Math.round(base * multiplier);
+};
+
+// e.g. "Untimed", "Per question · 1.5× time"; null for the standard timer.
+export const describeTiming = ({ timerMode, timeMultiplier }: Pick<LessonRecord, 'timerMode' | 'timeMultiplier'>): string | null => {
+  const parts = [
+    ...(timerMode !== 'standard' ? [TIMER_MODE_NAMES[timerMode]] : []),
+    ...(timerMode !== 'untimed' && timeMultiplier !== 1 ? [`${timeMultiplier}× time`] : []),
+  ];
+  return parts.length > 0 ? parts.join(' · ') : null;
+};
+
+// What a finished lesson records about its timing. The multiplier means nothing without a limit.
+export const timingForRecord = ({ mode, multiplier }: TimerSettings): Pick<LessonRecord, 'timerMode' | 'timeMultiplier'> => ({
+  timerMode: mode,
+  timeMultiplier: mode === 'untimed' ? 1 : multiplier,
+});
+
+// e.g. "04:05"
+export const formatTime = (seconds: number): string => {
+  const minutes = Math.floor(seconds / 60);
+  const remainingSeconds = seconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${remainingSeconds.toString().padStart(2, '0')}`;
+};
@@ -0,0 +1,7 @@
+// Checks for data whose shape isn't known yet: model responses, saved files and localStorage.
+
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const isOneOf = <T>(allowed: readonly T[], value: unknown): value is T =>
+  (allowed as readonly unknown[]).includes(value);
@@ -0,0 +1,147 @@
+import type { UsageEntry, UsageSettings } from '../types';
+import { toDateKey } from './review';
+
+// Usage log for AI calls. Every request made through services/request.ts is recorded here,
+// including failed and cancelled ones. The log belongs to the device (all profiles share
+// one API key), not to a profile.
+
+const USAGE_LOG_STORAGE_KEY = 'algebro-usage-log';
+const USAGE_SETTINGS_STORAGE_KEY = 'algebro-usage-settings';
+
+const MAX_USAGE_ENTRIES = 5000;
+const USAGE_RETENTION_DAYS = 400; // a little over a year, so every monthly total stays complete
+
+const DEFAULT_USAGE_SETTINGS: UsageSettings = { dailyBudgetUsd: null };
+
+// --- Pricing ---
+// US dollars per million tokens, from Google's published paid-tier prices. Self-hosted
+// models and the offline demo have no price, so their calls are counted but not costed.
+export const MODEL_PRICING: Record<string, { inputPerMillion: number; outputPerMillion: number }> = {
+  'gemini-2.5-pro': { inputPerMillion: 1.25, outputPerMillion: 10 },
+  'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+};
+
+export const isPricedModel = (model: string): boolean => model in MODEL_PRICING;
+
+export const estimateCost = (entry: UsageEntry): number => {
+  const pricing = MODEL_PRICING[entry.model];
+  if (!pricing) return 0;
+  return (entry.inputTokens * pricing.inputPerMillion + entry.outputTokens * pricing.outputPerMillion) / 1_000_000;
+};
+
+// --- Storage ---
+export const loadUsageLog = (): UsageEntry[] => {
+  try {
+    const serializedLog = localStorage.getItem(USAGE_LOG_STORAGE_KEY);
+    return serializedLog === null ? [] : JSON.parse(serializedLog);
+  } catch (err) {
+    console.error("Could not load usage log:", err);
+    return [];
+  }
+};
+
+const saveUsageLog = (log: UsageEntry[]): void => {
+  try {
+    localStorage.setItem(USAGE_LOG_STORAGE_KEY, JSON.stringify(log));
+  } catch (err) {
+    console.error("Could not save usage log:", err);
+  }
+};
+
+export const recordUsage = (entry: UsageEntry): void => {
+  const cutoff = Date.now() - USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+  const log = loadUsageLog().filter(existing => new Date(existing.timestamp).getTime() >= cutoff);
+  saveUsageLog([...log, entry].slice(-MAX_USAGE_ENTRIES));
+};
+
+export const clearUsageLog = (): void => saveUsageLog([]);
+
+export const loadUsageSettings = (): UsageSettings => {
+  try {
+    const serializedSettings = localStorage.getItem(USAGE_SETTINGS_STORAGE_KEY);
+    return serializedSettings === null
+      ? DEFAULT_USAGE_SETTINGS
+      : { ...DEFAULT_USAGE_SETTINGS, ...JSON.parse(serializedSettings) };
+  } catch (err) {
+    console.error("Could not load usage settings:", err);
+    return DEFAULT_USAGE_SETTINGS;
+  }
+};
+
+export const saveUsageSettings = (settings: UsageSettings): void => {
+  try {
+    localStorage.setItem(USAGE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (err) {
+    console.error("Could not save usage settings:", err);
+  }
+};
+
+// --- Totals ---
+export interface UsageTotals {
+  requests: number;
+  failures: number; // errors only; cancelled calls aren't failures
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+}
+
+export interface ModelUsage extends UsageTotals {
+  model: string;
+}
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, failures: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 });
+
+const addEntry = (totals: UsageTotals, entry: UsageEntry): void => {
+  totals.requests++;
+  if (entry.outcome === 'error') totals.failures++;
+  totals.inputTokens += entry.inputTokens;
+  totals.outputTokens += entry.outputTokens;
+  totals.costUsd += estimateCost(entry);
+};
+
+// Overall totals plus one row per model, most expensive (then busiest) first.
+export const summarizeUsage = (entries: UsageEntry[]): { total: UsageTotals; byModel: ModelUsage[] } => {
+  const total = emptyTotals();
+  const byModel = new Map<string, ModelUsage>();
+  entries.forEach(entry => {
+    addEntry(total, entry);
+    if (!byModel.has(entry.model)) {
+      byModel.set(entry.model, { model: entry.model, ...emptyTotals() });
+    }
+    addEntry(byModel.get(entry.model)!, entry);
+  });
+  const models = [...byModel.values()].sort((a, b) => b.costUsd - a.costUsd || b.requests - a.requests);
+  return { total, byModel: models };
+};
+
+// Days and months are local calendar periods, like lesson streaks.
+export const entriesForDay = (log: UsageEntry[], dateKey: string): UsageEntry[] =>
+  log.filter(entry => toDateKey(new Date(entry.timestamp)) === dateKey);
+
+export const entriesForMonth = (log: UsageEntry[], monthKey: string): UsageEntry[] =>
+  log.filter(entry => toDateKey(new Date(entry.timestamp)).startsWith(monthKey));
+
+// Totals for each of the last `days` days, oldest first, including days with no calls.
+export const getDailyTotals = (log: UsageEntry[], days: number, today: Date = new Date()): { dateKey: string; totals: UsageTotals }[] => {
+  const byDay = new Map<string, UsageTotals>();
+  for (let offset = days - 1; offset >= 0; offset--) {
+    byDay.set(toDateKey(new Date(today.getFullYear(), today.getMonth(), today.getDate() - offset)), emptyTotals());
+  }
+  log.forEach(entry => {
+    const totals = byDay.get(toDateKey(new Date(entry.timestamp)));
+    if (totals) addEntry(totals, entry);
+  });
+  return [...byDay.entries()].map(([dateKey, totals]) => ({ dateKey, totals }));
+};
+
+// --- Budget ---
+export const getTodaySpend = (): number =>
+  summarizeUsage(entriesForDay(loadUsageLog(), toDateKey(new Date()))).total.costUsd;
+
+export const isDailyBudgetExceeded = (): boolean => {
+  const { dailyBudgetUsd } = loadUsageSettings();
+  return dailyBudgetUsd !== null && getTodaySpend() >= dailyBudgetUsd;
+};
+
+export const formatUsd = (amount: number): string =>
+  amount > 0 && amount < 0.01 ? '<$0.01' : `$${amount.toFixed(2)}`;
@@ -0,0 +1,151 @@
+import type { ChartVisual, GeometryShape, GeometryShapeType, GraphParameter, VisualKind, VisualSpec } from '../types';
+import { parseExpression, evaluateExpression, collectVariables, type MathNode } from './mathExpression';
+import { isObject } from './typeGuards';
+
+// Helpers for the declarative figures in lessons and quiz questions: tidying what the model
+// sends, evaluating graph expressions and choosing axis ticks. Drawing is in components/Visual.tsx.
+
+export const VISUAL_KINDS: VisualKind[] = ['graph', 'number-line', 'geometry', 'bar-chart', 'pie-chart'];
+
+export const GEOMETRY_SHAPES: GeometryShapeType[] = ['polygon', 'circle', 'segment', 'angle'];
+
+// How many points each kind of shape is drawn from (polygons need at least this many).
+export const SHAPE_POINT_COUNTS: Record<GeometryShapeType, number> = { polygon: 3, circle: 1, segment: 2, angle: 3 };
+
+// --- Normalizing ---
+// Like quiz questions, figures arrive as one flat object with every kind's fields optional
+// (see the lesson schema), so only the fields for the figure's kind are kept. Figures are
+// validated first, so the fields only need picking out here.
+type Fields = Record<string, unknown>;
+
+const optionalText = (value: unknown): { label?: string } =>
+  typeof value === 'string' && value.trim() ? { label: value } : {};
+
+const withTitle = (fields: Fields) => (typeof fields.title === 'string' && fields.title.trim() ? { title: fields.title } : {});
+
+const arrayOf = <T>(value: unknown, map: (item: Fields) => T): T[] =>
+  Array.isArray(value) ? value.map(item => map(isObject(item) ? item : {})) : [];
+
+const isNonEmptyArray = (value: unknown): value is string[] => Array.isArray(value) && value.length > 0;
+
+const normalizePoint = (fields: Fields) => ({ x: fields.x as number, y: fields.y as number, ...optionalText(fields.label) });
+
+const normalizeShape = (fields: Fields): GeometryShape => ({
+  shape: fields.shape as GeometryShapeType,
+  points: arrayOf(fields.points, normalizePoint),
+  ...(fields.shape === 'circle' && { radius: fields.radius as number }),
+  ...optionalText(fields.label),
+  ...(fields.shape === 'polygon' && isNonEmptyArray(fields.sideLabels) && { sideLabels: fields.sideLabels }),
+  ...(fields.shape === 'polygon' && isNonEmptyArray(fields.angleLabels) && { angleLabels: fields.angleLabels }),
+});
+
+export const normalizeVisual = (raw: unknown): VisualSpec => {
+  const fields = isObject(raw) ? raw : {};
+  switch (fields.kind) {
+    case 'graph':
+      return {
+        kind: 'graph',
+        ...withTitle(fields),
+        xRange: fields.xRange as [number, number],
+        yRange: fields.yRange as [number, number],
+        functions: arrayOf(fields.functions, fn => ({ expression: fn.expression as string, ...optionalText(fn.label) })),
+        points: arrayOf(fields.points, point => ({ ...normalizePoint(point), ...(!!point.draggable && { draggable: true }) })),
+        ...(!!fields.connectPoints && { connectPoints: true }),
+        parameters: arrayOf(fields.parameters, (parameter): GraphParameter => ({
+          name: parameter.name as string,
+          min: parameter.min as number,
+          max: parameter.max as number,
+          step: parameter.step as number,
+          value: parameter.value as number,
+        })),
+      };
+    case 'number-line':
+      return {
+        kind: 'number-line',
+        ...withTitle(fields),
+        min: fields.min as number,
+        max: fields.max as number,
+        ...(typeof fields.tickStep === 'number' && { tickStep: fields.tickStep }),
+        markers: arrayOf(fields.markers, marker => ({ value: marker.value as number, ...optionalText(marker.label), ...(!!marker.open && { open: true }) })),
+        ranges: arrayOf(fields.ranges, range => ({ from: range.from as number, to: range.to as number })),
+      };
+    case 'geometry':
+      return { kind: 'geometry', ...withTitle(fields), shapes: arrayOf(fields.shapes, normalizeShape) };
+    default:
+      return {
+        kind: fields.kind as ChartVisual['kind'],
+        ...withTitle(fields),
+        data: arrayOf(fields.data, entry => ({ label: entry.label as string, value: entry.value as number })),
+        ...(fields.kind === 'bar-chart' && typeof fields.xLabel === 'string' && fields.xLabel.trim() && { xLabel: fields.xLabel }),
+        ...(fields.kind === 'bar-chart' && typeof fields.yLabel === 'string' && fields.yLabel.trim() && { yLabel: fields.yLabel }),
+      };
+  }
+};
+
+export const normalizeVisuals = (values: unknown): VisualSpec[] | undefined =>
+  Array.isArray(values) && values.length > 0 ? values.map(normalizeVisual) : undefined;
+
+// --- Graphs ---
+export type GraphFunction = (x: number, parameters: Record<string, number>) => number;
+
+// Throws (like parseExpression) when the expression can't be read or uses a letter other than
+// x and the graph's parameters.
+export const compileGraphExpression = (expression: string, parameterNames: string[] = []): GraphFunction => {
+  const node: MathNode = parseExpression(expression.replace(/^\s*y\s*=/, ''));
+  const unknown = [...collectVariables(node)].filter(name => name !== 'x' && !parameterNames.includes(name));
+  if (unknown.length > 0) {
+    throw new Error(`Unknown letter "${unknown[0]}" in expression.`);
+  }
+  return (x, parameters) => evaluateExpression(node, { ...parameters, x });
+};
+
+// A round step (1, 2 or 5 times a power of ten) giving about `targetTicks` ticks over the range.
+export const niceStep = (range: number, targetTicks = 10): number => {
+  const rough = range / targetTicks;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)));
+  const normalized = rough / magnitude;
+  return (normalized < 1.5 ? 1 : normalized < 3.5 ? 2 : normalized < 7.5 ? 5 : 10) * magnitude;
+};
+
+export const ticksBetween = (min: number, max: number, step: number): number[] => {
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max + step * 1e-9; value += step) {
+    ticks.push(Number(value.toFixed(10)));
+  }
+  return ticks;
+};
+
+export const formatNumber = (value: number): string => String(Number(value.toFixed(2)));
+
+// --- Describing ---
+// A one-line summary of a figure, for prompts (e.g. the tutor's copy of the lesson).
+export const describeVisual = (visual: VisualSpec): string => {
+  const title = visual.title ? `${visual.title}: ` : '';
+  switch (visual.kind) {
+    case 'graph': {
+      const parts = [
+        ...visual.functions.map(fn => `y = ${fn.expression}`),
+        ...visual.points.map(point => `${point.label ?? 'point'} (${point.x}, ${point.y})`),
+        ...visual.parameters.map(parameter => `slider ${parameter.name} from ${parameter.min} to ${parameter.max}`),
+      ];
+      return `[graph, ${title}${parts.join('; ')}]`;
+    }
+    case 'number-line': {
+      const parts = [
+        ...visual.markers.map(marker => `${marker.open ? 'open' : 'closed'} dot at ${marker.value}${marker.label ? ` (${marker.label})` : ''}`),
+        ...visual.ranges.map(range => `shaded from ${range.from} to ${range.to}`),
+      ];
+      return `[number line from ${visual.min} to ${visual.max}, ${title}${parts.join('; ') || 'no marks'}]`;
+    }
+    case 'geometry': {
+      const parts = visual.shapes.map(shape => {
+        const labels = [...shape.points.map(point => point.label), shape.label, ...(shape.sideLabels ?? []), ...(shape.angleLabels ?? [])].filter(Boolean);
+        return `${shape.shape}${labels.length > 0 ? ` (${labels.join(', ')})` : ''}`;
+      });
+      return `[diagram, ${title}${parts.join('; ')}]`;
+    }
+    case 'bar-chart':
+    case 'pie-chart':
+      return `[${visual.kind === 'bar-chart' ? 'bar' : 'pie'} chart, ${title}${visual.data.map(entry => `${entry.label}: ${entry.value}`).join(', ')}]`;
+  }
+};